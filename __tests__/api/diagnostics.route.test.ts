@@ -0,0 +1,195 @@
+/**
+ * Tests for /api/diagnostics/* API routes
+ */
+
+import { promises as fs } from 'fs';
+
+// Mock Next.js server modules
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((url: string, init?: RequestInit) => ({
+    nextUrl: new URL(url),
+    headers: new Headers(init?.headers),
+  })),
+  NextResponse: Object.assign(
+    jest.fn().mockImplementation((body: any, init?: ResponseInit) => ({
+      body,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    })),
+    {
+      json: jest.fn((body: any, init?: ResponseInit) => ({
+        json: async () => body,
+        status: init?.status || 200,
+        headers: new Map(Object.entries(init?.headers || {})),
+      })),
+    }
+  ),
+}));
+
+// Mock the fs module
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn(),
+  },
+}));
+
+// Import after mocking
+import { GET as getGeocoding } from '@/app/api/diagnostics/geocoding/route';
+import { GET as getValidation } from '@/app/api/diagnostics/validation/route';
+import { NextRequest } from 'next/server';
+import { clearVictimDatasetCache } from '@/lib/datasetStore';
+
+const mockCSV = [
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר',
+  'כהן,דוד,סמ"ר,45,בארי,07/10/2023,עזה,טבח 7 באוקטובר,זכר,https://example.com/article1',
+  'לוי,שרה,סגן,28,ת"א,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,-',
+  'מזרחי,יוסף,סמל,62,"כפר עזה, עוטף עזה",20/11/2023,עזה,לחימה,זכר,-',
+  'פרץ,אבי,סרן,30,כוחלה,08/10/2023,לבנון,לחימה,זכר,-',
+  'אברהם,משה,סרן,33,כוחלה,09/10/2023,לבנון,לחימה,זכר,-',
+  'ביטון,רון,סמל,21,מקום לא ידוע,10/10/2023,לבנון,לחימה,זכר,-',
+].join('\n');
+
+const request = (path: string, headers?: Record<string, string>) =>
+  new NextRequest(`http://localhost${path}`, { headers });
+
+describe('GET /api/diagnostics/geocoding', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
+    mockReadFile.mockResolvedValue(mockCSV);
+  });
+
+  it('should count records per geocode status', async () => {
+    const response = await getGeocoding(request('/api/diagnostics/geocoding'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.geocoding.total).toBe(6);
+    expect(body.data.geocoding.byStatus).toEqual({ exact: 1, alias: 1, partial: 1, fallback: 3 });
+  });
+
+  it('should list unresolved place names with counts, most frequent first', async () => {
+    const response = await getGeocoding(request('/api/diagnostics/geocoding'));
+    const body = await response.json();
+
+    expect(body.data.geocoding.unresolved).toEqual([
+      { location: 'כוחלה', count: 2 },
+      { location: 'מקום לא ידוע', count: 1 },
+    ]);
+    expect(body.data.geocoding.partial).toEqual([
+      { location: 'כפר עזה, עוטף עזה', count: 1, matchedName: 'כפר עזה', alternatives: [] },
+    ]);
+  });
+
+  it('should return 304 when the ETag matches', async () => {
+    const first = await getGeocoding(request('/api/diagnostics/geocoding'));
+    const etag = first.headers.get('ETag') as string;
+
+    const response = await getGeocoding(
+      request('/api/diagnostics/geocoding', { 'If-None-Match': etag })
+    );
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should report the places when every record failed', async () => {
+    mockReadFile.mockResolvedValue(mockCSV.split('\n').slice(0, 3).join('\n').replace(/,(45|28),/g, ',150,'));
+
+    const response = await getGeocoding(request('/api/diagnostics/geocoding'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.geocoding.total).toBe(2);
+    expect(body.data.geocoding.byStatus).toEqual({ exact: 1, alias: 1, partial: 0, fallback: 0 });
+  });
+
+  it('should return 404 when the data file is missing', async () => {
+    mockStat.mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+    const response = await getGeocoding(request('/api/diagnostics/geocoding'));
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe('FILE_NOT_FOUND');
+  });
+});
+
+describe('GET /api/diagnostics/validation', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  const validationCSV = [
+    'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר',
+    'כהן,דוד,סמ"ר,45,בארי,07/10/2023,עזה,טבח 7 באוקטובר,זכר,https://www.ynet.co.il/news/article/abc123',
+    'לוי,שרה,סגן,150,בארי,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,-',
+    'מזרחי,יוסף,סמל,62,בארי,20/11/2023,עזה,לחימה,זכר,https://example.com/article',
+    'פרץ,אבי,סרן,30,בארי,08/10/2023,לבנון',
+  ].join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
+    mockReadFile.mockResolvedValue(validationCSV);
+  });
+
+  it('should summarize the rows and count the rules', async () => {
+    const response = await getValidation(request('/api/diagnostics/validation'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.validation).toMatchObject({
+      total: 4,
+      processed: 2,
+      failed: 2,
+      warned: 1,
+      ruleCounts: { 'age.range': 1, 'consistency.articleUrl': 1, 'url.required': 1 },
+    });
+  });
+
+  it('should list failed and warned rows with their line, values and rules', async () => {
+    const response = await getValidation(request('/api/diagnostics/validation'));
+    const { rows } = (await response.json()).data.validation;
+
+    expect(rows.map((row: { line: number }) => row.line)).toEqual([3, 4, 5]);
+    expect(rows[0]).toMatchObject({
+      recordIndex: 1,
+      line: 3,
+      status: 'failed',
+      recordIdentifier: 'שרה לוי',
+      values: { 'גיל': '150' },
+      issues: [{ ruleId: 'age.range', severity: 'error', field: 'age', value: 150 }],
+    });
+    expect(rows[1]).toMatchObject({
+      recordIndex: 2,
+      line: 4,
+      status: 'warning',
+      recordId: expect.any(String),
+      issues: [{ ruleId: 'consistency.articleUrl', severity: 'warning', suggestion: expect.any(String) }],
+    });
+    expect(rows[2]).toMatchObject({ status: 'failed', values: { 'קָטֵגוֹרִיָה': 'לבנון' } });
+  });
+
+  it('should report CSV parser problems', async () => {
+    const response = await getValidation(request('/api/diagnostics/validation'));
+    const { parseErrors } = (await response.json()).data.validation;
+
+    expect(parseErrors).toEqual([expect.objectContaining({ code: 'TooFewFields', row: 3, line: 5 })]);
+  });
+
+  it('should report the rows when every record failed', async () => {
+    mockReadFile.mockResolvedValue(validationCSV.split('\n').slice(0, 3).join('\n').replace(',45,', ',150,'));
+
+    const response = await getValidation(request('/api/diagnostics/validation'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.validation).toMatchObject({ total: 2, processed: 0, failed: 2 });
+  });
+});
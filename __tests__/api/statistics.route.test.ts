@@ -0,0 +1,219 @@
+/**
+ * Tests for /api/statistics/* API routes
+ */
+
+import { promises as fs } from 'fs';
+
+// Mock Next.js server modules
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((url: string, init?: RequestInit) => ({
+    nextUrl: new URL(url),
+    headers: new Headers(init?.headers),
+  })),
+  NextResponse: Object.assign(
+    jest.fn().mockImplementation((body: any, init?: ResponseInit) => ({
+      body,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    })),
+    {
+      json: jest.fn((body: any, init?: ResponseInit) => ({
+        json: async () => body,
+        status: init?.status || 200,
+        headers: new Map(Object.entries(init?.headers || {})),
+      })),
+    }
+  ),
+}));
+
+// Mock the fs module
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn(),
+  },
+}));
+
+// Import after mocking
+import { GET as getSummary } from '@/app/api/statistics/summary/route';
+import { GET as getDaily } from '@/app/api/statistics/daily/route';
+import { GET as getCumulative } from '@/app/api/statistics/cumulative/route';
+import { GET as getTopLocations } from '@/app/api/statistics/top-locations/route';
+import { GET as getBreakdown } from '@/app/api/statistics/breakdown/route';
+import { NextRequest } from 'next/server';
+import { clearVictimDatasetCache } from '@/lib/datasetStore';
+
+const mockCSV = [
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר',
+  'כהן,דוד,סמ"ר,45,בארי,07/10/2023,עזה,טבח 7 באוקטובר,זכר,https://example.com/article1',
+  'לוי,שרה,סגן,28,בארי,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,-',
+  'מזרחי,יוסף,סמל,62,בארי,20/11/2023,עזה,לחימה,זכר,-',
+  'פרץ,אבי,סרן,30,שדרות,08/10/2023,לבנון,לחימה,זכר,-',
+].join('\n');
+
+const request = (path: string, headers?: Record<string, string>) =>
+  new NextRequest(`http://localhost${path}`, { headers });
+
+describe('GET /api/statistics/*', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
+    mockReadFile.mockResolvedValue(mockCSV);
+  });
+
+  describe('summary', () => {
+    it('should return statistics for all victims', async () => {
+      const response = await getSummary(request('/api/statistics/summary'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.data.statistics.total).toBe(4);
+      expect(body.data.statistics.bySource).toEqual({ עזה: 3, לבנון: 1 });
+      expect(body.data.metadata).toMatchObject({ matched: 4, filters: {} });
+    });
+
+    it('should apply the /api/victims filter parameters', async () => {
+      const response = await getSummary(
+        request('/api/statistics/summary?source=עזה&endDate=2023-10-31')
+      );
+      const body = await response.json();
+
+      expect(body.data.statistics.total).toBe(2);
+      expect(body.data.statistics.byGender).toEqual({ זכר: 1, נקבה: 1, unknown: 0 });
+      expect(body.data.metadata.filters).toEqual({
+        sources: ['עזה'],
+        dateRange: { start: '0000-01-01', end: '2023-10-31' },
+      });
+    });
+
+    it('should return 400 for an invalid filter parameter', async () => {
+      const response = await getSummary(request('/api/statistics/summary?minAge=abc'));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.code).toBe('INVALID_PARAMETER');
+      expect(body.error.details).toEqual({ parameter: 'minAge', value: 'abc' });
+      expect(mockReadFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('daily and cumulative', () => {
+    it('should return the daily series', async () => {
+      const body = await (await getDaily(request('/api/statistics/daily'))).json();
+
+      expect(body.data.daily).toEqual([
+        { date: '2023-10-07', count: 2 },
+        { date: '2023-10-08', count: 1 },
+        { date: '2023-11-20', count: 1 },
+      ]);
+    });
+
+    it('should leave out rows with a missing or defaulted date', async () => {
+      mockReadFile.mockResolvedValue(
+        [
+          mockCSV,
+          'אברהם,משה,-,50,שדרות,-,עזה,טבח 7 באוקטובר,זכר,-',
+          'יעקב,רחל,-,40,שדרות,לא ידוע,עזה,טבח 7 באוקטובר,נקבה,-',
+        ].join('\n')
+      );
+
+      const body = await (await getDaily(request('/api/statistics/daily'))).json();
+
+      expect(body.data.metadata.matched).toBe(6);
+      expect(body.data.daily).toEqual([
+        { date: '2023-10-07', count: 2 },
+        { date: '2023-10-08', count: 1 },
+        { date: '2023-11-20', count: 1 },
+      ]);
+    });
+
+    it('should return the cumulative series for the filtered victims', async () => {
+      const body = await (
+        await getCumulative(request('/api/statistics/cumulative?source=עזה'))
+      ).json();
+
+      expect(body.data.cumulative).toEqual([
+        { date: '2023-10-07', cumulativeCount: 2 },
+        { date: '2023-11-20', cumulativeCount: 3 },
+      ]);
+      expect(body.data.metadata.matched).toBe(3);
+    });
+  });
+
+  describe('top-locations', () => {
+    it('should return the locations with the most victims', async () => {
+      const body = await (
+        await getTopLocations(request('/api/statistics/top-locations?limit=1'))
+      ).json();
+
+      expect(body.data.locations).toHaveLength(1);
+      expect(body.data.locations[0]).toMatchObject({ location: 'בארי', count: 3 });
+    });
+
+    it('should return 400 for an out-of-range limit', async () => {
+      const response = await getTopLocations(request('/api/statistics/top-locations?limit=0'));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.details).toEqual({ parameter: 'limit', value: '0' });
+    });
+  });
+
+  describe('breakdown', () => {
+    it('should return counts and percentages for a dimension', async () => {
+      const body = await (
+        await getBreakdown(request('/api/statistics/breakdown?by=cause'))
+      ).json();
+
+      expect(body.data.breakdown).toEqual({
+        dimension: 'cause',
+        entries: [
+          { key: 'טבח 7 באוקטובר', count: 2, percentage: 50 },
+          { key: 'לחימה', count: 2, percentage: 50 },
+        ],
+      });
+    });
+
+    it('should compute percentages relative to the filtered victims', async () => {
+      const body = await (
+        await getBreakdown(request('/api/statistics/breakdown?by=gender&cause=לחימה'))
+      ).json();
+
+      expect(body.data.breakdown.entries).toEqual([{ key: 'זכר', count: 2, percentage: 100 }]);
+    });
+
+    it('should return 400 for a missing or unknown dimension', async () => {
+      for (const path of ['/api/statistics/breakdown', '/api/statistics/breakdown?by=height']) {
+        const response = await getBreakdown(request(path));
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body.error.details.parameter).toBe('by');
+      }
+    });
+  });
+
+  it('should return 304 when the dataset is unchanged', async () => {
+    const first = await getDaily(request('/api/statistics/daily'));
+    const etag = first.headers.get('ETag') as string;
+
+    const response = await getDaily(request('/api/statistics/daily', { 'If-None-Match': etag }));
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should return 404 when the data file is missing', async () => {
+    mockStat.mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+
+    const response = await getSummary(request('/api/statistics/summary'));
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe('FILE_NOT_FOUND');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for /api/victims/[id] API route
+ */
+
+import { promises as fs } from 'fs';
+
+// Mock Next.js server modules
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((url: string, init?: RequestInit) => ({
+    nextUrl: new URL(url),
+    headers: new Headers(init?.headers),
+  })),
+  NextResponse: Object.assign(
+    jest.fn().mockImplementation((body: any, init?: ResponseInit) => ({
+      body,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    })),
+    {
+      json: jest.fn((body: any, init?: ResponseInit) => ({
+        json: async () => body,
+        status: init?.status || 200,
+        headers: new Map(Object.entries(init?.headers || {})),
+      })),
+    }
+  ),
+}));
+
+// Mock the fs module
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn(),
+  },
+}));
+
+// Import after mocking
+import { GET } from '@/app/api/victims/[id]/route';
+import { NextRequest } from 'next/server';
+import { clearVictimDatasetCache } from '@/lib/datasetStore';
+import { generateVictimId } from '@/lib/dataProcessing';
+
+const mockCSV = [
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר',
+  'כהן,דוד,סמ"ר,45,בארי,07/10/2023,עזה,טבח 7 באוקטובר,זכר,https://example.com/article1',
+  'לוי,שרה,סגן,28,בארי,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,-',
+  'מזרחי,יוסף,סמל,62,בארי,20/11/2023,עזה,לחימה,זכר,-',
+  'פרץ,אבי,סרן,30,שדרות,07/10/2023,עזה,לחימה,זכר,-',
+].join('\n');
+
+const davidId = generateVictimId('דוד', 'כהן', '2023-10-07', 'בארי');
+
+const get = async (id: string, headers?: Record<string, string>) => {
+  const request = new NextRequest(`http://localhost/api/victims/${id}`, { headers });
+  const response = await GET(request, { params: { id } });
+  return response;
+};
+
+describe('GET /api/victims/[id]', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
+    mockReadFile.mockResolvedValue(mockCSV);
+  });
+
+  it('should return the victim with related victims', async () => {
+    const response = await get(davidId);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.victim).toMatchObject({
+      id: davidId,
+      fullName: 'דוד כהן',
+      source: 'עזה',
+      causeOfDeath: 'טבח 7 באוקטובר',
+    });
+
+    const { sameLocation, sameDate } = body.data.related;
+    expect(sameLocation.total).toBe(2);
+    expect(sameLocation.victims.map((v: any) => v.fullName)).toEqual(['שרה לוי', 'יוסף מזרחי']);
+    expect(sameDate.total).toBe(2);
+    expect(sameDate.victims.map((v: any) => v.fullName).sort()).toEqual(['אבי פרץ', 'שרה לוי']);
+  });
+
+  it('should return only summary fields for related victims', async () => {
+    const body = await (await get(davidId)).json();
+
+    expect(Object.keys(body.data.related.sameDate.victims[0]).sort()).toEqual([
+      'age',
+      'causeOfDeath',
+      'date',
+      'dateQuality',
+      'fullName',
+      'id',
+      'location',
+      'rank',
+    ]);
+  });
+
+  it('should return 404 for an unknown id', async () => {
+    const response = await get('0000000000000000');
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.success).toBe(false);
+    expect(body.error.code).toBe('NOT_FOUND');
+    expect(body.error.details).toEqual({ id: '0000000000000000' });
+  });
+
+  it('should return 400 for a malformed id', async () => {
+    const response = await get('not-an-id');
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe('INVALID_PARAMETER');
+    expect(body.error.details).toEqual({ parameter: 'id', value: 'not-an-id' });
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+
+  it('should return 304 when the dataset is unchanged', async () => {
+    const first = await get(davidId);
+    const response = await get(davidId, { 'If-None-Match': first.headers.get('ETag') as string });
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should return 404 when the data file is missing', async () => {
+    const error: any = new Error('File not found');
+    error.code = 'ENOENT';
+    mockStat.mockRejectedValueOnce(error);
+
+    const response = await get(davidId);
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe('FILE_NOT_FOUND');
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Tests for query parameters of the /api/victims API route
+ * Uses CSV fixtures in the same format as data/victims.csv
+ */
+
+import { promises as fs } from 'fs';
+import type { ProcessedVictimData } from '@/types/victim';
+
+// Mock Next.js server modules
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((url: string, init?: RequestInit) => ({
+    nextUrl: new URL(url),
+    headers: new Headers(init?.headers),
+  })),
+  NextResponse: Object.assign(
+    jest.fn().mockImplementation((body: any, init?: ResponseInit) => ({
+      body,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    })),
+    {
+      json: jest.fn((body: any, init?: ResponseInit) => ({
+        json: async () => body,
+        status: init?.status || 200,
+        headers: new Map(Object.entries(init?.headers || {})),
+      })),
+    }
+  ),
+}));
+
+// Mock the fs module
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn(),
+  },
+}));
+
+// Import after mocking
+import { GET } from '@/app/api/victims/route';
+import { NextRequest } from 'next/server';
+import { clearVictimDatasetCache } from '@/lib/datasetStore';
+
+const mockCSV = [
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר',
+  'כהן,דוד,סמ"ר,45,תל אביב,15/07/2024,עזה,לחימה,זכר,https://example.com/article1',
+  'לוי,שרה,סגן,28,ירושלים,20/07/2024,לבנון,רקטות וטילים,נקבה,-',
+  'מזרחי,יוסף,סמל,62,תל אביב,25/07/2024,פיגועים בארץ,פיגוע,זכר,-',
+].join('\n');
+
+const get = async (query: string) => {
+  const request = new NextRequest(`http://localhost/api/victims${query}`);
+  const response = await GET(request);
+  return { status: response.status, body: await response.json() };
+};
+
+const lastNames = (victims: ProcessedVictimData[]) => victims.map((victim) => victim.lastName);
+
+describe('GET /api/victims query parameters', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
+    mockReadFile.mockResolvedValue(mockCSV);
+  });
+
+  describe('schema', () => {
+    it('should default to the deprecated v1 schema', async () => {
+      const { body } = await get('');
+
+      expect(body.data.metadata.schema).toBe('v1');
+      expect(body.data.metadata.deprecation).toMatchObject({ deprecated: true });
+      expect(body.data.victims[0].source).toBe('https://example.com/article1');
+    });
+
+    it('should return front-based sources for v2', async () => {
+      const { body } = await get('?schema=v2');
+
+      expect(body.data.metadata.schema).toBe('v2');
+      expect(body.data.metadata.deprecation).toBeUndefined();
+      expect(body.data.victims.map((v: ProcessedVictimData) => v.source)).toEqual([
+        'עזה',
+        'לבנון',
+        'פיגועים בארץ',
+      ]);
+    });
+
+    it('should reject an unknown schema', async () => {
+      const { status, body } = await get('?schema=v9');
+
+      expect(status).toBe(400);
+      expect(body.error.code).toBe('INVALID_PARAMETER');
+      expect(body.error.details).toEqual({ parameter: 'schema', value: 'v9' });
+    });
+  });
+
+  describe('filters', () => {
+    it('should filter by repeatable source parameters', async () => {
+      const { body } = await get('?schema=v2&source=עזה&source=לבנון');
+
+      expect(lastNames(body.data.victims)).toEqual(['כהן', 'לוי']);
+      expect(body.data.metadata.filters.sources).toEqual(['עזה', 'לבנון']);
+    });
+
+    it('should filter by date range, gender and age', async () => {
+      const { body } = await get(
+        '?schema=v2&startDate=2024-07-16&endDate=2024-07-31&gender=זכר&minAge=50'
+      );
+
+      expect(lastNames(body.data.victims)).toEqual(['מזרחי']);
+      expect(body.data.metadata.filters).toMatchObject({
+        dateRange: { start: '2024-07-16', end: '2024-07-31' },
+        gender: 'זכר',
+        ageRange: { min: 50, max: 120 },
+        includeStats: false,
+      });
+    });
+
+    it('should filter by cause of death', async () => {
+      const { body } = await get('?schema=v2&cause=רקטות וטילים');
+
+      expect(lastNames(body.data.victims)).toEqual(['לוי']);
+    });
+
+    it('should compute statistics over the filtered records', async () => {
+      const { body } = await get('?schema=v2&location=תל אביב&stats=true');
+
+      expect(body.data.statistics.total).toBe(2);
+      expect(body.data.statistics.bySource).toEqual({ 'עזה': 1, 'פיגועים בארץ': 1 });
+    });
+
+    it('should reject invalid values naming the parameter', async () => {
+      const { status, body } = await get('?maxAge=old');
+
+      expect(status).toBe(400);
+      expect(body.error.code).toBe('INVALID_PARAMETER');
+      expect(body.error.message).toContain('maxAge');
+      expect(body.error.details).toEqual({ parameter: 'maxAge', value: 'old' });
+    });
+  });
+
+  describe('dataset caching', () => {
+    it('should parse the CSV once while the file is unchanged', async () => {
+      await get('');
+      await get('?schema=v2');
+
+      expect(mockStat).toHaveBeenCalledTimes(2);
+      expect(mockReadFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload when the file modification time changes', async () => {
+      await get('');
+      mockStat.mockResolvedValue({ mtimeMs: 1800000000000, size: 2 } as any);
+      mockReadFile.mockResolvedValue(mockCSV.split('\n').slice(0, 2).join('\n'));
+
+      const { body } = await get('');
+
+      expect(mockReadFile).toHaveBeenCalledTimes(2);
+      expect(body.data.victims).toHaveLength(1);
+    });
+
+    it('should return ETag and Last-Modified headers', async () => {
+      const response = await GET(new NextRequest('http://localhost/api/victims'));
+
+      expect(response.headers.get('ETag')).toMatch(/^W\/"[a-f0-9]{32}"$/);
+      expect(response.headers.get('Last-Modified')).toBe(new Date(1700000000000).toUTCString());
+    });
+
+    it('should return 304 when If-None-Match matches', async () => {
+      const first = await GET(new NextRequest('http://localhost/api/victims'));
+      const etag = first.headers.get('ETag') as string;
+
+      const second = await GET(
+        new NextRequest('http://localhost/api/victims', { headers: { 'If-None-Match': etag } })
+      );
+
+      expect(second.status).toBe(304);
+      expect(second.headers.get('ETag')).toBe(etag);
+    });
+
+    it('should return 304 when not modified since the given date', async () => {
+      const response = await GET(
+        new NextRequest('http://localhost/api/victims', {
+          headers: { 'If-Modified-Since': new Date(1700000000000).toUTCString() },
+        })
+      );
+
+      expect(response.status).toBe(304);
+    });
+
+    it('should return 200 when If-None-Match is stale', async () => {
+      const response = await GET(
+        new NextRequest('http://localhost/api/victims', { headers: { 'If-None-Match': 'W/"old"' } })
+      );
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('sorting, pagination and projection', () => {
+    it('should sort by the requested key', async () => {
+      const { body } = await get('?sort=-age');
+
+      expect(lastNames(body.data.victims)).toEqual(['מזרחי', 'כהן', 'לוי']);
+      expect(body.data.metadata.sort).toBe('-age');
+    });
+
+    it('should return a page with pagination metadata', async () => {
+      const { body } = await get('?limit=2&offset=1');
+
+      expect(lastNames(body.data.victims)).toEqual(['לוי', 'מזרחי']);
+      expect(body.data.metadata.pagination).toEqual({
+        offset: 1,
+        limit: 2,
+        returned: 2,
+        total: 3,
+        hasMore: false,
+      });
+    });
+
+    it('should compute statistics over all matches, not just the page', async () => {
+      const { body } = await get('?limit=1&stats=true');
+
+      expect(body.data.victims).toHaveLength(1);
+      expect(body.data.metadata.pagination.nextOffset).toBe(1);
+      expect(body.data.statistics.total).toBe(3);
+    });
+
+    it('should project the requested fields', async () => {
+      const { body } = await get('?fields=id,fullName&limit=1');
+
+      expect(Object.keys(body.data.victims[0]).sort()).toEqual(['fullName', 'id']);
+      expect(body.data.metadata.fields).toEqual(['id', 'fullName']);
+    });
+
+    it('should reject unknown fields', async () => {
+      const { status, body } = await get('?fields=secret');
+
+      expect(status).toBe(400);
+      expect(body.error.details).toEqual({ parameter: 'fields', value: 'secret' });
+    });
+  });
+
+  describe('export formats', () => {
+    const download = async (query: string) => {
+      const request = new NextRequest(`http://localhost/api/victims${query}`);
+      const response = (await GET(request)) as unknown as {
+        status: number;
+        body: string;
+        headers: Map<string, string>;
+      };
+      return response;
+    };
+
+    it('should return CSV with the Hebrew sheet headers and a BOM', async () => {
+      const { status, body, headers } = await download('?format=csv&schema=v2&sort=-age');
+      const [header, first] = body.replace('\uFEFF', '').split('\r\n');
+
+      expect(status).toBe(200);
+      expect(body.startsWith('\uFEFF')).toBe(true);
+      expect(headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+      expect(headers.get('Content-Disposition')).toBe('attachment; filename="victims.csv"');
+      expect(header.split(',').slice(0, 3)).toEqual(['שם משפחה', 'שם פרטי', 'דרגה']);
+      expect(first).toContain('מזרחי,יוסף');
+      expect(first).toContain('25/07/2024');
+    });
+
+    it('should return the filtered page as a GeoJSON feature collection', async () => {
+      const { body, headers } = await download('?format=geojson&location=תל אביב&fields=fullName');
+      const collection = JSON.parse(body);
+
+      expect(headers.get('Content-Type')).toBe('application/geo+json; charset=utf-8');
+      expect(collection.type).toBe('FeatureCollection');
+      expect(collection.features).toHaveLength(2);
+      expect(collection.features[0].geometry.type).toBe('Point');
+      expect(collection.features[0].properties).toEqual({ fullName: 'דוד כהן' });
+    });
+
+    it('should return one JSON record per line as NDJSON', async () => {
+      const { body } = await download('?format=ndjson&limit=2');
+      const lines = body.trim().split('\n').map((line) => JSON.parse(line));
+
+      expect(lines.map((victim) => victim.lastName)).toEqual(['כהן', 'לוי']);
+    });
+
+    it('should reject unknown formats', async () => {
+      const { status, body } = await get('?format=xlsx');
+
+      expect(status).toBe(400);
+      expect(body.error.details).toEqual({ parameter: 'format', value: 'xlsx' });
+    });
+  });
+});
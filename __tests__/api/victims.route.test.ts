@@ -8,8 +8,9 @@ import type { ProcessedVictimData } from '@/types/victim';
 
 // Mock Next.js server modules
 jest.mock('next/server', () => ({
-  NextRequest: jest.fn().mockImplementation((url: string) => ({
+  NextRequest: jest.fn().mockImplementation((url: string, init?: RequestInit) => ({
     nextUrl: new URL(url),
+    headers: new Headers(init?.headers),
   })),
   NextResponse: {
     json: jest.fn((body: any, init?: ResponseInit) => ({
@@ -24,12 +25,14 @@ jest.mock('next/server', () => ({
 jest.mock('fs', () => ({
   promises: {
     readFile: jest.fn(),
+    stat: jest.fn(),
   },
 }));
 
 // Import after mocking
 import { GET, OPTIONS } from '@/app/api/victims/route';
 import { NextRequest } from 'next/server';
+import { clearVictimDatasetCache } from '@/lib/datasetStore';
 
 // Mock sample victim data
 const mockVictimData = [
@@ -79,9 +82,12 @@ const mockVictimData = [
 
 describe('GET /api/victims', () => {
   const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 1 } as any);
   });
 
   describe('Successful responses', () => {
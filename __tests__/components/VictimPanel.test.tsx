@@ -0,0 +1,107 @@
+/**
+ * Tests for the VictimPanel memorial card
+ */
+
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import '@testing-library/jest-dom'
+import VictimPanel from '@/components/VictimPanel'
+
+const victim = {
+  id: 'a1b2c3d4e5f60718',
+  fullName: 'דוד כהן',
+  firstName: 'דוד',
+  lastName: 'כהן',
+  rank: 'סמ"ר',
+  age: 45,
+  gender: 'זכר',
+  location: 'בארי',
+  date: '2023-10-07',
+  causeOfDeath: 'טבח 7 באוקטובר',
+  url: 'https://example.com/article1',
+  hasUrl: true,
+}
+
+const detailResponse = {
+  success: true,
+  data: {
+    victim,
+    related: {
+      sameLocation: {
+        total: 1,
+        victims: [{ id: '0f1e2d3c4b5a6978', fullName: 'שרה לוי', location: 'בארי', date: '2023-10-07' }],
+      },
+      sameDate: { total: 0, victims: [] },
+    },
+    metadata: { timestamp: 0 },
+  },
+}
+
+describe('VictimPanel', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => detailResponse,
+    }) as jest.Mock
+  })
+
+  it('should fetch and show the memorial card', async () => {
+    render(<VictimPanel victimId={victim.id} onSelect={jest.fn()} onClose={jest.fn()} />)
+
+    expect(await screen.findByText('דוד כהן ז"ל')).toBeInTheDocument()
+    expect(global.fetch).toHaveBeenCalledWith(`/api/victims/${victim.id}`)
+    expect(screen.getByText('סמ"ר')).toBeInTheDocument()
+    expect(screen.getByText('07/10/2023')).toBeInTheDocument()
+    expect(screen.getByText('טבח 7 באוקטובר')).toBeInTheDocument()
+    expect(screen.getByRole('link')).toHaveAttribute('href', victim.url)
+    expect(screen.getByRole('complementary')).toHaveAttribute('dir', 'rtl')
+  })
+
+  it('should list related victims and select them on click', async () => {
+    const onSelect = jest.fn()
+    render(<VictimPanel victimId={victim.id} onSelect={onSelect} onClose={jest.fn()} />)
+
+    await userEvent.click(await screen.findByRole('button', { name: /שרה לוי/ }))
+
+    expect(onSelect).toHaveBeenCalledWith('0f1e2d3c4b5a6978')
+    expect(screen.queryByText(/נפלו באותו יום/)).not.toBeInTheDocument()
+  })
+
+  it('should show a missing date as unknown rather than October 7', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        ...detailResponse,
+        data: { ...detailResponse.data, victim: { ...victim, dateQuality: 'missing' } },
+      }),
+    }) as jest.Mock
+    render(<VictimPanel victimId={victim.id} onSelect={jest.fn()} onClose={jest.fn()} />)
+
+    expect(await screen.findByText('תאריך לא ידוע')).toBeInTheDocument()
+    expect(screen.getByText(/בארי · 07\/10\/2023/)).toBeInTheDocument()
+  })
+
+  it('should call onClose from the close button', async () => {
+    const onClose = jest.fn()
+    render(<VictimPanel victimId={victim.id} onSelect={jest.fn()} onClose={onClose} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'סגירה' }))
+
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('should show the API error message', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      json: async () => ({ success: false, error: { message: 'Victim not found', code: 'NOT_FOUND' } }),
+    }) as jest.Mock
+
+    render(<VictimPanel victimId={victim.id} onSelect={jest.fn()} onClose={jest.fn()} />)
+
+    await waitFor(() => expect(screen.getByText('Victim not found')).toBeInTheDocument())
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Processed victim records for tests
+ */
+
+import type { ProcessedVictimData } from '@/types/victim';
+
+/**
+ * Build a processed victim: a civilian from Sderot killed by a rocket on
+ * October 7, 2023, with the given fields replaced
+ */
+export const createVictim = (overrides: Partial<ProcessedVictimData> = {}): ProcessedVictimData => ({
+  id: 'victim-1',
+  firstName: 'דוד',
+  lastName: 'כהן',
+  fullName: 'דוד כהן',
+  rank: '-',
+  age: 30,
+  location: 'שדרות',
+  date: '2023-10-07',
+  dateObject: new Date('2023-10-07'),
+  timestamp: new Date('2023-10-07').getTime(),
+  source: 'עזה',
+  category: 'עזה',
+  type: 'רקטות וטילים',
+  causeOfDeath: 'רקטות וטילים',
+  gender: 'זכר',
+  url: '-',
+  latitude: 31.525,
+  longitude: 34.5961,
+  isCivilian: true,
+  hasUrl: false,
+  geocodeStatus: 'exact',
+  dateQuality: 'exact',
+  residenceLocation: overrides.location ?? 'שדרות',
+  ...overrides,
+});
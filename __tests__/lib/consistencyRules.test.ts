@@ -0,0 +1,129 @@
+/**
+ * Tests for the cross-field consistency rules
+ */
+
+import {
+  CONSISTENCY_RULES,
+  isAbroadLocation,
+  isArticleUrl,
+  isFeminineRank,
+  isMasculineRank,
+} from '@/lib/consistencyRules';
+import { validateVictimData } from '@/lib/validation';
+import type { VictimData } from '@/types/victim';
+
+const victim: VictimData = {
+  firstName: 'יוסי',
+  lastName: 'כהן',
+  rank: 'סמל',
+  age: 20,
+  location: 'שדרות',
+  date: '2023-10-07',
+  source: 'עזה',
+  type: 'לחימה',
+  causeOfDeath: 'לחימה',
+  gender: 'זכר',
+  url: 'https://www.ynet.co.il/news/article/abc123',
+  latitude: 31.525,
+  longitude: 34.5961,
+};
+
+/**
+ * Ids of the consistency rules that report a record
+ */
+const reportedRules = (data: Partial<VictimData>) =>
+  validateVictimData(data, undefined, CONSISTENCY_RULES).warnings.map((warning) => warning.ruleId);
+
+describe('CONSISTENCY_RULES', () => {
+  it('should not report a consistent record', () => {
+    expect(reportedRules(victim)).toEqual([]);
+  });
+
+  it('should run as warnings with a suggested fix', () => {
+    const result = validateVictimData({ ...victim, age: 16 });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        ruleId: 'consistency.minorSoldier',
+        severity: 'warning',
+        value: { rank: 'סמל', age: 16 },
+        suggestion: expect.any(String),
+      }),
+    ]);
+  });
+
+  it('should report a military rank under 18 but not a civilian', () => {
+    expect(reportedRules({ ...victim, age: 17 })).toEqual(['consistency.minorSoldier']);
+    expect(reportedRules({ ...victim, rank: '-', age: 17 })).toEqual([]);
+    expect(reportedRules({ ...victim, age: null })).toEqual([]);
+  });
+
+  it('should report dates before October 7, 2023 and in the future', () => {
+    expect(reportedRules({ ...victim, date: '2023-10-06' })).toEqual(['consistency.dateBeforeOct7']);
+    expect(reportedRules({ ...victim, date: '2999-01-01' })).toEqual(['consistency.futureDate']);
+  });
+
+  it('should report a feminine rank with a male gender', () => {
+    expect(reportedRules({ ...victim, rank: 'טוראית' })).toEqual(['consistency.rankGender']);
+    expect(reportedRules({ ...victim, rank: 'טוראית', gender: 'נקבה' })).toEqual([]);
+    expect(reportedRules({ ...victim, rank: 'טוראית', gender: null })).toEqual([]);
+  });
+
+  it('should report a masculine rank with a female gender', () => {
+    expect(reportedRules({ ...victim, rank: 'סמל', gender: 'נקבה' })).toEqual(['consistency.rankGender']);
+    expect(reportedRules({ ...victim, rank: 'רב"ט', gender: 'נקבה' })).toEqual(['consistency.rankGender']);
+    expect(reportedRules({ ...victim, rank: 'סרן', gender: 'נקבה' })).toEqual([]);
+    expect(reportedRules({ ...victim, rank: 'רס"מ', gender: 'נקבה' })).toEqual([]);
+    expect(reportedRules({ ...victim, rank: '-', gender: 'נקבה' })).toEqual([]);
+  });
+
+  it('should report a residence abroad on the Gaza front unless killed on October 7 or taken hostage', () => {
+    expect(reportedRules({ ...victim, location: 'תאילנד' })).toEqual(['consistency.abroadGaza']);
+    expect(reportedRules({ ...victim, location: 'תאילנד', causeOfDeath: 'טבח 7 באוקטובר' })).toEqual([]);
+    expect(reportedRules({ ...victim, location: 'תאילנד', source: 'לבנון' })).toEqual([]);
+  });
+
+  it('should report links that are not news articles', () => {
+    expect(reportedRules({ ...victim, url: 'https://ynet-pic1.yit.co.il/picserver5/photo.jpg' })).toEqual([
+      'consistency.articleUrl',
+    ]);
+    expect(reportedRules({ ...victim, url: '-' })).toEqual([]);
+  });
+});
+
+describe('isFeminineRank', () => {
+  it.each(['טוראית', 'רב"טית', 'סמלת', 'סמ"רית (מיל\')', 'סגנית'])('should read %s as feminine', (rank) => {
+    expect(isFeminineRank(rank)).toBe(true);
+  });
+
+  it.each(['טוראי', 'סמל', 'סמ"ר (מיל\')', 'סרן'])('should read %s as masculine', (rank) => {
+    expect(isFeminineRank(rank)).toBe(false);
+  });
+});
+
+describe('isMasculineRank', () => {
+  it.each(['טוראי', 'רב"ט', 'סמל', 'סמ"ר (מיל\')'])('should read %s as masculine', (rank) => {
+    expect(isMasculineRank(rank)).toBe(true);
+  });
+
+  it.each(['טוראית', 'סמלת', 'סרן', 'רס"מ', 'סמל ראשון'])('should not read %s as masculine', (rank) => {
+    expect(isMasculineRank(rank)).toBe(false);
+  });
+});
+
+describe('isAbroadLocation', () => {
+  it('should resolve places through the gazetteer', () => {
+    expect(isAbroadLocation('תאילנד')).toBe(true);
+    expect(isAbroadLocation('שדרות')).toBe(false);
+    expect(isAbroadLocation('מקום לא ידוע')).toBe(false);
+  });
+});
+
+describe('isArticleUrl', () => {
+  it('should accept ynet article pages only', () => {
+    expect(isArticleUrl('https://www.ynet.co.il/news/article/hkxyz123')).toBe(true);
+    expect(isArticleUrl('https://www.ynet.co.il/news/category/184')).toBe(false);
+    expect(isArticleUrl('https://example.com/article')).toBe(false);
+  });
+});
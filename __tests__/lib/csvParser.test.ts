@@ -0,0 +1,200 @@
+/**
+ * Tests for CSV parsing utilities
+ */
+
+import { parseVictimCSV, parseVictimCSVWithDiagnostics } from '@/lib/csvParser';
+import { processVictimDataArray } from '@/lib/dataProcessing';
+import { calculateVictimStatistics } from '@/lib/statistics';
+
+const HEADER =
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר';
+
+const buildCSV = (...rows: string[]) => [HEADER, ...rows].join('\n');
+
+describe('csvParser', () => {
+  describe('parseVictimCSV', () => {
+    it('should map the category column to the source front', () => {
+      const [victim] = parseVictimCSV(
+        buildCSV('כהן,יוסף,סמ"ר,20,באר שבע,25/09/2025,עזה,לחימה,זכר,https://example.com/a')
+      );
+
+      expect(victim.source).toBe('עזה');
+      expect(victim.category).toBe('עזה');
+    });
+
+    it('should read the incident type from the category column', () => {
+      const [hostage, attack, front] = parseVictimCSV(
+        buildCSV(
+          'לוי,שרה,-,30,ניר עוז,01/06/2024,חטופים,חטיפה ושבי,נקבה,-',
+          'כהן,יוסף,-,44,ברוכין,29/05/2025,פיגועים בארץ,פיגוע,זכר,-',
+          'כהן,יוסף,-,44,בארי,07/10/2023,עזה,טבח 7 באוקטובר,זכר,-'
+        )
+      );
+
+      expect(hostage.type).toBe('חטיפה ושבי');
+      expect(attack.type).toBe('פיגוע');
+      expect(front.type).toBe('unknown');
+      expect(front.causeOfDeath).toBe('טבח 7 באוקטובר');
+    });
+
+    it('should not use the article URL as source', () => {
+      const [victim] = parseVictimCSV(
+        buildCSV('לוי,שרה,-,30,חיפה,01/06/2024,איראן,רקטות וטילים,נקבה,https://example.com/b')
+      );
+
+      expect(victim.source).toBe('איראן');
+      expect(victim.url).toBe('https://example.com/b');
+    });
+
+    it('should map hostage category to the Gaza front', () => {
+      const [victim] = parseVictimCSV(
+        buildCSV('לוי,שרה,-,30,ניר עוז,01/06/2024,חטופים,חטיפה ושבי,נקבה,-')
+      );
+
+      expect(victim.source).toBe('עזה');
+      expect(victim.category).toBe('חטופים');
+    });
+
+    it('should mark missing category and cause as unknown', () => {
+      const [victim] = parseVictimCSV(buildCSV('לוי,שרה,-,30,חיפה,01/06/2024,,,נקבה,-'));
+
+      expect(victim.source).toBe('unknown');
+      expect(victim.category).toBe('-');
+      expect(victim.type).toBe('unknown');
+      expect(victim.causeOfDeath).toBe('-');
+    });
+
+    it('should geocode the place of residence', () => {
+      const [victim] = parseVictimCSV(
+        buildCSV('כהן,יוסף,סמ"ר,20,קיבוץ הזורע,25/09/2025,עזה,לחימה,זכר,-')
+      );
+
+      expect(victim.location).toBe('קיבוץ הזורע');
+      expect(victim.geocodeStatus).toBe('alias');
+      expect(victim.incidentLocation).toBeUndefined();
+    });
+
+    it('should read and geocode an incident location column when present', () => {
+      const [victim, withoutIncident] = parseVictimCSV(
+        [
+          `${HEADER},מקום האירוע`,
+          'כהן,יוסף,סמ"ר,20,באר שבע,07/10/2023,עזה,לחימה,זכר,-,בארי',
+          'לוי,דן,סמל,21,חיפה,07/10/2023,עזה,לחימה,זכר,-,-',
+        ].join('\n')
+      );
+
+      expect(victim.location).toBe('באר שבע');
+      expect(victim.incidentLocation).toEqual({
+        name: 'בארי',
+        latitude: 31.4239,
+        longitude: 34.4931,
+        geocodeStatus: 'exact',
+      });
+      expect(withoutIncident.incidentLocation).toBeUndefined();
+    });
+
+    it('should keep unknown age and gender as null', () => {
+      const [victim] = parseVictimCSV(buildCSV('לוי,שרה,-,-,חיפה,01/06/2024,איראן,רקטות וטילים,-,-'));
+
+      expect(victim.age).toBeNull();
+      expect(victim.gender).toBeNull();
+    });
+
+    it('should keep the "-" rank of civilians', () => {
+      const [victim] = parseVictimCSV(buildCSV('לוי,שרה,-,30,חיפה,01/06/2024,איראן,רקטות וטילים,נקבה,-'));
+
+      expect(victim.rank).toBe('-');
+    });
+
+    it('should keep real rows with an unknown age', () => {
+      // Rows of data/victims.csv: an unnamed civilian and a foreign national
+      const records = parseVictimCSV(
+        buildCSV(
+          '-,אלמוני,-,-,שדרות,07/10/2023,עזה,טבח 7 באוקטובר,זכר,-',
+          'רקסאנון,צ\'איה,-,-,תאילנד,07/10/2023,עזה,טבח 7 באוקטובר,זכר,-'
+        )
+      );
+      const result = processVictimDataArray(records);
+
+      expect(result.failedRecords).toEqual([]);
+      expect(result.processedData).toEqual([
+        expect.objectContaining({ age: null, isCivilian: true }),
+        expect.objectContaining({ age: null, isCivilian: true }),
+      ]);
+      expect(calculateVictimStatistics(result.processedData).ageStats.unknown).toBe(2);
+    });
+
+    it('should keep real rows of infants under a year', () => {
+      // Rows of data/victims.csv
+      const records = parseVictimCSV(
+        buildCSV(
+          'גז,רביד חיים,-,0.04,ברוכין,29/05/2025,פיגועים בארץ,פיגוע,זכר,https://www.ynet.co.il/news/article/rjlu85bfee',
+          'ביבס,כפיר,-,0.75,ניר עוז,25/02/2025,עזה,חטיפה ושבי,זכר,https://www.ynet.co.il/news/article/byavdlic1e',
+          'כהן,מילה,-,0.83,בארי,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,-',
+          'אבו ראשד,נעאמה,-,14 שעות,אבו קרינאת,07/10/2023,עזה,טבח 7 באוקטובר,נקבה,https://www.ynet.co.il/health/article/yokra14143687'
+        )
+      );
+      const result = processVictimDataArray(records);
+
+      expect(records.map((record) => record.age)).toEqual([0.04, 0.75, 0.83, 0]);
+      expect(result.failedRecords).toEqual([]);
+      expect(result.processedData).toHaveLength(4);
+    });
+
+    it('should read ages that are not a number as unknown', () => {
+      const records = parseVictimCSV(
+        buildCSV(
+          'לוי,שרה,-,כ-30,חיפה,01/06/2024,איראן,רקטות וטילים,נקבה,-',
+          'לוי,שרה,-,30 בערך,חיפה,01/06/2024,איראן,רקטות וטילים,נקבה,-'
+        )
+      );
+
+      expect(records.map((record) => record.age)).toEqual([null, null]);
+    });
+
+    it('should record how precise each date is instead of silently using October 7', () => {
+      const [exact, partial, missing, unreadable] = parseVictimCSV(
+        buildCSV(
+          'כהן,יוסף,-,44,בארי,7.10.23,עזה,טבח 7 באוקטובר,זכר,-',
+          'כהן,יוסף,-,45,בארי,03/2024,עזה,לחימה,זכר,-',
+          'כהן,יוסף,-,46,בארי,-,עזה,לחימה,זכר,-',
+          'כהן,יוסף,-,47,בארי,לא ידוע,עזה,לחימה,זכר,-'
+        )
+      );
+
+      expect(exact).toMatchObject({ date: '2023-10-07', dateQuality: 'exact' });
+      expect(partial).toMatchObject({ date: '2024-03-01', dateQuality: 'partial' });
+      expect(missing).toMatchObject({ date: '2023-10-07', dateQuality: 'missing' });
+      expect(unreadable).toMatchObject({ date: '2023-10-07', dateQuality: 'defaulted' });
+    });
+  });
+
+  describe('parseVictimCSVWithDiagnostics', () => {
+    it('should keep the line and cell values of each row', () => {
+      const { records, rows } = parseVictimCSVWithDiagnostics(
+        '\uFEFF' +
+          buildCSV(
+            'כהן,יוסף,-,44,בארי,7.10.23,עזה,טבח 7 באוקטובר,זכר,-',
+            '',
+            'לוי,"שרה\nרחל",-,30,חיפה,01/06/2024,איראן,רקטות וטילים,נקבה,-',
+            'מזרחי,דוד,-,50,אשדוד,02/06/2024,עזה,לחימה,זכר,-'
+          )
+      );
+
+      expect(records).toHaveLength(3);
+      expect(rows.map((row) => row.line)).toEqual([2, 4, 6]);
+      expect(rows[1].values).toMatchObject({ 'שם משפחה': 'לוי', 'שם פרטי': 'שרה\nרחל', 'גיל': '30' });
+    });
+
+    it('should return parser problems with the line of their row', () => {
+      const { records, errors } = parseVictimCSVWithDiagnostics(
+        buildCSV('כהן,יוסף,-,44,בארי,7.10.23,עזה,טבח 7 באוקטובר,זכר,-', 'לוי,שרה,-,30')
+      );
+
+      expect(records).toHaveLength(2);
+      expect(errors).toEqual([
+        expect.objectContaining({ type: 'FieldMismatch', code: 'TooFewFields', row: 1, line: 3 }),
+      ]);
+    });
+  });
+});
@@ -12,6 +12,8 @@ import {
   processVictimDataArrayStrict,
   sortVictimsByDate,
   sortVictimsByDateDesc,
+  sortVictims,
+  isVictimSortKey,
   DataProcessingError,
 } from '@/lib/dataProcessing';
 import type { VictimData, ProcessedVictimData } from '@/types/victim';
@@ -147,7 +149,7 @@ describe('dataProcessing', () => {
       source: 'עזה',
       type: 'רקטות וטילים',
       gender: 'זכר',
-      url: 'https://example.com/article',
+      url: 'https://www.ynet.co.il/news/article/abc123',
       latitude: 32.0853,
       longitude: 34.7818,
     };
@@ -172,6 +174,9 @@ describe('dataProcessing', () => {
         fullName: 'יוסף כהן',
         isCivilian: false,
         hasUrl: true,
+        geocodeStatus: 'exact',
+        dateQuality: 'exact',
+        residenceLocation: validVictim.location,
       });
     });
 
@@ -183,6 +188,14 @@ describe('dataProcessing', () => {
       expect(result.data?.isCivilian).toBe(true);
     });
 
+    it('should keep a victim with unknown age and gender', () => {
+      const result = processVictimData({ ...validVictim, age: undefined, gender: null });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ age: null, gender: null });
+      expect(result.validationResult?.warnings.map((warning) => warning.field)).toEqual(['age', 'gender']);
+    });
+
     it('should correctly identify URL availability', () => {
       const noUrl = { ...validVictim, url: '-' };
       const result = processVictimData(noUrl);
@@ -191,6 +204,20 @@ describe('dataProcessing', () => {
       expect(result.data?.hasUrl).toBe(false);
     });
 
+    it('should carry the cause of death through processing', () => {
+      const result = processVictimData({ ...validVictim, causeOfDeath: 'טבח 7 באוקטובר' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.causeOfDeath).toBe('טבח 7 באוקטובר');
+    });
+
+    it('should default a missing cause of death to "-"', () => {
+      const result = processVictimData(validVictim);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.causeOfDeath).toBe('-');
+    });
+
     it('should generate consistent ID for same victim', () => {
       const result1 = processVictimData(validVictim);
       const result2 = processVictimData(validVictim);
@@ -245,7 +272,7 @@ describe('dataProcessing', () => {
         source: 'עזה',
         type: 'רקטות וטילים',
         gender: 'זכר',
-        url: 'https://example.com/article1',
+        url: 'https://www.ynet.co.il/news/article/abc001',
         latitude: 32.0853,
         longitude: 34.7818,
       },
@@ -302,6 +329,53 @@ describe('dataProcessing', () => {
       expect(result.failedRecords[0].recordIndex).toBe(1);
     });
 
+    it('should keep records whose issues the config downgrades to warnings', () => {
+      const abroad = { ...validVictims[1], latitude: 51.5074, longitude: -0.1278 };
+
+      expect(processVictimDataArray([validVictims[0], abroad]).failedRecords).toHaveLength(1);
+
+      const result = processVictimDataArray([validVictims[0], abroad], {
+        rules: { 'coordinates.israel': 'warning' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.processedData).toHaveLength(2);
+      expect(result.validationResult.ruleCounts).toEqual({ 'coordinates.israel': 1 });
+      expect(result.validationResult.warnings[0].recordIndex).toBe(1);
+      expect(result.validationResult.warnings[0].recordId).toBe(result.processedData[1].id);
+    });
+
+    it('should keep records missing a field whose required rule is off', () => {
+      const { rank: _rank, url: _url, date: _date, ...withoutRank } = validVictims[0];
+
+      expect(processVictimDataArray([withoutRank]).failedRecords).toHaveLength(1);
+
+      const result = processVictimDataArray([withoutRank], {
+        rules: { 'rank.required': 'off', 'url.required': 'off', 'date.required': 'off' },
+      });
+
+      expect(result.failedRecords).toHaveLength(0);
+      expect(result.processedData[0]).toMatchObject({
+        rank: '-',
+        isCivilian: true,
+        url: '-',
+        hasUrl: false,
+        date: '2023-10-07',
+        dateQuality: 'missing',
+      });
+    });
+
+    it('should name the missing field of a record without a default', () => {
+      const { latitude: _latitude, ...withoutLatitude } = validVictims[0];
+
+      const [failed] = processVictimDataArray([withoutLatitude], {
+        rules: { 'latitude.required': 'off' },
+      }).failedRecords;
+
+      expect(failed.error).toMatchObject({ field: 'latitude', ruleId: 'latitude.required' });
+      expect(failed.error.message).toContain('latitude');
+    });
+
     it('should include record identifiers in failed records', () => {
       const invalidVictims = [
         { ...validVictims[0], age: -5 },
@@ -343,7 +417,7 @@ describe('dataProcessing', () => {
         source: 'עזה',
         type: 'רקטות וטילים',
         gender: 'זכר',
-        url: 'https://example.com/article',
+        url: 'https://www.ynet.co.il/news/article/abc123',
         latitude: 32.0853,
         longitude: 34.7818,
       },
@@ -386,8 +460,9 @@ describe('dataProcessing', () => {
         date: '2023-10-08',
         source: 'עזה',
         type: 'רקטות וטילים',
+        causeOfDeath: 'רקטות וטילים',
         gender: 'זכר',
-        url: 'https://example.com/article',
+        url: 'https://www.ynet.co.il/news/article/abc123',
         latitude: 32.0853,
         longitude: 34.7818,
         id: '1234567890abcdef',
@@ -396,6 +471,9 @@ describe('dataProcessing', () => {
         fullName: 'יוסף כהן',
         isCivilian: false,
         hasUrl: true,
+        geocodeStatus: 'exact',
+        dateQuality: 'exact',
+        residenceLocation: 'תל אביב',
       },
       {
         firstName: 'שרה',
@@ -406,6 +484,7 @@ describe('dataProcessing', () => {
         date: '2023-10-07',
         source: 'עזה',
         type: 'רקטות וטילים',
+        causeOfDeath: 'רקטות וטילים',
         gender: 'נקבה',
         url: '-',
         latitude: 31.7683,
@@ -416,6 +495,9 @@ describe('dataProcessing', () => {
         fullName: 'שרה לוי',
         isCivilian: true,
         hasUrl: false,
+        geocodeStatus: 'exact',
+        dateQuality: 'exact',
+        residenceLocation: 'ירושלים',
       },
     ];
 
@@ -445,8 +527,9 @@ describe('dataProcessing', () => {
         date: '2023-10-07',
         source: 'עזה',
         type: 'רקטות וטילים',
+        causeOfDeath: 'רקטות וטילים',
         gender: 'זכר',
-        url: 'https://example.com/article',
+        url: 'https://www.ynet.co.il/news/article/abc123',
         latitude: 32.0853,
         longitude: 34.7818,
         id: '1234567890abcdef',
@@ -455,6 +538,9 @@ describe('dataProcessing', () => {
         fullName: 'יוסף כהן',
         isCivilian: false,
         hasUrl: true,
+        geocodeStatus: 'exact',
+        dateQuality: 'exact',
+        residenceLocation: 'תל אביב',
       },
       {
         firstName: 'שרה',
@@ -465,6 +551,7 @@ describe('dataProcessing', () => {
         date: '2023-10-08',
         source: 'עזה',
         type: 'רקטות וטילים',
+        causeOfDeath: 'רקטות וטילים',
         gender: 'נקבה',
         url: '-',
         latitude: 31.7683,
@@ -475,6 +562,9 @@ describe('dataProcessing', () => {
         fullName: 'שרה לוי',
         isCivilian: true,
         hasUrl: false,
+        geocodeStatus: 'exact',
+        dateQuality: 'exact',
+        residenceLocation: 'ירושלים',
       },
     ];
 
@@ -493,6 +583,76 @@ describe('dataProcessing', () => {
     });
   });
 
+  describe('sortVictims', () => {
+    const base = {
+      firstName: 'יוסף',
+      rank: '-',
+      source: 'עזה',
+      type: 'רקטות וטילים',
+      causeOfDeath: 'רקטות וטילים',
+      gender: 'זכר' as const,
+      url: '-',
+      latitude: 32.0853,
+      longitude: 34.7818,
+      fullName: 'יוסף',
+      isCivilian: true,
+      hasUrl: false,
+      geocodeStatus: 'exact' as const,
+      dateQuality: 'exact' as const,
+    };
+    const victim = (id: string, date: string, age: number, lastName: string, location: string) => ({
+      ...base,
+      id,
+      date,
+      age,
+      lastName,
+      location,
+      residenceLocation: location,
+      dateObject: new Date(date),
+      timestamp: new Date(date).getTime(),
+    });
+    const victims: ProcessedVictimData[] = [
+      victim('a', '2023-10-08', 40, 'לוי', 'חיפה'),
+      victim('b', '2023-10-07', 20, 'כהן', 'אשקלון'),
+      victim('c', '2023-10-09', 20, 'אברהם', 'בארי'),
+    ];
+    const ids = (list: ProcessedVictimData[]) => list.map((v) => v.id);
+
+    it('should sort by date in both directions', () => {
+      expect(ids(sortVictims(victims, 'date'))).toEqual(['b', 'a', 'c']);
+      expect(ids(sortVictims(victims, '-date'))).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should sort by age and break ties by date', () => {
+      expect(ids(sortVictims(victims, 'age'))).toEqual(['b', 'c', 'a']);
+      expect(ids(sortVictims(victims, '-age'))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should put unknown ages last in both directions', () => {
+      const withUnknown = [...victims, { ...victims[1], id: 'd', age: null }];
+
+      expect(ids(sortVictims(withUnknown, 'age'))).toEqual(['b', 'c', 'a', 'd']);
+      expect(ids(sortVictims(withUnknown, '-age'))).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should sort by Hebrew last name and location', () => {
+      expect(ids(sortVictims(victims, 'lastName'))).toEqual(['c', 'b', 'a']);
+      expect(ids(sortVictims(victims, 'location'))).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should not mutate original array', () => {
+      const original = [...victims];
+      sortVictims(victims, '-age');
+
+      expect(victims).toEqual(original);
+    });
+
+    it('should recognise supported sort keys', () => {
+      expect(isVictimSortKey('-lastName')).toBe(true);
+      expect(isVictimSortKey('name')).toBe(false);
+    });
+  });
+
   describe('DataProcessingError', () => {
     it('should create error with message', () => {
       const error = new DataProcessingError('Test error');
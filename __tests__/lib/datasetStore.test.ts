@@ -0,0 +1,191 @@
+/**
+ * Tests for the in-memory victim dataset store
+ */
+
+import { promises as fs } from 'fs';
+
+// Mock the fs module
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn(),
+  },
+}));
+
+// Import after mocking
+import {
+  clearVictimDatasetCache,
+  getDatasetCacheHeaders,
+  getRelatedVictims,
+  getVictimDataset,
+  isDatasetNotModified,
+} from '@/lib/datasetStore';
+
+const HEADER =
+  'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר';
+const ROW_A = 'כהן,דוד,סמ"ר,45,תל אביב,15/07/2024,עזה,לחימה,זכר,-';
+const ROW_B = 'לוי,שרה,סגן,28,ירושלים,10/07/2024,לבנון,רקטות וטילים,נקבה,-';
+
+describe('datasetStore', () => {
+  const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
+  const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearVictimDatasetCache();
+    mockStat.mockResolvedValue({ mtimeMs: 1700000000000, size: 100 } as any);
+    mockReadFile.mockResolvedValue([HEADER, ROW_A, ROW_B].join('\n'));
+  });
+
+  describe('getVictimDataset', () => {
+    it('should build processed records, statistics and indexes', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+
+      expect(dataset.rawRecords).toHaveLength(2);
+      expect(dataset.victims.map((victim) => victim.lastName)).toEqual(['לוי', 'כהן']);
+      expect(dataset.statistics.total).toBe(2);
+      expect(dataset.locations).toHaveLength(2);
+      expect(dataset.byId.get(dataset.victims[0].id)).toBe(dataset.victims[0]);
+      expect(dataset.lastModified).toEqual(new Date(1700000000000));
+    });
+
+    it('should return the cached dataset while the file is unchanged', async () => {
+      const first = await getVictimDataset('/data/victims.csv');
+      const second = await getVictimDataset('/data/victims.csv');
+
+      expect(second).toBe(first);
+      expect(mockReadFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one load between concurrent callers', async () => {
+      const [first, second] = await Promise.all([
+        getVictimDataset('/data/victims.csv'),
+        getVictimDataset('/data/victims.csv'),
+      ]);
+
+      expect(second).toBe(first);
+      expect(mockStat).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the cached dataset when a touched file has the same content', async () => {
+      const first = await getVictimDataset('/data/victims.csv');
+      mockStat.mockResolvedValue({ mtimeMs: 1800000000000, size: 100 } as any);
+
+      const second = await getVictimDataset('/data/victims.csv');
+
+      expect(mockReadFile).toHaveBeenCalledTimes(2);
+      expect(second).toBe(first);
+    });
+
+    it('should rebuild the dataset when the content changes', async () => {
+      const first = await getVictimDataset('/data/victims.csv');
+      mockStat.mockResolvedValue({ mtimeMs: 1800000000000, size: 50 } as any);
+      mockReadFile.mockResolvedValue([HEADER, ROW_A].join('\n'));
+
+      const second = await getVictimDataset('/data/victims.csv');
+
+      expect(second).not.toBe(first);
+      expect(second.victims).toHaveLength(1);
+      expect(second.etag).not.toBe(first.etag);
+    });
+
+    it('should propagate file system errors', async () => {
+      const error: any = new Error('File not found');
+      error.code = 'ENOENT';
+      mockStat.mockRejectedValueOnce(error);
+
+      await expect(getVictimDataset('/missing.csv')).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+
+  describe('getRelatedVictims', () => {
+    it('should return others from the same location and date', async () => {
+      mockReadFile.mockResolvedValue(
+        [
+          HEADER,
+          ROW_A,
+          ROW_B,
+          'מזרחי,יוסף,סמל,62,תל אביב,01/08/2024,עזה,לחימה,זכר,-',
+          'פרץ,אבי,סרן,30,חיפה,15/07/2024,עזה,לחימה,זכר,-',
+        ].join('\n')
+      );
+      const dataset = await getVictimDataset('/data/victims.csv');
+      const victim = dataset.victims.find((v) => v.lastName === 'כהן')!;
+
+      const related = getRelatedVictims(dataset, victim);
+
+      expect(related.sameLocation.map((v) => v.lastName)).toEqual(['מזרחי']);
+      expect(related.sameDate.map((v) => v.lastName)).toEqual(['פרץ']);
+    });
+
+    it('should not relate victims by a missing or defaulted date', async () => {
+      mockReadFile.mockResolvedValue(
+        [
+          HEADER,
+          'כהן,דוד,סמ"ר,45,תל אביב,07/10/2023,עזה,לחימה,זכר,-',
+          'לוי,שרה,סגן,28,ירושלים,-,לבנון,רקטות וטילים,נקבה,-',
+          'פרץ,אבי,סרן,30,חיפה,לא ידוע,עזה,לחימה,זכר,-',
+        ].join('\n')
+      );
+      const dataset = await getVictimDataset('/data/victims.csv');
+      const exact = dataset.victims.find((v) => v.lastName === 'כהן')!;
+      const missing = dataset.victims.find((v) => v.lastName === 'לוי')!;
+
+      expect(getRelatedVictims(dataset, exact).sameDate).toEqual([]);
+      expect(getRelatedVictims(dataset, missing).sameDate).toEqual([]);
+    });
+
+    it('should return empty lists when nothing is related', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+
+      expect(getRelatedVictims(dataset, dataset.victims[0])).toEqual({
+        sameLocation: [],
+        sameDate: [],
+      });
+    });
+  });
+
+  describe('conditional requests', () => {
+    it('should expose ETag and Last-Modified headers', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+
+      expect(getDatasetCacheHeaders(dataset)).toEqual({
+        ETag: dataset.etag,
+        'Last-Modified': 'Tue, 14 Nov 2023 22:13:20 GMT',
+        'Cache-Control': 'no-cache',
+      });
+    });
+
+    it('should match If-None-Match with weak or strong tags', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+      const strong = dataset.etag.replace(/^W\//, '');
+
+      expect(isDatasetNotModified(new Headers({ 'If-None-Match': dataset.etag }), dataset)).toBe(true);
+      expect(isDatasetNotModified(new Headers({ 'If-None-Match': `"x", ${strong}` }), dataset)).toBe(
+        true
+      );
+      expect(isDatasetNotModified(new Headers({ 'If-None-Match': '"x"' }), dataset)).toBe(false);
+    });
+
+    it('should compare If-Modified-Since at second precision', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+
+      expect(
+        isDatasetNotModified(new Headers({ 'If-Modified-Since': 'Tue, 14 Nov 2023 22:13:20 GMT' }), dataset)
+      ).toBe(true);
+      expect(
+        isDatasetNotModified(new Headers({ 'If-Modified-Since': 'Tue, 14 Nov 2023 22:13:19 GMT' }), dataset)
+      ).toBe(false);
+    });
+
+    it('should prefer If-None-Match over If-Modified-Since', async () => {
+      const dataset = await getVictimDataset('/data/victims.csv');
+      const headers = new Headers({
+        'If-None-Match': '"x"',
+        'If-Modified-Since': 'Tue, 14 Nov 2023 22:13:20 GMT',
+      });
+
+      expect(isDatasetNotModified(headers, dataset)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for parsing the date column of the source sheet
+ */
+
+import { DEFAULT_DATE, hasSheetDate, isPreciseDate, parseSheetDate } from '@/lib/dateParser';
+
+describe('parseSheetDate', () => {
+  it.each([
+    ['07/10/2023', '2023-10-07'],
+    ['7/10/2023', '2023-10-07'],
+    ['7.10.23', '2023-10-07'],
+    ['25.09.2025', '2025-09-25'],
+    ['2024-07-20', '2024-07-20'],
+    [' 20/07/2024 ', '2024-07-20'],
+  ])('should read %s as an exact date', (value, date) => {
+    expect(parseSheetDate(value)).toEqual({ date, quality: 'exact' });
+  });
+
+  it.each([
+    ['10/2023', '2023-10-01'],
+    ['3.24', '2024-03-01'],
+    ['2024-07', '2024-07-01'],
+  ])('should place the month and year %s on the 1st', (value, date) => {
+    expect(parseSheetDate(value)).toEqual({ date, quality: 'partial' });
+  });
+
+  it.each(['', '-', undefined])('should mark %p as missing', (value) => {
+    expect(parseSheetDate(value)).toEqual({ date: DEFAULT_DATE, quality: 'missing' });
+  });
+
+  it.each(['31/02/2024', '13/2024', 'אוקטובר', '2023'])('should mark %s as defaulted', (value) => {
+    expect(parseSheetDate(value)).toEqual({ date: DEFAULT_DATE, quality: 'defaulted' });
+  });
+});
+
+describe('isPreciseDate', () => {
+  it('should only treat exact dates as precise', () => {
+    expect(isPreciseDate('exact')).toBe(true);
+    expect(isPreciseDate('partial')).toBe(false);
+    expect(isPreciseDate('defaulted')).toBe(false);
+  });
+});
+
+describe('hasSheetDate', () => {
+  it('should leave out missing and defaulted dates', () => {
+    expect(hasSheetDate('exact')).toBe(true);
+    expect(hasSheetDate('partial')).toBe(true);
+    expect(hasSheetDate('missing')).toBe(false);
+    expect(hasSheetDate('defaulted')).toBe(false);
+  });
+});
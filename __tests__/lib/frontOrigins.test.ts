@@ -0,0 +1,47 @@
+/**
+ * Tests for the attack origins per front
+ */
+
+import { getFrontOrigin, getFrontOrigins, getTrajectoryOrigin } from '@/lib/frontOrigins';
+
+describe('getFrontOrigins', () => {
+  it('should have one origin with valid coordinates per front', () => {
+    const origins = getFrontOrigins();
+    const fronts = origins.map((origin) => origin.front);
+
+    expect(new Set(fronts).size).toBe(fronts.length);
+    expect(fronts).toEqual(expect.arrayContaining(['עזה', 'לבנון', 'איראן', 'תימן']));
+    origins.forEach((origin) => {
+      expect(Math.abs(origin.latitude)).toBeLessThanOrEqual(90);
+      expect(Math.abs(origin.longitude)).toBeLessThanOrEqual(180);
+    });
+  });
+});
+
+describe('getFrontOrigin', () => {
+  it('should return undefined for fronts without a launch area', () => {
+    expect(getFrontOrigin('פיגועים בארץ')).toBeUndefined();
+  });
+});
+
+describe('getTrajectoryOrigin', () => {
+  it('should return the front origin for rocket, missile and drone deaths', () => {
+    const lebanon = getFrontOrigin('לבנון')!;
+
+    expect(getTrajectoryOrigin({ source: 'לבנון', causeOfDeath: 'כטב"מים' })).toEqual({
+      latitude: lebanon.latitude,
+      longitude: lebanon.longitude,
+    });
+    expect(getTrajectoryOrigin({ source: 'איראן', causeOfDeath: 'רקטות וטילים' })).toBeDefined();
+  });
+
+  it('should return undefined for other causes of death', () => {
+    expect(getTrajectoryOrigin({ source: 'עזה', causeOfDeath: 'לחימה' })).toBeUndefined();
+    expect(getTrajectoryOrigin({ source: 'עזה', causeOfDeath: undefined })).toBeUndefined();
+    expect(getTrajectoryOrigin({ source: 'עזה', causeOfDeath: '-' })).toBeUndefined();
+  });
+
+  it('should return undefined for fronts without an origin', () => {
+    expect(getTrajectoryOrigin({ source: 'פיגועים בארץ', causeOfDeath: 'רקטות וטילים' })).toBeUndefined();
+  });
+});
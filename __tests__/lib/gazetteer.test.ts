@@ -0,0 +1,158 @@
+/**
+ * Tests for the gazetteer and location geocoding
+ */
+
+import { Gazetteer, getDefaultGazetteer, normalizePlaceName } from '@/lib/gazetteer';
+import type { GazetteerEntry } from '@/lib/gazetteer';
+import {
+  FALLBACK_COORDINATES,
+  geocodeLocation,
+  getLocationCoordinates,
+} from '@/lib/locationCoordinates';
+import { readVictimCSV } from '@/lib/csvParser';
+import { processVictimDataArray } from '@/lib/dataProcessing';
+import { isValidIsraelCoordinates } from '@/lib/validation';
+
+/**
+ * Victims kept from data/victims.csv before the gazetteer replaced the fixed location table
+ */
+const BASELINE_PROCESSED_VICTIMS = 983;
+
+const entries: GazetteerEntry[] = [
+  {
+    name: 'תל אביב-יפו',
+    nameEn: 'Tel Aviv-Yafo',
+    type: 'city',
+    country: 'IL',
+    latitude: 32.0853,
+    longitude: 34.7818,
+    aliases: ['תל אביב', 'ת"א'],
+  },
+  {
+    name: 'כפר עזה',
+    nameEn: 'Kfar Aza',
+    type: 'kibbutz',
+    country: 'IL',
+    latitude: 31.4833,
+    longitude: 34.5333,
+    aliases: [],
+  },
+];
+
+describe('normalizePlaceName', () => {
+  it('should turn hyphens into spaces and collapse whitespace', () => {
+    expect(normalizePlaceName('  תל אביב - יפו ')).toBe('תל אביב יפו');
+  });
+
+  it('should unify gershayim with ASCII quotes', () => {
+    expect(normalizePlaceName('ת״א')).toBe('ת"א');
+  });
+
+  it('should strip niqqud', () => {
+    expect(normalizePlaceName('כְּפַר עַזָּה')).toBe('כפר עזה');
+  });
+});
+
+describe('Gazetteer', () => {
+  const gazetteer = new Gazetteer(entries);
+
+  it('should report the number of localities', () => {
+    expect(gazetteer.size).toBe(2);
+  });
+
+  it('should match the official name exactly with full confidence', () => {
+    expect(gazetteer.lookup('כפר עזה')).toEqual({
+      entry: entries[1],
+      matchType: 'exact',
+      confidence: 1,
+      query: 'כפר עזה',
+      alternatives: [],
+    });
+  });
+
+  it('should match alternate spellings as aliases', () => {
+    const match = gazetteer.lookup('תל אביב');
+
+    expect(match?.entry.nameEn).toBe('Tel Aviv-Yafo');
+    expect(match?.matchType).toBe('alias');
+    expect(match?.confidence).toBe(0.9);
+  });
+
+  it('should fall back to normalized spellings', () => {
+    const match = gazetteer.lookup('תל אביב - יפו');
+
+    expect(match?.entry.name).toBe('תל אביב-יפו');
+    expect(match?.matchType).toBe('normalized');
+    expect(match?.confidence).toBe(0.8);
+    expect(gazetteer.lookup('ת״א')?.matchType).toBe('normalized');
+  });
+
+  it('should return null for unknown or empty names', () => {
+    expect(gazetteer.lookup('אטלנטיס')).toBeNull();
+    expect(gazetteer.lookup('   ')).toBeNull();
+  });
+});
+
+describe('getDefaultGazetteer', () => {
+  it('should load the bundled localities with valid coordinates', () => {
+    const gazetteer = getDefaultGazetteer();
+
+    expect(gazetteer.size).toBeGreaterThan(400);
+    gazetteer.entries().forEach((entry) => {
+      expect(entry.latitude).toBeGreaterThanOrEqual(-90);
+      expect(entry.latitude).toBeLessThanOrEqual(90);
+      expect(entry.longitude).toBeGreaterThanOrEqual(-180);
+      expect(entry.longitude).toBeLessThanOrEqual(180);
+    });
+  });
+
+  it('should not reuse a name or alias across localities', () => {
+    const names = getDefaultGazetteer()
+      .entries()
+      .flatMap((entry) => [entry.name, ...entry.aliases]);
+
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should place every Israeli locality inside the coordinates.israel bounds', () => {
+    const outside = getDefaultGazetteer()
+      .entries()
+      .filter((entry) => entry.country === 'IL' && !isValidIsraelCoordinates(entry.latitude, entry.longitude))
+      .map((entry) => entry.name);
+
+    expect(outside).toEqual([]);
+  });
+
+  it('should not drop more victims of the real data than the fixed location table did', async () => {
+    const result = processVictimDataArray(await readVictimCSV('data/victims.csv'));
+
+    expect(result.processedData.length).toBeGreaterThanOrEqual(BASELINE_PROCESSED_VICTIMS);
+    expect(result.validationResult.ruleCounts['coordinates.israel'] ?? 0).toBe(0);
+  });
+});
+
+describe('getLocationCoordinates', () => {
+  it('should geocode localities from the gazetteer', () => {
+    expect(getLocationCoordinates('בארי')).toEqual({ latitude: 31.4239, longitude: 34.4931 });
+    expect(getLocationCoordinates('ארה"ב')).toEqual(getLocationCoordinates('ארצות הברית'));
+  });
+
+  it('should fall back to a partial match', () => {
+    expect(getLocationCoordinates('כפר עזה, עוטף עזה')).toEqual(getLocationCoordinates('כפר עזה'));
+  });
+
+  it('should return the fallback for unknown locations', () => {
+    expect(getLocationCoordinates('כוחלה')).toEqual(FALLBACK_COORDINATES);
+    expect(getLocationCoordinates('')).toEqual(FALLBACK_COORDINATES);
+  });
+});
+
+describe('geocodeLocation', () => {
+  it('should report how the location was resolved', () => {
+    expect(geocodeLocation('בארי').status).toBe('exact');
+    expect(geocodeLocation('ת"א').status).toBe('alias');
+    expect(geocodeLocation('ת״א').status).toBe('alias');
+    expect(geocodeLocation('כפר עזה, עוטף עזה').status).toBe('partial');
+    expect(geocodeLocation('כוחלה')).toEqual({ ...FALLBACK_COORDINATES, status: 'fallback', match: null });
+  });
+});
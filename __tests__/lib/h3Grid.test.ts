@@ -0,0 +1,30 @@
+/**
+ * Tests for the H3 grid aggregation
+ */
+
+import { geoToH3 } from 'h3-js';
+import { H3_RESOLUTION, groupByH3Cell } from '@/lib/h3Grid';
+
+const BEERI = { latitude: 31.4239, longitude: 34.4931 };
+const SDEROT = { latitude: 31.525, longitude: 34.5961 };
+
+describe('groupByH3Cell', () => {
+  it('should count positions per cell, largest first', () => {
+    const cells = groupByH3Cell([SDEROT, BEERI, BEERI, { latitude: 31.4241, longitude: 34.4933 }]);
+
+    expect(cells).toEqual([
+      { hexId: geoToH3(BEERI.latitude, BEERI.longitude, H3_RESOLUTION), count: 3 },
+      { hexId: geoToH3(SDEROT.latitude, SDEROT.longitude, H3_RESOLUTION), count: 1 },
+    ]);
+  });
+
+  it('should use the given resolution', () => {
+    const [cell] = groupByH3Cell([BEERI], 5);
+
+    expect(cell.hexId).toBe(geoToH3(BEERI.latitude, BEERI.longitude, 5));
+  });
+
+  it('should return no cells for no positions', () => {
+    expect(groupByH3Cell([])).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for the typed Kepler.gl config builders
+ */
+
+import {
+  DATE_QUALITY_FILTER_ID,
+  GEOCODE_FILTER_ID,
+  KeplerConfigError,
+  TIMELINE_FILTER_ID,
+  VICTIM_FIELD_TYPES,
+  buildDateQualityFilter,
+  buildGeocodeFilter,
+  buildH3Dataset,
+  buildKeplerConfig,
+  buildLocationDataset,
+  buildMapState,
+  buildPointLayer,
+  buildTimelineFilter,
+  buildVictimDataset,
+  validateKeplerConfig,
+} from '@/lib/keplerConfig';
+import { createVictimLayers } from '@/lib/layerPresets';
+import { LOCATION_DATASET_ID, VICTIM_DATASET_ID } from '@/lib/mapSelection';
+import { createVictim } from '@/__tests__/helpers/victims';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+
+const victims = [
+  createVictim(),
+  createVictim({
+    id: 'victim-2',
+    causeOfDeath: 'לחימה',
+    incidentLocation: { name: 'בארי', latitude: 31.4239, longitude: 34.4931, geocodeStatus: 'exact' },
+  }),
+];
+
+const positions = {
+  residence: new Map([['victim-1', { latitude: 31.5251, longitude: 34.5962 }]]),
+  incident: new Map([['victim-2', { latitude: 31.4239, longitude: 34.4931 }]]),
+};
+
+describe('buildVictimDataset', () => {
+  const dataset = buildVictimDataset(victims, positions);
+  const fieldNames = dataset.data.fields.map((field) => field.name);
+  const valueOf = (row: number, name: string) => dataset.data.rows[row][fieldNames.indexOf(name)];
+
+  it('should have one value per field in every row', () => {
+    expect(dataset.info.id).toBe(VICTIM_DATASET_ID);
+    dataset.data.rows.forEach((row) => expect(row).toHaveLength(fieldNames.length));
+  });
+
+  it('should copy the schema fields with their types', () => {
+    Object.entries(VICTIM_FIELD_TYPES).forEach(([name, type]) => {
+      expect(dataset.data.fields).toContainEqual({ name, type });
+    });
+    expect(valueOf(0, 'fullName')).toBe('דוד כהן');
+    expect(valueOf(0, 'timestamp')).toBe(victims[0].timestamp);
+  });
+
+  it('should add the incident location, drawn positions and attack origin', () => {
+    expect(valueOf(0, 'pointLatitude')).toBe(31.5251);
+    expect(valueOf(1, 'pointLatitude')).toBeNull();
+    expect(valueOf(1, 'incidentLocation')).toBe('בארי');
+    expect(valueOf(0, 'incidentLocation')).toBeNull();
+    expect(valueOf(0, 'originLatitude')).toEqual(expect.any(Number));
+    expect(valueOf(1, 'originLatitude')).toBeNull();
+  });
+
+  it('should write unknown age and gender as null', () => {
+    const unknown = buildVictimDataset([createVictim({ age: null, gender: null })], positions);
+    const row = unknown.data.rows[0];
+
+    expect(row[fieldNames.indexOf('age')]).toBeNull();
+    expect(row[fieldNames.indexOf('gender')]).toBeNull();
+  });
+});
+
+describe('aggregate datasets', () => {
+  it('should build the location counts', () => {
+    const dataset = buildLocationDataset([
+      { location: 'שדרות', latitude: 31.525, longitude: 34.5961, count: 2, victimIds: ['1', '2'] },
+    ]);
+
+    expect(dataset.info.id).toBe(LOCATION_DATASET_ID);
+    expect(dataset.data.rows).toEqual([['שדרות', 31.525, 34.5961, 2, 'שדרות (2)']]);
+  });
+
+  it('should build the H3 cell counts', () => {
+    expect(buildH3Dataset([{ hexId: '873f5d6b1ffffff', count: 3 }]).data.rows).toEqual([['873f5d6b1ffffff', 3]]);
+  });
+});
+
+describe('filters', () => {
+  it('should build the timeline filter with an interval for the data span', () => {
+    const filter = buildTimelineFilter({ min: 0, max: 2 * DAY }, [0, DAY]);
+
+    expect(filter).toMatchObject({
+      id: TIMELINE_FILTER_ID,
+      dataId: [VICTIM_DATASET_ID],
+      name: ['timestamp'],
+      type: 'timeRange',
+      value: [0, DAY],
+      plotType: { interval: '1-hour' },
+    });
+  });
+
+  it('should build the geocode filter on the given field', () => {
+    expect(buildGeocodeFilter('incidentGeocodeStatus', ['exact', 'alias'])).toMatchObject({
+      id: GEOCODE_FILTER_ID,
+      name: ['incidentGeocodeStatus'],
+      type: 'multiSelect',
+      value: ['exact', 'alias'],
+    });
+  });
+
+  it('should build the date quality filter', () => {
+    expect(buildDateQualityFilter(['exact'])).toMatchObject({
+      id: DATE_QUALITY_FILTER_ID,
+      name: ['dateQuality'],
+      type: 'multiSelect',
+      value: ['exact'],
+    });
+  });
+});
+
+describe('buildMapState', () => {
+  it('should put the view over the base map state', () => {
+    const mapState = buildMapState({ latitude: 31.4, longitude: 34.4, zoom: 11 });
+
+    expect(mapState).toMatchObject({ latitude: 31.4, longitude: 34.4, zoom: 11 });
+    expect(mapState).toHaveProperty('bearing');
+  });
+});
+
+describe('buildPointLayer', () => {
+  it('should leave unset visual channels unbound', () => {
+    const layer = buildPointLayer({
+      id: 'layer',
+      dataId: VICTIM_DATASET_ID,
+      label: 'Layer',
+      color: [230, 0, 0],
+      columns: { lat: 'latitude', lng: 'longitude' },
+      isVisible: true,
+      visConfig: { radius: 10 },
+      visualChannels: { sizeField: { name: 'age', type: 'integer' } },
+    });
+
+    expect(layer.type).toBe('point');
+    expect(layer.visualChannels).toMatchObject({ colorField: null, sizeField: { name: 'age', type: 'integer' } });
+    expect(layer.config).not.toHaveProperty('textLabel');
+  });
+
+  it('should fill the text label settings it is not given', () => {
+    const layer = buildPointLayer({
+      id: 'layer',
+      dataId: LOCATION_DATASET_ID,
+      label: 'Layer',
+      color: [230, 0, 0],
+      columns: { lat: 'latitude', lng: 'longitude' },
+      isVisible: true,
+      visConfig: {},
+      textLabel: { field: { name: 'label', type: 'string' }, size: 12 },
+    });
+
+    expect(layer.config.textLabel).toMatchObject({
+      field: { name: 'label', type: 'string' },
+      size: 12,
+      anchor: 'start',
+      outlineWidth: 0,
+    });
+  });
+});
+
+describe('buildKeplerConfig', () => {
+  const datasets = [
+    buildVictimDataset(victims, positions),
+    buildLocationDataset([]),
+    buildH3Dataset([]),
+  ];
+
+  it('should merge layers and filters into the base config', () => {
+    const layers = createVictimLayers('points', 'residence', true);
+    const config = buildKeplerConfig({
+      datasets,
+      layers,
+      filters: [buildTimelineFilter({ min: 0, max: DAY }, [0, DAY])],
+    });
+
+    expect(config.visState?.layers).toHaveLength(layers.length);
+    expect(config.visState?.filters?.map((filter) => filter.id)).toEqual([TIMELINE_FILTER_ID]);
+    expect(config.visState?.interactionConfig).toBeDefined();
+    expect(config.mapStyle).toBeDefined();
+  });
+
+  it('should return the base config without options', () => {
+    expect(buildKeplerConfig().visState?.layers).toEqual([]);
+  });
+
+  it('should reject layers and filters that refer to missing fields', () => {
+    const layer = buildPointLayer({
+      id: 'broken',
+      dataId: VICTIM_DATASET_ID,
+      label: 'Broken',
+      color: [230, 0, 0],
+      columns: { lat: 'lat', lng: 'longitude' },
+      isVisible: true,
+      visConfig: {},
+    });
+
+    expect(() => buildKeplerConfig({ datasets, layers: [layer] })).toThrow(KeplerConfigError);
+    expect(
+      validateKeplerConfig({ visState: { filters: [buildGeocodeFilter('missingStatus', ['exact'])] } }, datasets)
+    ).toEqual(['Filter "geocoding" refers to unknown field "missingStatus"']);
+  });
+
+  it('should report layers on unknown datasets', () => {
+    expect(() => buildKeplerConfig({ layers: createVictimLayers('points', 'residence') })).toThrow(
+      /unknown dataset "victims"/
+    );
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the Kepler.gl layer presets
+ */
+
+import {
+  ARC_LAYER_IDS,
+  H3_LAYER_ID,
+  HEATMAP_LAYER_IDS,
+  LAYER_PRESETS,
+  MEMORIAL_HEAT_COLOR_RANGE,
+  createHeatmapLayer,
+  createHexbinLayer,
+  createVictimLayers,
+  getLayerVisibility,
+} from '@/lib/layerPresets';
+import { GEOGRAPHY_LAYER_IDS, H3_DATASET_ID, LOCATION_LAYER_ID, VICTIM_DATASET_ID } from '@/lib/mapSelection';
+import type { MapGeography } from '@/lib/mapSelection';
+
+const geographies: MapGeography[] = ['residence', 'incident'];
+
+describe('createVictimLayers', () => {
+  it('should build every layer once with a unique id', () => {
+    const ids = createVictimLayers('points', 'residence').map((layer) => layer.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(expect.arrayContaining([...Object.values(GEOGRAPHY_LAYER_IDS), LOCATION_LAYER_ID, H3_LAYER_ID]));
+  });
+
+  it.each(LAYER_PRESETS.flatMap((preset) => geographies.map((geography) => [preset, geography] as const)))(
+    'should show exactly one layer for %s at %s',
+    (preset, geography) => {
+      const visible = createVictimLayers(preset, geography).filter((layer) => layer.config.isVisible);
+
+      expect(visible).toHaveLength(1);
+    }
+  );
+
+  it('should show the layer of the preset and geography', () => {
+    const [visible] = createVictimLayers('heatmap', 'incident').filter((layer) => layer.config.isVisible);
+
+    expect(visible.id).toBe(HEATMAP_LAYER_IDS.incident);
+  });
+});
+
+describe('getLayerVisibility', () => {
+  it('should show the individual points of the current geography by default', () => {
+    expect(getLayerVisibility('points', 'residence')).toMatchObject({
+      [GEOGRAPHY_LAYER_IDS.residence]: true,
+      [GEOGRAPHY_LAYER_IDS.incident]: false,
+      [LOCATION_LAYER_ID]: false,
+    });
+  });
+});
+
+describe('trajectory arcs', () => {
+  it('should be drawn over the preset for the current geography only', () => {
+    const visible = createVictimLayers('heatmap', 'residence', true)
+      .filter((layer) => layer.config.isVisible)
+      .map((layer) => layer.id);
+
+    expect(visible).toEqual([HEATMAP_LAYER_IDS.residence, ARC_LAYER_IDS.residence]);
+  });
+
+  it('should run from the front origin to the victim', () => {
+    const [arc] = createVictimLayers('points', 'incident', true).filter((layer) => layer.id === ARC_LAYER_IDS.incident);
+
+    expect(arc.type).toBe('arc');
+    expect(arc.config.columns).toEqual({
+      lat0: 'originLatitude',
+      lng0: 'originLongitude',
+      lat1: 'incidentLatitude',
+      lng1: 'incidentLongitude',
+    });
+  });
+});
+
+describe('aggregate presets', () => {
+  it('should aggregate the exact coordinates rather than the spread positions', () => {
+    expect(createHeatmapLayer('residence', true).config.columns).toEqual({ lat: 'latitude', lng: 'longitude' });
+    expect(createHexbinLayer('incident', true).config.columns).toEqual({
+      lat: 'incidentLatitude',
+      lng: 'incidentLongitude',
+    });
+  });
+
+  it('should use the memorial color ranges', () => {
+    const heatmap = createHeatmapLayer('residence', true);
+
+    expect(heatmap.config.dataId).toBe(VICTIM_DATASET_ID);
+    expect(heatmap.config.visConfig.colorRange).toBe(MEMORIAL_HEAT_COLOR_RANGE);
+  });
+
+  it('should draw the H3 grid from its own dataset', () => {
+    const [h3] = createVictimLayers('h3', 'residence').filter((layer) => layer.id === H3_LAYER_ID);
+
+    expect(h3.config.dataId).toBe(H3_DATASET_ID);
+    expect(h3.visualChannels.colorField).toEqual({ name: 'count', type: 'integer' });
+  });
+});
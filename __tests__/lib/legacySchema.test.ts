@@ -0,0 +1,96 @@
+/**
+ * Tests for the victims API response schema migration layer
+ */
+
+import {
+  toLegacyVictim,
+  migrateVictimsToSchema,
+  getSchemaDeprecation,
+  isResponseSchema,
+} from '@/lib/legacySchema';
+import type { ProcessedVictimData } from '@/types/victim';
+
+const victim: ProcessedVictimData = {
+  firstName: 'יוסף',
+  lastName: 'כהן',
+  rank: 'סרן',
+  age: 35,
+  location: 'בארי',
+  date: '2023-10-07',
+  source: 'עזה',
+  category: 'עזה',
+  type: 'טבח 7 באוקטובר',
+  causeOfDeath: 'טבח 7 באוקטובר',
+  gender: 'זכר',
+  url: 'https://example.com/article',
+  latitude: 31.3319,
+  longitude: 34.4558,
+  id: '1234567890abcdef',
+  dateObject: new Date('2023-10-07'),
+  timestamp: new Date('2023-10-07').getTime(),
+  fullName: 'יוסף כהן',
+  isCivilian: false,
+  hasUrl: true,
+  geocodeStatus: 'exact',
+  dateQuality: 'exact',
+  residenceLocation: 'בארי',
+};
+
+describe('legacySchema', () => {
+  describe('toLegacyVictim', () => {
+    it('should use the article URL as source', () => {
+      expect(toLegacyVictim(victim).source).toBe('https://example.com/article');
+    });
+
+    it('should map the category to the legacy English type code', () => {
+      expect(toLegacyVictim(victim).type).toBe('gaza');
+      expect(toLegacyVictim({ ...victim, category: 'יהודה ושומרון' }).type).toBe('west_bank');
+    });
+
+    it('should fall back to the raw category for unmapped values', () => {
+      expect(toLegacyVictim({ ...victim, category: 'איראן' }).type).toBe('איראן');
+      expect(toLegacyVictim({ ...victim, category: undefined }).type).toBe('unknown');
+    });
+
+    it('should leave other fields untouched', () => {
+      const legacy = toLegacyVictim(victim);
+
+      expect(legacy.id).toBe(victim.id);
+      expect(legacy.causeOfDeath).toBe(victim.causeOfDeath);
+      expect(legacy.category).toBe(victim.category);
+    });
+  });
+
+  describe('migrateVictimsToSchema', () => {
+    it('should return records unchanged for v2', () => {
+      const victims = [victim];
+      expect(migrateVictimsToSchema(victims, 'v2')).toBe(victims);
+    });
+
+    it('should convert records for v1', () => {
+      const [legacy] = migrateVictimsToSchema([victim], 'v1');
+      expect(legacy.source).toBe(victim.url);
+    });
+  });
+
+  describe('getSchemaDeprecation', () => {
+    it('should flag v1 as deprecated', () => {
+      expect(getSchemaDeprecation('v1')).toMatchObject({
+        deprecated: true,
+        replacement: 'v2',
+      });
+    });
+
+    it('should not flag v2', () => {
+      expect(getSchemaDeprecation('v2')).toBeUndefined();
+    });
+  });
+
+  describe('isResponseSchema', () => {
+    it('should accept supported versions only', () => {
+      expect(isResponseSchema('v1')).toBe(true);
+      expect(isResponseSchema('v2')).toBe(true);
+      expect(isResponseSchema('v3')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Table-driven tests for location matching
+ * Inputs are location strings as they appear in data/victims.csv, plus
+ * variants of them (gershayim, niqqud, spacing) and partial-match cases
+ */
+
+import { getDefaultGazetteer, normalizePlaceName } from '@/lib/gazetteer';
+import { FALLBACK_COORDINATES, geocodeLocation } from '@/lib/locationCoordinates';
+import type { GeocodeStatus } from '@/types/victim';
+
+// [location string, expected gazetteer name (null for the fallback), expected status]
+const corpus: Array<[string, string | null, GeocodeStatus]> = [
+  // Official names
+  ['ירושלים', 'ירושלים', 'exact'],
+  ['מודיעין-מכבים-רעות', 'מודיעין-מכבים-רעות', 'exact'],
+  ["מג'דל שמס", "מג'דל שמס", 'exact'],
+  ['עין הנצי"ב', 'עין הנצי"ב', 'exact'],
+  ['גבעת חיים (מאוחד)', 'גבעת חיים (מאוחד)', 'exact'],
+  ['תל אביב-יפו', 'תל אביב-יפו', 'exact'],
+  ['פרדס חנה-כרכור', 'פרדס חנה-כרכור', 'exact'],
+  ['כפר חב"ד', 'כפר חב"ד', 'exact'],
+
+  // Alternate names and spellings
+  ['ראשל"צ', 'ראשון לציון', 'alias'],
+  ['תל אביב', 'תל אביב-יפו', 'alias'],
+  ['עפרה', 'עופרה', 'alias'],
+  ['אזרח תאילנד', 'תאילנד', 'alias'],
+  ["מנצ'סטר- בריטניה", "מנצ'סטר", 'alias'],
+  ["לוס אנג'לס- קליפורניה", "לוס אנג'לס", 'alias'],
+
+  // Normalized: gershayim, geresh, niqqud, hyphens, parentheses
+  ['ראשל״צ', 'ראשון לציון', 'alias'],
+  ["מג׳דל שמס", "מג'דל שמס", 'alias'],
+  ['בְּאֵרִי', 'בארי', 'alias'],
+  ['מודיעין מכבים רעות', 'מודיעין-מכבים-רעות', 'alias'],
+  ['תל אביב - יפו', 'תל אביב-יפו', 'alias'],
+  ['גבעת חיים מאוחד', 'גבעת חיים (מאוחד)', 'alias'],
+  ['כפר   עזה', 'כפר עזה', 'alias'],
+
+  // Locality kind prefixes
+  ['קיבוץ הזורע', 'הזורע', 'alias'],
+  ['קיבוץ סמר', 'סמר', 'alias'],
+  ['מושב בטחה', 'בטחה', 'alias'],
+  ['מושב גבעתי', 'מושב גבעתי', 'exact'],
+
+  // Partial matches on whole words, most specific first
+  ['כפר עזה, עוטף עזה', 'כפר עזה', 'partial'],
+  ["לוס אנג'לס, ארצות הברית", "לוס אנג'לס", 'partial'],
+  ['רחובות/שעריים', 'רחובות', 'partial'],
+
+  // Unresolved
+  ['כוחלה', null, 'fallback'],
+  ['עולה חדשה מברזיל', null, 'fallback'],
+  ['חוות יאיר', null, 'fallback'],
+  ['מגן דוד', null, 'fallback'],
+  ['עזה', null, 'fallback'],
+  ['', null, 'fallback'],
+];
+
+describe('geocodeLocation corpus', () => {
+  it.each(corpus)('%p resolves to %p (%s)', (location, expectedName, expectedStatus) => {
+    const result = geocodeLocation(location);
+
+    expect(result.status).toBe(expectedStatus);
+    expect(result.match?.entry.name ?? null).toBe(expectedName);
+    if (expectedName === null) {
+      expect(result).toMatchObject(FALLBACK_COORDINATES);
+    }
+  });
+});
+
+describe('partial match ambiguity', () => {
+  it('should report localities that match equally well', () => {
+    const { match } = geocodeLocation('גבעת חיים');
+
+    expect(match?.matchType).toBe('partial');
+    expect(match?.entry.name).toBe('גבעת חיים (איחוד)');
+    expect(match?.alternatives.map((entry) => entry.name)).toEqual(['גבעת חיים (מאוחד)']);
+    expect(match?.confidence).toBeCloseTo(0.3);
+  });
+
+  it('should prefer a locality over the country around it', () => {
+    const { match } = geocodeLocation("לוס אנג'לס, ארצות הברית");
+
+    expect(match?.alternatives).toEqual([]);
+    expect(match?.confidence).toBe(0.6);
+  });
+});
+
+describe('gazetteer names', () => {
+  it('should not collide after normalization', () => {
+    const owners = new Map<string, string>();
+    getDefaultGazetteer()
+      .entries()
+      .forEach((entry) => {
+        [entry.name, ...entry.aliases].forEach((name) => {
+          const normalized = normalizePlaceName(name);
+          expect([undefined, entry.name]).toContain(owners.get(normalized));
+          owners.set(normalized, entry.name);
+        });
+      });
+  });
+});
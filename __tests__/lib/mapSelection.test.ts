@@ -0,0 +1,75 @@
+/**
+ * Tests for Kepler.gl click-to-victim resolution
+ */
+
+import {
+  VICTIM_INCIDENT_LAYER_ID,
+  VICTIM_LAYER_ID,
+  getClickedVictimId,
+  getFilteredVictimIds,
+  type KeplerDatasetLike,
+} from '@/lib/mapSelection';
+
+const rows = [
+  ['a1b2c3d4e5f60718', 'דוד כהן'],
+  ['0f1e2d3c4b5a6978', 'שרה לוי'],
+];
+
+const dataset: KeplerDatasetLike = {
+  fields: [{ name: 'id' }, { name: 'fullName' }],
+  dataContainer: {
+    numRows: () => rows.length,
+    valueAt: (rowIndex, columnIndex) => rows[rowIndex][columnIndex],
+  },
+};
+
+const click = (index: number, layerId: string = VICTIM_LAYER_ID) => ({
+  picked: true,
+  object: { index },
+  layer: { props: { id: layerId } },
+});
+
+describe('getClickedVictimId', () => {
+  it('should return the id of the clicked row', () => {
+    expect(getClickedVictimId(click(1), dataset)).toBe('0f1e2d3c4b5a6978');
+  });
+
+  it('should fall back to the info index for binary layers', () => {
+    const clicked = { picked: true, index: 0, object: null, layer: { props: { id: VICTIM_LAYER_ID } } };
+
+    expect(getClickedVictimId(clicked, dataset)).toBe('a1b2c3d4e5f60718');
+  });
+
+  it('should resolve clicks on the incident location layer', () => {
+    expect(getClickedVictimId(click(0, VICTIM_INCIDENT_LAYER_ID), dataset)).toBe('a1b2c3d4e5f60718');
+  });
+
+  it('should return null when nothing is clicked', () => {
+    expect(getClickedVictimId(null, dataset)).toBeNull();
+    expect(getClickedVictimId({ ...click(0), picked: false }, dataset)).toBeNull();
+  });
+
+  it('should ignore clicks on other layers', () => {
+    expect(getClickedVictimId(click(0, 'locations-layer'), dataset)).toBeNull();
+    expect(getClickedVictimId(click(0, 'locations-layer'), dataset, ['locations-layer'])).toBe(
+      'a1b2c3d4e5f60718'
+    );
+  });
+
+  it('should return null for rows outside the dataset', () => {
+    expect(getClickedVictimId(click(5), dataset)).toBeNull();
+    expect(getClickedVictimId(click(0), undefined)).toBeNull();
+  });
+});
+
+describe('getFilteredVictimIds', () => {
+  it('should return the ids of the rows passing the filters', () => {
+    expect(getFilteredVictimIds({ ...dataset, filteredIndex: [1] })).toEqual(['0f1e2d3c4b5a6978']);
+    expect(getFilteredVictimIds({ ...dataset, filteredIndex: [] })).toEqual([]);
+  });
+
+  it('should return every row before the filters are computed', () => {
+    expect(getFilteredVictimIds(dataset)).toEqual(['a1b2c3d4e5f60718', '0f1e2d3c4b5a6978']);
+    expect(getFilteredVictimIds(undefined)).toEqual([]);
+  });
+});
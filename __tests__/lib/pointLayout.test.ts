@@ -0,0 +1,108 @@
+/**
+ * Tests for the layout of co-located victim points
+ */
+
+import {
+  POINT_SPACING_METERS,
+  SPIDERFY_SPACING_PIXELS,
+  arrangeInRings,
+  getLocationKey,
+  layoutPoints,
+  metersPerPixel,
+  type LayoutPoint,
+} from '@/lib/pointLayout';
+import type { Coordinates } from '@/types/victim';
+
+const BEERI = { latitude: 31.4239, longitude: 34.4931 };
+const SDEROT = { latitude: 31.525, longitude: 34.5961 };
+
+const points: LayoutPoint[] = [
+  ...['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].map((id) => ({ id: `beeri-${id}`, ...BEERI })),
+  { id: 'sderot-a', ...SDEROT },
+];
+
+/**
+ * Approximate ground distance in meters between two nearby points
+ */
+function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const dLat = (b.latitude - a.latitude) * 111_320;
+  const dLng = (b.longitude - a.longitude) * 111_320 * Math.cos((a.latitude * Math.PI) / 180);
+  return Math.hypot(dLat, dLng);
+}
+
+describe('getLocationKey', () => {
+  it('should be equal for the same coordinates', () => {
+    expect(getLocationKey(BEERI)).toBe(getLocationKey({ ...BEERI }));
+    expect(getLocationKey(BEERI)).not.toBe(getLocationKey(SDEROT));
+  });
+});
+
+describe('arrangeInRings', () => {
+  it('should put the first point at the center and the next six on a ring', () => {
+    const ids = ['1', '2', '3', '4', '5', '6', '7'];
+    const positions = arrangeInRings(BEERI, ids, POINT_SPACING_METERS);
+
+    expect(positions.get('1')).toEqual(BEERI);
+    ids.slice(1).forEach((id) => {
+      expect(distanceMeters(BEERI, positions.get(id)!)).toBeCloseTo(POINT_SPACING_METERS, 0);
+    });
+  });
+
+  it('should start a second ring after seven points', () => {
+    const ids = Array.from({ length: 8 }, (_, i) => String(i));
+    const positions = arrangeInRings(BEERI, ids, POINT_SPACING_METERS);
+
+    expect(distanceMeters(BEERI, positions.get('7')!)).toBeCloseTo(2 * POINT_SPACING_METERS, 0);
+  });
+});
+
+describe('layoutPoints', () => {
+  it('should keep single points at their coordinates', () => {
+    const positions = layoutPoints(points, { layout: 'spread' });
+
+    expect(positions.get('sderot-a')).toEqual(SDEROT);
+  });
+
+  it('should give every co-located point its own position', () => {
+    const positions = layoutPoints(points, { layout: 'spread' });
+    const keys = points.map((point) => getLocationKey(positions.get(point.id)!));
+
+    expect(new Set(keys).size).toBe(points.length);
+  });
+
+  it('should keep spread points close to their location', () => {
+    const positions = layoutPoints(points, { layout: 'spread' });
+
+    points.slice(0, 9).forEach((point) => {
+      expect(distanceMeters(BEERI, positions.get(point.id)!)).toBeLessThanOrEqual(2 * POINT_SPACING_METERS + 1);
+    });
+  });
+
+  it('should be deterministic regardless of input order', () => {
+    const first = layoutPoints(points, { layout: 'spread' });
+    const second = layoutPoints([...points].reverse(), { layout: 'spread' });
+
+    expect(second).toEqual(first);
+  });
+
+  it('should draw every point at its exact coordinates in the exact layout', () => {
+    const positions = layoutPoints(points, { layout: 'exact' });
+
+    points.forEach((point) => {
+      expect(positions.get(point.id)).toEqual({ latitude: point.latitude, longitude: point.longitude });
+    });
+  });
+
+  it('should fan out the spiderfied group at screen spacing', () => {
+    const zoom = 16;
+    const positions = layoutPoints(points, {
+      layout: 'exact',
+      spiderfy: { locationKey: getLocationKey(BEERI), zoom },
+    });
+    const spacing = metersPerPixel(BEERI.latitude, zoom) * SPIDERFY_SPACING_PIXELS;
+    const distances = points.slice(0, 9).map((point) => distanceMeters(BEERI, positions.get(point.id)!));
+
+    expect(Math.max(...distances)).toBeCloseTo(2 * spacing, 0);
+    expect(positions.get('sderot-a')).toEqual(SDEROT);
+  });
+});
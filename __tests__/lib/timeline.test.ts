@@ -0,0 +1,74 @@
+/**
+ * Tests for data-driven timeline windows and histogram intervals
+ */
+
+import {
+  chooseHistogramInterval,
+  filterByTimeWindow,
+  getTimelineWindow,
+  isTimelineWindowPreset,
+} from '@/lib/timeline';
+
+const DAY = 24 * 60 * 60 * 1000;
+const range = {
+  min: Date.UTC(2023, 9, 7),
+  max: Date.UTC(2025, 9, 2),
+};
+
+describe('getTimelineWindow', () => {
+  it('should cover the whole data range for "all"', () => {
+    expect(getTimelineWindow(range, 'all')).toEqual([range.min, range.max]);
+  });
+
+  it('should cover the first two days for "first48h"', () => {
+    expect(getTimelineWindow(range, 'first48h')).toEqual([range.min, Date.UTC(2023, 9, 9) - 1]);
+  });
+
+  it('should cover the first calendar month for "firstMonth"', () => {
+    expect(getTimelineWindow(range, 'firstMonth')).toEqual([range.min, Date.UTC(2023, 10, 7) - 1]);
+  });
+
+  it('should not extend past the latest record', () => {
+    const shortRange = { min: range.min, max: range.min + DAY };
+
+    expect(getTimelineWindow(shortRange, 'firstMonth')).toEqual([shortRange.min, shortRange.max]);
+  });
+});
+
+describe('chooseHistogramInterval', () => {
+  it('should pick finer intervals for shorter spans', () => {
+    expect(chooseHistogramInterval(0)).toBe('1-hour');
+    expect(chooseHistogramInterval(2 * DAY)).toBe('1-hour');
+    expect(chooseHistogramInterval(10 * DAY)).toBe('6-hour');
+    expect(chooseHistogramInterval(90 * DAY)).toBe('1-day');
+    expect(chooseHistogramInterval(range.max - range.min)).toBe('1-week');
+    expect(chooseHistogramInterval(5 * 365 * DAY)).toBe('1-month');
+  });
+});
+
+describe('isTimelineWindowPreset', () => {
+  it('should accept only known presets', () => {
+    expect(isTimelineWindowPreset('first48h')).toBe(true);
+    expect(isTimelineWindowPreset('all')).toBe(true);
+    expect(isTimelineWindowPreset('lastWeek')).toBe(false);
+  });
+});
+
+describe('filterByTimeWindow', () => {
+  const victims = [
+    { id: '1', timestamp: range.min },
+    { id: '2', timestamp: range.min + DAY },
+    { id: '3', timestamp: range.min + 2 * DAY },
+  ];
+
+  it('should keep victims inside the window, including both ends', () => {
+    expect(filterByTimeWindow(victims, [range.min, range.min + DAY]).map((victim) => victim.id)).toEqual([
+      '1',
+      '2',
+    ]);
+  });
+
+  it('should return nothing for a window before the data', () => {
+    expect(filterByTimeWindow(victims, [0, range.min - 1])).toEqual([]);
+  });
+});
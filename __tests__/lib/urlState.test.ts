@@ -0,0 +1,155 @@
+/**
+ * Tests for the shareable map URL state
+ */
+
+import {
+  DEFAULT_MAP_DISPLAY,
+  mapUrlStateToSearchParams,
+  parseMapUrlState,
+  replaceMapUrlState,
+  type MapUrlState,
+} from '@/lib/urlState';
+
+const victimId = 'a1b2c3d4e5f60718';
+
+describe('parseMapUrlState', () => {
+  it('should parse view, time window, filters and victim', () => {
+    const params = new URLSearchParams(
+      `lat=31.4&lng=34.5&zoom=10.5&time=1696636800000,1699228800000&source=עזה&minAge=18&victim=${victimId}`
+    );
+
+    expect(parseMapUrlState(params)).toEqual({
+      view: { latitude: 31.4, longitude: 34.5, zoom: 10.5 },
+      timeWindow: [1696636800000, 1699228800000],
+      display: DEFAULT_MAP_DISPLAY,
+      filter: { sources: ['עזה'], ageRange: { min: 18, max: 120 } },
+      victimId,
+    });
+  });
+
+  it('should default every part when the query is empty', () => {
+    expect(parseMapUrlState(new URLSearchParams())).toEqual({
+      view: undefined,
+      timeWindow: undefined,
+      display: DEFAULT_MAP_DISPLAY,
+      filter: {},
+      victimId: null,
+    });
+  });
+
+  it('should require all view parameters within range', () => {
+    expect(parseMapUrlState(new URLSearchParams('lat=31.4&lng=34.5')).view).toBeUndefined();
+    expect(parseMapUrlState(new URLSearchParams('lat=95&lng=34.5&zoom=7')).view).toBeUndefined();
+    expect(parseMapUrlState(new URLSearchParams('lat=31&lng=abc&zoom=7')).view).toBeUndefined();
+  });
+
+  it('should drop malformed time windows', () => {
+    const parse = (time: string) => parseMapUrlState(new URLSearchParams({ time })).timeWindow;
+
+    expect(parse('1699228800000,1696636800000')).toBeUndefined();
+    expect(parse('1696636800000')).toBeUndefined();
+    expect(parse('a,b')).toBeUndefined();
+  });
+
+  it('should parse the layer preset, geography and display toggles', () => {
+    const params = new URLSearchParams('layer=heatmap&geo=incident&layout=exact&approx=true&imprecise=true&arcs=true');
+
+    expect(parseMapUrlState(params).display).toEqual({
+      layerPreset: 'heatmap',
+      geography: 'incident',
+      pointLayout: 'exact',
+      showApproximate: true,
+      showImpreciseDates: true,
+      showTrajectories: true,
+    });
+  });
+
+  it('should use the default for unknown display values', () => {
+    const params = new URLSearchParams('layer=bars&geo=moon&layout=&approx=1&arcs=false');
+
+    expect(parseMapUrlState(params).display).toEqual(DEFAULT_MAP_DISPLAY);
+  });
+
+  it('should drop invalid filters and victim ids instead of failing', () => {
+    const state = parseMapUrlState(new URLSearchParams('minAge=abc&source=עזה&victim=../etc'));
+
+    expect(state.filter).toEqual({});
+    expect(state.victimId).toBeNull();
+  });
+});
+
+describe('mapUrlStateToSearchParams', () => {
+  it('should round-trip through parseMapUrlState', () => {
+    const state: MapUrlState = {
+      view: { latitude: 31.12345, longitude: 34.98765, zoom: 8.25 },
+      timeWindow: [1696636800000, 1699228800000],
+      display: {
+        layerPreset: 'hexbin',
+        geography: 'incident',
+        pointLayout: 'exact',
+        showApproximate: true,
+        showImpreciseDates: false,
+        showTrajectories: true,
+      },
+      filter: {
+        sources: ['עזה', 'לבנון'],
+        dateRange: { start: '2023-10-07', end: '2023-12-31' },
+        civiliansOnly: true,
+      },
+      victimId,
+    };
+
+    expect(parseMapUrlState(mapUrlStateToSearchParams(state))).toEqual(state);
+  });
+
+  it('should round coordinates and zoom', () => {
+    const params = mapUrlStateToSearchParams({
+      view: { latitude: 31.123456789, longitude: 34.987654321, zoom: 7.123456 },
+    });
+
+    expect(params.get('lat')).toBe('31.12346');
+    expect(params.get('lng')).toBe('34.98765');
+    expect(params.get('zoom')).toBe('7.12');
+  });
+
+  it('should update only the given parts and keep unrelated parameters', () => {
+    const params = new URLSearchParams(`lat=1&lng=2&zoom=3&source=עזה&victim=${victimId}&utm=x`);
+
+    mapUrlStateToSearchParams({ view: undefined, victimId: null }, params);
+
+    expect(params.toString()).toBe(new URLSearchParams('source=עזה&utm=x').toString());
+  });
+
+  it('should leave display options at their default out of the URL', () => {
+    const params = new URLSearchParams('layer=heatmap&arcs=true');
+
+    mapUrlStateToSearchParams({ display: { ...DEFAULT_MAP_DISPLAY, showApproximate: true } }, params);
+
+    expect(params.toString()).toBe('approx=true');
+  });
+
+  it('should replace all filter parameters when a filter is given', () => {
+    const params = new URLSearchParams('source=עזה&gender=זכר');
+
+    mapUrlStateToSearchParams({ filter: { sources: ['לבנון'] } }, params);
+
+    expect(params.getAll('source')).toEqual(['לבנון']);
+    expect(params.has('gender')).toBe(false);
+  });
+});
+
+describe('replaceMapUrlState', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should update the page URL without adding a history entry', () => {
+    window.history.replaceState(null, '', '/?utm=x');
+    const historyLength = window.history.length;
+
+    replaceMapUrlState({ victimId });
+
+    expect(window.location.search).toBe(`?utm=x&victim=${victimId}`);
+    expect(window.history.length).toBe(historyLength);
+  });
+});
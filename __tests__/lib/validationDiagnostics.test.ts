@@ -0,0 +1,56 @@
+/**
+ * Tests for the validation report of the CSV rows
+ */
+
+import { processVictimDataArray } from '@/lib/dataProcessing';
+import { createValidationReport } from '@/lib/validationDiagnostics';
+import type { CSVSourceRow } from '@/lib/csvParser';
+import type { VictimData } from '@/types/victim';
+
+const victim: VictimData = {
+  firstName: 'יוסי',
+  lastName: 'כהן',
+  rank: 'סמל',
+  age: 20,
+  location: 'שדרות',
+  date: '2023-10-07',
+  source: 'עזה',
+  type: 'לחימה',
+  causeOfDeath: 'לחימה',
+  gender: 'זכר',
+  url: 'https://www.ynet.co.il/news/article/abc123',
+  latitude: 31.525,
+  longitude: 34.5961,
+};
+
+const sourceRows: CSVSourceRow[] = [2, 3, 4].map((line) => ({ line, values: {} }));
+
+describe('createValidationReport', () => {
+  const { latitude: _latitude, ...withoutLatitude } = victim;
+  const report = createValidationReport(
+    processVictimDataArray([victim, { ...victim, age: null }, withoutLatitude], {
+      rules: { 'age.unknown': 'info', 'latitude.required': 'off' },
+    }),
+    sourceRows
+  );
+
+  it('should list rows with info issues only', () => {
+    expect(report).toMatchObject({ total: 3, processed: 2, failed: 1, warned: 0, noted: 1 });
+    expect(report.rows[0]).toMatchObject({
+      recordIndex: 1,
+      line: 3,
+      status: 'info',
+      recordId: expect.any(String),
+      issues: [{ ruleId: 'age.unknown', severity: 'info' }],
+    });
+  });
+
+  it('should report the missing field of a record that has no default', () => {
+    expect(report.rows[1]).toMatchObject({
+      recordIndex: 2,
+      status: 'failed',
+      issues: [{ ruleId: 'latitude.required', severity: 'error', field: 'latitude' }],
+    });
+    expect(report.rows[1].error).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the CSV, GeoJSON and NDJSON victim exports
+ */
+
+import { parseVictimCSV } from '@/lib/csvParser';
+import {
+  UTF8_BOM,
+  exportVictims,
+  parseExportFormat,
+  toVictimCSV,
+  toVictimFeatureCollection,
+  toVictimNDJSON,
+} from '@/lib/victimExport';
+import { VictimFilterError } from '@/lib/victimFilter';
+import type { ProcessedVictimData } from '@/types/victim';
+import { createVictim as createTestVictim } from '@/__tests__/helpers/victims';
+
+/**
+ * Soldier killed in combat, with a linked article
+ */
+const createVictim = (overrides: Partial<ProcessedVictimData> = {}): ProcessedVictimData =>
+  createTestVictim({
+    rank: 'סמ"ר',
+    age: 45,
+    type: 'לחימה',
+    causeOfDeath: 'לחימה',
+    url: 'https://example.com/article1',
+    isCivilian: false,
+    hasUrl: true,
+    ...overrides,
+  });
+
+const victims = [
+  createVictim(),
+  createVictim({
+    id: 'victim-2',
+    firstName: 'שרה',
+    lastName: 'לוי, בן דוד',
+    fullName: 'שרה לוי, בן דוד',
+    rank: undefined,
+    age: null,
+    gender: null,
+    date: '2024-07-20',
+    incidentLocation: { name: 'בארי', latitude: 31.4239, longitude: 34.4931, geocodeStatus: 'exact' },
+  }),
+];
+
+describe('parseExportFormat', () => {
+  it('should default to the JSON envelope', () => {
+    expect(parseExportFormat(new URLSearchParams())).toBe('json');
+    expect(parseExportFormat(new URLSearchParams('format=geojson'))).toBe('geojson');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => parseExportFormat(new URLSearchParams('format=xml'))).toThrow(VictimFilterError);
+  });
+});
+
+describe('toVictimCSV', () => {
+  const csv = toVictimCSV(victims);
+
+  it('should start with a BOM and the Hebrew sheet headers', () => {
+    expect(csv.startsWith(UTF8_BOM)).toBe(true);
+    expect(csv.slice(1).split('\r\n')[0]).toBe(
+      'שם משפחה,שם פרטי,דרגה,גיל,מקום מגורים,תאריך נוסף,קָטֵגוֹרִיָה,סיבת המוות,מִין,קישור למאמר,מקום האירוע'
+    );
+  });
+
+  it('should write missing values as "-" and dates as DD/MM/YYYY', () => {
+    const row = csv.split('\r\n')[2];
+
+    expect(row).toBe('"לוי, בן דוד",שרה,-,-,שדרות,20/07/2024,עזה,לחימה,-,https://example.com/article1,בארי');
+  });
+
+  it('should write partial dates as MM/YYYY and unknown dates as "-"', () => {
+    const rows = toVictimCSV([
+      createVictim({ date: '2024-03-01', dateQuality: 'partial' }),
+      createVictim({ dateQuality: 'defaulted' }),
+    ]).split('\r\n');
+
+    expect(rows[1]).toContain(',03/2024,');
+    expect(rows[2]).toContain('שדרות,-,עזה');
+  });
+
+  it('should escape cells that start a formula', () => {
+    const [, row] = toVictimCSV([createVictim({ firstName: '=HYPERLINK("x")', rank: '-' })]).split('\r\n');
+
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(row).toContain(',-,');
+  });
+
+  it('should read back as the same records', () => {
+    const parsed = parseVictimCSV(csv.slice(UTF8_BOM.length));
+
+    expect(parsed[0]).toMatchObject({ lastName: 'כהן', rank: 'סמ"ר', age: 45, date: '2023-10-07', gender: 'זכר' });
+    expect(parsed[1]).toMatchObject({ lastName: 'לוי, בן דוד', age: null, gender: null, date: '2024-07-20' });
+    expect(parsed[1].incidentLocation?.name).toBe('בארי');
+  });
+});
+
+describe('toVictimFeatureCollection', () => {
+  it('should place each victim at its residence with the record as properties', () => {
+    const collection = toVictimFeatureCollection(victims);
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features[0]).toMatchObject({
+      type: 'Feature',
+      id: 'victim-1',
+      geometry: { type: 'Point', coordinates: [34.5961, 31.525] },
+      properties: { fullName: 'דוד כהן', causeOfDeath: 'לחימה' },
+    });
+  });
+
+  it('should keep only the requested properties', () => {
+    expect(toVictimFeatureCollection(victims, ['id']).features[1].properties).toEqual({ id: 'victim-2' });
+  });
+});
+
+describe('toVictimNDJSON', () => {
+  it('should write one record per line', () => {
+    const lines = toVictimNDJSON(victims, ['id', 'age']).split('\n');
+
+    expect(lines).toEqual(['{"id":"victim-1","age":45}', '{"id":"victim-2","age":null}', '']);
+  });
+});
+
+describe('exportVictims', () => {
+  it('should name the file and content type after the format', () => {
+    expect(exportVictims(victims, 'geojson')).toMatchObject({
+      contentType: 'application/geo+json; charset=utf-8',
+      filename: 'victims.geojson',
+    });
+    expect(exportVictims([], 'ndjson').body).toBe('');
+  });
+});
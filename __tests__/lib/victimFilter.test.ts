@@ -0,0 +1,176 @@
+/**
+ * Tests for victim filtering utilities
+ */
+
+import {
+  applyVictimFilter,
+  matchesVictimFilter,
+  parseVictimFilter,
+  victimFilterToSearchParams,
+  VictimFilterError,
+} from '@/lib/victimFilter';
+import type { ProcessedVictimData } from '@/types/victim';
+import { createVictim } from '@/__tests__/helpers/victims';
+
+
+const victims = [
+  createVictim({ id: '1', location: 'תל אביב' }),
+  createVictim({
+    id: '2',
+    rank: 'סגן',
+    isCivilian: false,
+    age: 22,
+    gender: 'נקבה',
+    location: 'ירושלים',
+    date: '2024-01-15',
+    source: 'לבנון',
+    type: 'לחימה',
+    causeOfDeath: 'לחימה',
+  }),
+  createVictim({
+    id: '3',
+    age: 70,
+    location: 'תל אביב - יפו',
+    date: '2024-07-28',
+    source: 'איראן',
+  }),
+];
+
+const ids = (list: ProcessedVictimData[]) => list.map((victim) => victim.id);
+
+describe('victimFilter', () => {
+  describe('applyVictimFilter', () => {
+    it('should return all victims for an empty filter', () => {
+      expect(applyVictimFilter(victims, {})).toBe(victims);
+    });
+
+    it('should filter by inclusive date range', () => {
+      const result = applyVictimFilter(victims, {
+        dateRange: { start: '2023-10-07', end: '2024-01-15' },
+      });
+      expect(ids(result)).toEqual(['1', '2']);
+    });
+
+    it('should filter by any of the given sources', () => {
+      expect(ids(applyVictimFilter(victims, { sources: ['לבנון', 'איראן'] }))).toEqual(['2', '3']);
+    });
+
+    it('should filter by type and cause', () => {
+      expect(ids(applyVictimFilter(victims, { types: ['לחימה'] }))).toEqual(['2']);
+      expect(ids(applyVictimFilter(victims, { causes: ['רקטות וטילים'] }))).toEqual(['1', '3']);
+    });
+
+    it('should filter by gender and age range', () => {
+      expect(ids(applyVictimFilter(victims, { gender: 'נקבה' }))).toEqual(['2']);
+      expect(ids(applyVictimFilter(victims, { ageRange: { min: 25, max: 70 } }))).toEqual([
+        '1',
+        '3',
+      ]);
+    });
+
+    it('should leave victims with unknown age out of an age range', () => {
+      const unknownAge = { ...victims[0], id: '4', age: null };
+
+      expect(ids(applyVictimFilter([unknownAge], { ageRange: { min: 0, max: 120 } }))).toEqual([]);
+      expect(ids(applyVictimFilter([unknownAge], { gender: 'זכר' }))).toEqual(['4']);
+    });
+
+    it('should match locations by partial name', () => {
+      expect(ids(applyVictimFilter(victims, { locations: ['תל אביב'] }))).toEqual(['1', '3']);
+    });
+
+    it('should filter civilians and military personnel', () => {
+      expect(ids(applyVictimFilter(victims, { civiliansOnly: true }))).toEqual(['1', '3']);
+      expect(ids(applyVictimFilter(victims, { militaryOnly: true }))).toEqual(['2']);
+    });
+
+    it('should combine criteria', () => {
+      const result = applyVictimFilter(victims, {
+        locations: ['תל אביב'],
+        sources: ['איראן'],
+      });
+      expect(ids(result)).toEqual(['3']);
+    });
+  });
+
+  describe('matchesVictimFilter', () => {
+    it('should reject a victim failing any criterion', () => {
+      expect(matchesVictimFilter(victims[0], { gender: 'זכר', militaryOnly: true })).toBe(false);
+    });
+  });
+
+  describe('parseVictimFilter', () => {
+    it('should return an empty filter when no parameters are given', () => {
+      expect(parseVictimFilter(new URLSearchParams())).toEqual({});
+    });
+
+    it('should parse every filter field', () => {
+      const params = new URLSearchParams(
+        'startDate=2023-10-07&endDate=2024-01-01&source=עזה&source=לבנון&type=לחימה' +
+          '&cause=פיגוע&gender=נקבה&minAge=18&maxAge=40&location=חיפה&civilians=true'
+      );
+
+      expect(parseVictimFilter(params)).toEqual({
+        dateRange: { start: '2023-10-07', end: '2024-01-01' },
+        sources: ['עזה', 'לבנון'],
+        types: ['לחימה'],
+        causes: ['פיגוע'],
+        gender: 'נקבה',
+        ageRange: { min: 18, max: 40 },
+        locations: ['חיפה'],
+        civiliansOnly: true,
+      });
+    });
+
+    it('should use open bounds for one-sided ranges', () => {
+      const filter = parseVictimFilter(new URLSearchParams('startDate=2024-01-01&maxAge=17'));
+
+      expect(filter.dateRange).toEqual({ start: '2024-01-01', end: '9999-12-31' });
+      expect(filter.ageRange).toEqual({ min: 0, max: 17 });
+    });
+
+    it('should ignore empty and whitespace values', () => {
+      expect(parseVictimFilter(new URLSearchParams('location=&source=%20%20'))).toEqual({});
+    });
+
+    it.each([
+      ['startDate=07/10/2023', 'startDate'],
+      ['endDate=2023-02-30', 'endDate'],
+      ['startDate=2024-01-02&endDate=2024-01-01', 'startDate'],
+      ['gender=other', 'gender'],
+      ['minAge=abc', 'minAge'],
+      ['maxAge=200', 'maxAge'],
+      ['minAge=50&maxAge=20', 'minAge'],
+      ['civilians=yes', 'civilians'],
+      ['civilians=true&military=true', 'military'],
+    ])('should reject %s naming the %s parameter', (query, parameter) => {
+      try {
+        parseVictimFilter(new URLSearchParams(query));
+        throw new Error('Expected parseVictimFilter to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(VictimFilterError);
+        expect((error as VictimFilterError).parameter).toBe(parameter);
+        expect((error as VictimFilterError).message).toContain(parameter);
+      }
+    });
+  });
+
+  describe('victimFilterToSearchParams', () => {
+    it('should round-trip through parseVictimFilter', () => {
+      const filter = {
+        dateRange: { start: '2023-10-07', end: '2024-01-01' },
+        sources: ['עזה', 'לבנון'],
+        gender: 'זכר' as const,
+        ageRange: { min: 18, max: 120 },
+        militaryOnly: true,
+      };
+
+      expect(parseVictimFilter(victimFilterToSearchParams(filter))).toEqual(filter);
+    });
+
+    it('should omit open range bounds', () => {
+      const params = victimFilterToSearchParams({ ageRange: { min: 0, max: 17 } });
+      expect(params.toString()).toBe('maxAge=17');
+    });
+  });
+});
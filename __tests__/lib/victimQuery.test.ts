@@ -0,0 +1,114 @@
+/**
+ * Tests for victim list pagination, sorting and projection utilities
+ */
+
+import {
+  MAX_PAGE_LIMIT,
+  paginateVictims,
+  parseVictimQueryOptions,
+  projectVictims,
+} from '@/lib/victimQuery';
+import { VictimFilterError } from '@/lib/victimFilter';
+import type { ProcessedVictimData } from '@/types/victim';
+
+describe('victimQuery', () => {
+  describe('parseVictimQueryOptions', () => {
+    it('should default to date order without paging or projection', () => {
+      expect(parseVictimQueryOptions(new URLSearchParams())).toEqual({
+        sort: 'date',
+        offset: 0,
+        limit: undefined,
+        fields: undefined,
+      });
+    });
+
+    it('should parse sort, limit, offset and fields', () => {
+      const options = parseVictimQueryOptions(
+        new URLSearchParams('sort=-age&limit=50&offset=100&fields=id,fullName&fields=latitude')
+      );
+
+      expect(options).toEqual({
+        sort: '-age',
+        offset: 100,
+        limit: 50,
+        fields: ['id', 'fullName', 'latitude'],
+      });
+    });
+
+    it('should de-duplicate requested fields', () => {
+      const options = parseVictimQueryOptions(new URLSearchParams('fields=id,id, date'));
+      expect(options.fields).toEqual(['id', 'date']);
+    });
+
+    it.each([
+      ['sort=name', 'sort'],
+      ['limit=0', 'limit'],
+      ['limit=2.5', 'limit'],
+      [`limit=${MAX_PAGE_LIMIT + 1}`, 'limit'],
+      ['offset=-1', 'offset'],
+      ['fields=id,password', 'fields'],
+    ])('should reject %s naming the %s parameter', (query, parameter) => {
+      expect(() => parseVictimQueryOptions(new URLSearchParams(query))).toThrow(VictimFilterError);
+      try {
+        parseVictimQueryOptions(new URLSearchParams(query));
+      } catch (error) {
+        expect((error as VictimFilterError).parameter).toBe(parameter);
+      }
+    });
+  });
+
+  describe('paginateVictims', () => {
+    const items = [1, 2, 3, 4, 5];
+
+    it('should return everything when no limit is given', () => {
+      const { page, pagination } = paginateVictims(items, 0);
+
+      expect(page).toEqual(items);
+      expect(pagination).toMatchObject({ returned: 5, total: 5, hasMore: false });
+      expect(pagination.nextOffset).toBeUndefined();
+    });
+
+    it('should return a page with the next offset', () => {
+      const { page, pagination } = paginateVictims(items, 1, 2);
+
+      expect(page).toEqual([2, 3]);
+      expect(pagination).toEqual({
+        offset: 1,
+        limit: 2,
+        returned: 2,
+        total: 5,
+        hasMore: true,
+        nextOffset: 3,
+      });
+    });
+
+    it('should report no more pages on the last page', () => {
+      const { page, pagination } = paginateVictims(items, 4, 2);
+
+      expect(page).toEqual([5]);
+      expect(pagination.hasMore).toBe(false);
+    });
+
+    it('should return an empty page past the end', () => {
+      expect(paginateVictims(items, 10, 2).page).toEqual([]);
+    });
+  });
+
+  describe('projectVictims', () => {
+    const victim = {
+      id: 'abc',
+      fullName: 'דוד כהן',
+      dateObject: new Date('2023-10-07'),
+      latitude: 31.5,
+    } as ProcessedVictimData;
+
+    it('should return records unchanged without fields', () => {
+      const victims = [victim];
+      expect(projectVictims(victims)).toBe(victims);
+    });
+
+    it('should keep only the requested fields', () => {
+      expect(projectVictims([victim], ['id', 'latitude'])).toEqual([{ id: 'abc', latitude: 31.5 }]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Next.js API Route for geocoding diagnostics
+ * GET /api/diagnostics/geocoding - Reports how the location names in the CSV were
+ * resolved to coordinates, listing names that fell back to the center of Israel
+ */
+
+import { NextRequest } from 'next/server';
+import { getDatasetCacheHeaders, isDatasetNotModified } from '@/lib/datasetStore';
+import {
+  createErrorResponse,
+  createNotModifiedResponse,
+  createOptionsResponse,
+  createSuccessResponse,
+  loadDatasetForRequest,
+} from '@/lib/apiResponse';
+import { createGeocodingReport, type GeocodingReport } from '@/lib/geocodingDiagnostics';
+
+/**
+ * API Response data structure
+ */
+interface GeocodingDiagnosticsResponseData {
+  geocoding: GeocodingReport;
+  metadata: {
+    timestamp: number;
+  };
+}
+
+/**
+ * GET handler for /api/diagnostics/geocoding
+ * Covers every CSV record, including records that failed validation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Load the dataset (parsed once and cached until the CSV changes), also
+    // when every record failed, since their places are still in the report
+    const { dataset, errorResponse } = await loadDatasetForRequest(true);
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    // Answer conditional requests when the client already has this dataset version
+    const cacheHeaders = getDatasetCacheHeaders(dataset);
+    if (isDatasetNotModified(request.headers, dataset)) {
+      return createNotModifiedResponse(cacheHeaders);
+    }
+
+    const responseData: GeocodingDiagnosticsResponseData = {
+      geocoding: createGeocodingReport(dataset.rawRecords),
+      metadata: {
+        timestamp: Date.now(),
+      },
+    };
+
+    return createSuccessResponse(responseData, cacheHeaders);
+
+  } catch (error) {
+    // Catch any unexpected errors
+    console.error('Unexpected error in /api/diagnostics/geocoding:', error);
+
+    return createErrorResponse(
+      'An unexpected error occurred while processing the request',
+      'PROCESSING_ERROR',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -0,0 +1,78 @@
+/**
+ * Next.js API Route for validation diagnostics
+ * GET /api/diagnostics/validation - Lists every CSV row that failed processing or
+ * was reported with warnings or info, with its line number, cell values and broken rules
+ */
+
+import { NextRequest } from 'next/server';
+import { getDatasetCacheHeaders, isDatasetNotModified } from '@/lib/datasetStore';
+import {
+  createErrorResponse,
+  createNotModifiedResponse,
+  createOptionsResponse,
+  createSuccessResponse,
+  loadDatasetForRequest,
+} from '@/lib/apiResponse';
+import { createValidationReport, type ValidationReport } from '@/lib/validationDiagnostics';
+
+/**
+ * API Response data structure
+ */
+interface ValidationDiagnosticsResponseData {
+  validation: ValidationReport;
+  metadata: {
+    timestamp: number;
+  };
+}
+
+/**
+ * GET handler for /api/diagnostics/validation
+ * Covers every CSV row, including CSV parser problems
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Load the dataset (parsed once and cached until the CSV changes), also
+    // when every record failed, since those are the rows to report
+    const { dataset, errorResponse } = await loadDatasetForRequest(true);
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    // Answer conditional requests when the client already has this dataset version
+    const cacheHeaders = getDatasetCacheHeaders(dataset);
+    if (isDatasetNotModified(request.headers, dataset)) {
+      return createNotModifiedResponse(cacheHeaders);
+    }
+
+    const responseData: ValidationDiagnosticsResponseData = {
+      validation: createValidationReport(
+        dataset.processingResult,
+        dataset.sourceRows,
+        dataset.parseErrors
+      ),
+      metadata: {
+        timestamp: Date.now(),
+      },
+    };
+
+    return createSuccessResponse(responseData, cacheHeaders);
+
+  } catch (error) {
+    // Catch any unexpected errors
+    console.error('Unexpected error in /api/diagnostics/validation:', error);
+
+    return createErrorResponse(
+      'An unexpected error occurred while processing the request',
+      'PROCESSING_ERROR',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -0,0 +1,55 @@
+/**
+ * Next.js API Route for categorical breakdowns
+ * GET /api/statistics/breakdown?by=<dimension> - Returns [{ key, count, percentage }]
+ * for the filtered victims
+ */
+
+import {
+  BREAKDOWN_DIMENSIONS,
+  calculateBreakdown,
+  isBreakdownDimension,
+  type BreakdownDimension,
+} from '@/lib/statistics';
+import { createOptionsResponse } from '@/lib/apiResponse';
+import { createStatisticsHandler } from '@/lib/statisticsApi';
+import { VictimFilterError } from '@/lib/victimFilter';
+
+/**
+ * Read the required by=<dimension> parameter
+ */
+function parseDimension(searchParams: URLSearchParams): BreakdownDimension {
+  const by = searchParams.get('by')?.trim() ?? '';
+
+  if (!isBreakdownDimension(by)) {
+    throw new VictimFilterError(
+      `Invalid by parameter. Must be one of: ${Object.keys(BREAKDOWN_DIMENSIONS).join(', ')}.`,
+      'by',
+      by
+    );
+  }
+
+  return by;
+}
+
+/**
+ * GET handler for /api/statistics/breakdown
+ * Accepts the same filter parameters as /api/victims, plus:
+ * - by=<dimension> - source, category, type, cause, gender, location, date, rank or civilian (required)
+ * Percentages are relative to the filtered victims
+ */
+export const GET = createStatisticsHandler({
+  endpoint: '/api/statistics/breakdown',
+  key: 'breakdown',
+  parseOptions: parseDimension,
+  compute: ({ victims }, dimension) => ({
+    dimension,
+    entries: calculateBreakdown(victims, dimension),
+  }),
+});
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
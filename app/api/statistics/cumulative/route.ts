@@ -0,0 +1,26 @@
+/**
+ * Next.js API Route for the cumulative victim count series
+ * GET /api/statistics/cumulative - Returns [{ date, cumulativeCount }] for the filtered victims
+ */
+
+import { calculateCumulativeVictimCounts } from '@/lib/statistics';
+import { createOptionsResponse } from '@/lib/apiResponse';
+import { createStatisticsHandler, noStatisticsOptions } from '@/lib/statisticsApi';
+
+/**
+ * GET handler for /api/statistics/cumulative
+ * Accepts the same filter parameters as /api/victims; victims with a missing or defaulted date are omitted
+ */
+export const GET = createStatisticsHandler({
+  endpoint: '/api/statistics/cumulative',
+  key: 'cumulative',
+  parseOptions: noStatisticsOptions,
+  compute: ({ victims }) => calculateCumulativeVictimCounts(victims),
+});
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
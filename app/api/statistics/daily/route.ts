@@ -0,0 +1,27 @@
+/**
+ * Next.js API Route for the daily victim count series
+ * GET /api/statistics/daily - Returns [{ date, count }] for the filtered victims
+ */
+
+import { calculateDailyVictimCounts } from '@/lib/statistics';
+import { createOptionsResponse } from '@/lib/apiResponse';
+import { createStatisticsHandler, noStatisticsOptions } from '@/lib/statisticsApi';
+
+/**
+ * GET handler for /api/statistics/daily
+ * Accepts the same filter parameters as /api/victims; dates without victims are omitted,
+ * and so are victims with a missing or defaulted date
+ */
+export const GET = createStatisticsHandler({
+  endpoint: '/api/statistics/daily',
+  key: 'daily',
+  parseOptions: noStatisticsOptions,
+  compute: ({ victims }) => calculateDailyVictimCounts(victims),
+});
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -0,0 +1,28 @@
+/**
+ * Next.js API Route for summary statistics
+ * GET /api/statistics/summary - Returns totals and breakdowns for the filtered victims
+ */
+
+import { calculateVictimStatistics } from '@/lib/statistics';
+import { createOptionsResponse } from '@/lib/apiResponse';
+import { createStatisticsHandler, noStatisticsOptions } from '@/lib/statisticsApi';
+
+/**
+ * GET handler for /api/statistics/summary
+ * Accepts the same filter parameters as /api/victims
+ */
+export const GET = createStatisticsHandler({
+  endpoint: '/api/statistics/summary',
+  key: 'statistics',
+  parseOptions: noStatisticsOptions,
+  // Precomputed statistics cover the unfiltered dataset
+  compute: ({ victims, isUnfiltered, dataset }) =>
+    isUnfiltered ? dataset.statistics : calculateVictimStatistics(victims),
+});
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -0,0 +1,35 @@
+/**
+ * Next.js API Route for the locations with the most victims
+ * GET /api/statistics/top-locations - Returns the top N location groups for the filtered victims
+ */
+
+import { getTopLocationsByCount } from '@/lib/statistics';
+import { createOptionsResponse } from '@/lib/apiResponse';
+import { createStatisticsHandler } from '@/lib/statisticsApi';
+import { parseIntegerParam } from '@/lib/victimQuery';
+
+/**
+ * Number of locations returned when limit is not given, and the largest allowed
+ */
+const DEFAULT_LOCATION_LIMIT = 10;
+const MAX_LOCATION_LIMIT = 1000;
+
+/**
+ * GET handler for /api/statistics/top-locations
+ * Accepts the same filter parameters as /api/victims, plus:
+ * - limit=<n> - Number of locations to return (default: 10)
+ */
+export const GET = createStatisticsHandler({
+  endpoint: '/api/statistics/top-locations',
+  key: 'locations',
+  parseOptions: (searchParams) =>
+    parseIntegerParam(searchParams, 'limit', 1, MAX_LOCATION_LIMIT) ?? DEFAULT_LOCATION_LIMIT,
+  compute: ({ victims }, limit) => getTopLocationsByCount(victims, limit),
+});
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -0,0 +1,154 @@
+/**
+ * Next.js API Route for serving a single victim record
+ * GET /api/victims/[id] - Returns one processed victim with related victims
+ * from the same location and the same date (for shareable memorial links)
+ */
+
+import { NextRequest } from 'next/server';
+import { VICTIM_ID_REGEX } from '@/lib/victimId';
+import {
+  getDatasetCacheHeaders,
+  getRelatedVictims,
+  isDatasetNotModified,
+} from '@/lib/datasetStore';
+import {
+  createErrorResponse,
+  createNotModifiedResponse,
+  createOptionsResponse,
+  createSuccessResponse,
+  loadDatasetForRequest,
+} from '@/lib/apiResponse';
+import { projectVictims, type ProjectableField, type ProjectedVictim } from '@/lib/victimQuery';
+import type { ProcessedVictimData } from '@/types/victim';
+
+/**
+ * Maximum number of related victims returned per group
+ */
+const RELATED_LIMIT = 50;
+
+/**
+ * Fields included for each related victim
+ */
+const RELATED_FIELDS: ProjectableField[] = [
+  'id',
+  'fullName',
+  'rank',
+  'age',
+  'location',
+  'date',
+  'dateQuality',
+  'causeOfDeath',
+];
+
+/**
+ * Related victims group
+ */
+interface RelatedGroup {
+  /** Number of related victims in the group */
+  total: number;
+
+  /** Related victims (at most RELATED_LIMIT), sorted by date */
+  victims: ProjectedVictim[];
+}
+
+/**
+ * API Response data structure
+ */
+interface VictimDetailResponseData {
+  victim: ProcessedVictimData;
+  related: {
+    sameLocation: RelatedGroup;
+    sameDate: RelatedGroup;
+  };
+  metadata: {
+    timestamp: number;
+  };
+}
+
+/**
+ * Build a related group summary
+ */
+function toRelatedGroup(victims: ProcessedVictimData[]): RelatedGroup {
+  return {
+    total: victims.length,
+    victims: projectVictims(victims.slice(0, RELATED_LIMIT), RELATED_FIELDS),
+  };
+}
+
+/**
+ * GET handler for /api/victims/[id]
+ * Records always use the current (v2) response schema
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id?.trim().toLowerCase() ?? '';
+
+    // Validate id format before touching the dataset
+    if (!VICTIM_ID_REGEX.test(id)) {
+      return createErrorResponse(
+        'Invalid id parameter. Must be a 16-character hexadecimal victim id.',
+        'INVALID_PARAMETER',
+        400,
+        { parameter: 'id', value: params.id }
+      );
+    }
+
+    // Load the dataset (parsed once and cached until the CSV changes)
+    const { dataset, errorResponse } = await loadDatasetForRequest();
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    const victim = dataset.byId.get(id);
+    if (!victim) {
+      return createErrorResponse(
+        `Victim not found: ${id}`,
+        'NOT_FOUND',
+        404,
+        { id }
+      );
+    }
+
+    // Answer conditional requests when the client already has this dataset version
+    const cacheHeaders = getDatasetCacheHeaders(dataset);
+    if (isDatasetNotModified(request.headers, dataset)) {
+      return createNotModifiedResponse(cacheHeaders);
+    }
+
+    const related = getRelatedVictims(dataset, victim);
+
+    const responseData: VictimDetailResponseData = {
+      victim,
+      related: {
+        sameLocation: toRelatedGroup(related.sameLocation),
+        sameDate: toRelatedGroup(related.sameDate),
+      },
+      metadata: {
+        timestamp: Date.now(),
+      },
+    };
+
+    return createSuccessResponse(responseData, cacheHeaders);
+
+  } catch (error) {
+    // Catch any unexpected errors
+    console.error('Unexpected error in /api/victims/[id]:', error);
+
+    return createErrorResponse(
+      'An unexpected error occurred while processing the request',
+      'PROCESSING_ERROR',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS() {
+  return createOptionsResponse();
+}
@@ -1,246 +1,193 @@
 /**
  * Next.js API Route for serving processed victim data
- * GET /api/victims - Returns all processed victims with optional filtering and statistics
+ * GET /api/victims - Returns all processed victims with optional filtering and statistics,
+ * as JSON or as a CSV, GeoJSON or NDJSON download
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import {
-  processVictimDataArray,
-  sortVictimsByDate,
-  type ProcessingResult,
-  type BulkProcessingResult
-} from '@/lib/dataProcessing';
+import { NextRequest } from 'next/server';
+import { sortVictims } from '@/lib/dataProcessing';
 import {
   calculateVictimStatistics,
   groupByLocation
 } from '@/lib/statistics';
-import { parseVictimCSV } from '@/lib/csvParser';
-import type { VictimData, ProcessedVictimData, VictimLocation, VictimStatistics } from '@/types/victim';
+import { getDatasetCacheHeaders, isDatasetNotModified } from '@/lib/datasetStore';
+import {
+  createErrorResponse,
+  createNotModifiedResponse,
+  createDownloadResponse,
+  createOptionsResponse,
+  createSuccessResponse,
+  loadDatasetForRequest,
+} from '@/lib/apiResponse';
+import {
+  DEFAULT_RESPONSE_SCHEMA,
+  RESPONSE_SCHEMAS,
+  getSchemaDeprecation,
+  isResponseSchema,
+  migrateVictimsToSchema,
+  type ResponseSchema,
+  type SchemaDeprecation,
+} from '@/lib/legacySchema';
+import { applyVictimFilter, parseVictimFilter, VictimFilterError } from '@/lib/victimFilter';
+import { exportVictims, parseExportFormat, type ExportFormat } from '@/lib/victimExport';
+import {
+  paginateVictims,
+  parseVictimQueryOptions,
+  projectVictims,
+  type PaginationMetadata,
+  type ProjectedVictim,
+  type VictimQueryOptions,
+} from '@/lib/victimQuery';
+import type {
+  VictimFilter,
+  VictimLocation,
+  VictimStatistics,
+} from '@/types/victim';
 
 /**
- * API Response structure
+ * API Response data structure
  */
-interface VictimsAPIResponse {
-  success: boolean;
-  data?: {
-    victims: ProcessedVictimData[];
-    statistics?: VictimStatistics;
-    locations?: VictimLocation[];
-    metadata: {
-      total: number;
-      processed: number;
-      failed: number;
-      timestamp: number;
-      filters: {
-        location?: string;
-        includeStats: boolean;
-      };
+interface VictimsResponseData {
+  victims: ProjectedVictim[];
+  statistics?: VictimStatistics;
+  locations?: VictimLocation[];
+  metadata: {
+    total: number;
+    processed: number;
+    failed: number;
+    timestamp: number;
+    schema: ResponseSchema;
+    deprecation?: SchemaDeprecation;
+    pagination: PaginationMetadata;
+    sort: VictimQueryOptions['sort'];
+    fields?: VictimQueryOptions['fields'];
+    filters: VictimFilter & {
+      includeStats: boolean;
     };
   };
-  error?: {
-    message: string;
-    code: string;
-    details?: unknown;
-  };
-}
-
-/**
- * Error codes for API responses
- */
-const ERROR_CODES = {
-  FILE_NOT_FOUND: 'FILE_NOT_FOUND',
-  FILE_READ_ERROR: 'FILE_READ_ERROR',
-  INVALID_JSON: 'INVALID_JSON',
-  PROCESSING_ERROR: 'PROCESSING_ERROR',
-  VALIDATION_ERROR: 'VALIDATION_ERROR',
-  INVALID_PARAMETER: 'INVALID_PARAMETER',
-} as const;
-
-/**
- * CORS headers for API responses
- */
-const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
-  'Content-Type': 'application/json',
-} as const;
-
-/**
- * Create error response with consistent structure
- */
-function createErrorResponse(
-  message: string,
-  code: keyof typeof ERROR_CODES,
-  status: number,
-  details?: unknown
-): NextResponse<VictimsAPIResponse> {
-  return NextResponse.json(
-    {
-      success: false,
-      error: {
-        message,
-        code,
-        details,
-      },
-    },
-    {
-      status,
-      headers: CORS_HEADERS,
-    }
-  );
-}
-
-/**
- * Create success response with consistent structure
- */
-function createSuccessResponse(
-  data: VictimsAPIResponse['data']
-): NextResponse<VictimsAPIResponse> {
-  return NextResponse.json(
-    {
-      success: true,
-      data,
-    },
-    {
-      status: 200,
-      headers: CORS_HEADERS,
-    }
-  );
-}
-
-/**
- * Filter victims by location (case-insensitive, partial match)
- */
-function filterByLocation(
-  victims: ProcessedVictimData[],
-  locationQuery: string
-): ProcessedVictimData[] {
-  const normalizedQuery = locationQuery.trim().toLowerCase();
-
-  if (!normalizedQuery) {
-    return victims;
-  }
-
-  return victims.filter(victim =>
-    victim.location.toLowerCase().includes(normalizedQuery)
-  );
 }
 
 /**
  * GET handler for /api/victims
  * Supports query parameters:
  * - stats=true - Include statistics in response
- * - location=<name> - Filter by location (partial match)
+ * - schema=v1|v2 - Response schema version (v1 is deprecated, see lib/legacySchema)
+ * - startDate, endDate=<YYYY-MM-DD> - Filter by date range (inclusive)
+ * - source, type, cause=<name> - Filter by front, incident type or cause (exact match, repeatable)
+ * - location=<name> - Filter by location (partial match, repeatable)
+ * - gender=<זכר|נקבה> - Filter by gender
+ * - minAge, maxAge=<number> - Filter by age range (inclusive)
+ * - civilians=true | military=true - Include only civilians or only military personnel
+ * - sort=<key> - date, age, lastName or location; prefix with "-" for descending (default: date)
+ * - limit=<n>, offset=<n> - Return a page of the sorted results (default: all records)
+ * - fields=<a,b,c> - Include only the listed fields in each victim record
+ * - format=json|csv|geojson|ndjson - Return the page as a file download instead of the
+ *   JSON envelope (CSV uses the Hebrew headers of the source sheet; fields= applies to
+ *   GeoJSON properties and NDJSON records)
  */
 export async function GET(request: NextRequest) {
   try {
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams;
     const includeStats = searchParams.get('stats') === 'true';
-    const locationFilter = searchParams.get('location');
-
-    // Validate location parameter if provided
-    if (locationFilter !== null && typeof locationFilter !== 'string') {
-      return createErrorResponse(
-        'Invalid location parameter. Must be a string.',
-        'INVALID_PARAMETER',
-        400
-      );
-    }
-
-    // Construct path to data file (CSV format)
-    const dataFilePath = path.join(process.cwd(), 'data', 'victims.csv');
+    const schemaParam = searchParams.get('schema') || DEFAULT_RESPONSE_SCHEMA;
 
-    // Read and parse the CSV file
-    let rawVictimData: Array<Partial<VictimData>>;
+    // Parse and validate filter, sort, pagination and projection parameters
+    let filter: VictimFilter;
+    let queryOptions: VictimQueryOptions;
+    let format: ExportFormat;
     try {
-      const csvContent = await fs.readFile(dataFilePath, 'utf-8');
-      rawVictimData = parseVictimCSV(csvContent);
+      filter = parseVictimFilter(searchParams);
+      queryOptions = parseVictimQueryOptions(searchParams);
+      format = parseExportFormat(searchParams);
     } catch (error) {
-      // Check if file doesn't exist
-      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      if (error instanceof VictimFilterError) {
         return createErrorResponse(
-          `Data file not found at: ${dataFilePath}`,
-          'FILE_NOT_FOUND',
-          404,
-          { path: dataFilePath }
+          error.message,
+          'INVALID_PARAMETER',
+          400,
+          { parameter: error.parameter, value: error.value }
         );
       }
+      throw error;
+    }
 
-      // Other file read errors or parsing errors
+    // Validate schema parameter
+    if (!isResponseSchema(schemaParam)) {
       return createErrorResponse(
-        'Failed to read or parse victim data file',
-        'FILE_READ_ERROR',
-        500,
-        error instanceof Error ? error.message : 'Unknown error'
+        `Invalid schema parameter. Must be one of: ${RESPONSE_SCHEMAS.join(', ')}.`,
+        'INVALID_PARAMETER',
+        400,
+        { parameter: 'schema', value: schemaParam }
       );
     }
+    const schema: ResponseSchema = schemaParam;
 
-    // Process victim data with validation
-    const processingResult: BulkProcessingResult = processVictimDataArray(rawVictimData);
+    // Load the dataset (parsed once and cached until the CSV changes)
+    const { dataset, errorResponse } = await loadDatasetForRequest();
+    if (errorResponse) {
+      return errorResponse;
+    }
 
-    // Check if processing succeeded
-    if (!processingResult.success && processingResult.failedRecords.length === rawVictimData.length) {
-      // All records failed
-      return createErrorResponse(
-        `Failed to process any victim records. Total errors: ${processingResult.failedRecords.length}`,
-        'PROCESSING_ERROR',
-        500,
-        {
-          totalRecords: rawVictimData.length,
-          failedCount: processingResult.failedRecords.length,
-          errors: processingResult.failedRecords.slice(0, 5).map(record => ({
-            index: record.recordIndex,
-            identifier: record.recordIdentifier,
-            error: record.error.message,
-          })),
-        }
-      );
+    // Answer conditional requests when the client already has this dataset version
+    const cacheHeaders = getDatasetCacheHeaders(dataset);
+    if (isDatasetNotModified(request.headers, dataset)) {
+      return createNotModifiedResponse(cacheHeaders);
     }
 
-    // Sort victims by date (oldest to newest)
-    let processedVictims = sortVictimsByDate(processingResult.processedData);
+    // Apply filter criteria and sort (oldest to newest unless requested otherwise)
+    const isUnfiltered = Object.keys(filter).length === 0;
+    let processedVictims = applyVictimFilter(dataset.victims, filter);
+    processedVictims = sortVictims(processedVictims, queryOptions.sort);
+
+    // Map to the requested response schema (v1 keeps URL-as-source for old clients)
+    processedVictims = migrateVictimsToSchema(processedVictims, schema);
 
-    // Apply location filter if provided
-    if (locationFilter) {
-      processedVictims = filterByLocation(processedVictims, locationFilter);
+    // Select the requested page and fields (statistics below still cover all matches)
+    const { page, pagination } = paginateVictims(
+      processedVictims,
+      queryOptions.offset,
+      queryOptions.limit
+    );
+
+    // Serve the page as a file download when another format is requested
+    if (format !== 'json') {
+      const { body, contentType, filename } = exportVictims(page, format, queryOptions.fields);
+      return createDownloadResponse(body, contentType, filename, cacheHeaders);
     }
 
     // Prepare response data
-    const responseData: VictimsAPIResponse['data'] = {
-      victims: processedVictims,
+    const responseData: VictimsResponseData = {
+      victims: projectVictims(page, queryOptions.fields),
       metadata: {
-        total: rawVictimData.length,
+        total: dataset.rawRecords.length,
         processed: processedVictims.length,
-        failed: processingResult.failedRecords.length,
+        failed: dataset.processingResult.failedRecords.length,
         timestamp: Date.now(),
+        schema,
+        deprecation: getSchemaDeprecation(schema),
+        pagination,
+        sort: queryOptions.sort,
+        fields: queryOptions.fields,
         filters: {
-          location: locationFilter || undefined,
+          ...filter,
           includeStats,
         },
       },
     };
 
-    // Include statistics if requested
+    // Include statistics if requested (precomputed ones cover the unfiltered v2 dataset)
     if (includeStats) {
-      responseData.statistics = calculateVictimStatistics(processedVictims);
-      responseData.locations = groupByLocation(processedVictims);
+      const usePrecomputed = isUnfiltered && schema === 'v2';
+      responseData.statistics = usePrecomputed
+        ? dataset.statistics
+        : calculateVictimStatistics(processedVictims);
+      responseData.locations = usePrecomputed
+        ? dataset.locations
+        : groupByLocation(processedVictims);
     }
 
-    // Log warning if some records failed but not all
-    if (processingResult.failedRecords.length > 0 && processingResult.failedRecords.length < rawVictimData.length) {
-      console.warn(
-        `Warning: ${processingResult.failedRecords.length} of ${rawVictimData.length} records failed processing`,
-        {
-          failedRecords: processingResult.failedRecords.slice(0, 3),
-        }
-      );
-    }
-
-    return createSuccessResponse(responseData);
+    return createSuccessResponse(responseData, cacheHeaders);
 
   } catch (error) {
     // Catch any unexpected errors
@@ -259,8 +206,5 @@ export async function GET(request: NextRequest) {
  * OPTIONS handler for CORS preflight requests
  */
 export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: CORS_HEADERS,
-  });
-}
\ No newline at end of file
+  return createOptionsResponse();
+}
@@ -1,16 +1,69 @@
 "use client";
 
-import React, { useEffect, useMemo } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import KeplerGl from "@kepler.gl/components";
-import { addDataToMap } from "@kepler.gl/actions";
+import { addDataToMap, layerConfigChange, replaceDataInMap, setFilter } from "@kepler.gl/actions";
 import keplerGlReducer from "@kepler.gl/reducers";
-import type { ParsedConfig } from "@kepler.gl/types";
+import type { Layer } from "@kepler.gl/layers";
 import { createStore, combineReducers, applyMiddleware } from "redux";
 import { taskMiddleware } from "react-palm/tasks";
-import { Provider, useDispatch } from "react-redux";
+import { Provider, useDispatch, useSelector } from "react-redux";
 import styled from "styled-components";
-import keplerConfig from "@/data/kepler-config.json";
 import { useVictimData } from "@/hooks/useVictimData";
+import { useSelectedVictim } from "@/hooks/useSelectedVictim";
+import { useMapUrlState } from "@/hooks/useMapUrlState";
+import VictimPanel from "@/components/VictimPanel";
+import {
+  VICTIM_DATASET_ID,
+  getClickedVictimId,
+  getFilteredVictimIds,
+  type KeplerClickedInfo,
+  type KeplerDatasetLike,
+  type MapGeography,
+} from "@/lib/mapSelection";
+import {
+  LAYER_PRESETS,
+  LAYER_PRESET_LABELS,
+  createVictimLayers,
+  getLayerVisibility,
+  type LayerPreset,
+} from "@/lib/layerPresets";
+import { groupByH3Cell } from "@/lib/h3Grid";
+import { getTrajectoryOrigin } from "@/lib/frontOrigins";
+import {
+  DATE_QUALITY_FILTER_ID,
+  GEOCODE_FILTER_ID,
+  TIMELINE_FILTER_ID,
+  buildDateQualityFilter,
+  buildGeocodeFilter,
+  buildH3Dataset,
+  buildKeplerConfig,
+  buildLocationDataset,
+  buildMapState,
+  buildTimelineFilter,
+  buildVictimDataset,
+  type KeplerDataset,
+} from "@/lib/keplerConfig";
+import type { TimeWindow } from "@/lib/urlState";
+import type { Coordinates, ProcessedVictimData } from "@/types/victim";
+import { GEOCODE_STATUSES } from "@/lib/geocodingDiagnostics";
+import { DATE_QUALITIES, isPreciseDate } from "@/lib/dateParser";
+import {
+  SPIDERFY_MIN_ZOOM,
+  getLocationKey,
+  layoutPoints,
+  type LayoutPoint,
+  type PointLayout,
+  type PointLayoutOptions,
+} from "@/lib/pointLayout";
+import { calculateTimeRange, groupByLocation } from "@/lib/statistics";
+import {
+  DEFAULT_TIMELINE_WINDOW,
+  filterByTimeWindow,
+  getTimelineWindow,
+  type TimelineWindowPreset,
+} from "@/lib/timeline";
+import { exportVictims, type DownloadFormat, type VictimExport } from "@/lib/victimExport";
 
 // Styled container for the map
 const MapContainer = styled.div`
@@ -71,6 +124,170 @@ const ErrorBanner = styled.div`
   font-weight: 500;
 `;
 
+// Map display options (geography and approximate locations)
+const MapControls = styled.div`
+  position: absolute;
+  top: 1rem;
+  left: 1rem;
+  z-index: 1000;
+  display: flex;
+  flex-direction: column;
+  gap: 0.35rem;
+  padding: 0.5rem 0.75rem;
+  background-color: rgba(26, 26, 26, 0.9);
+  color: #f0f0f0;
+  border-radius: 4px;
+  direction: rtl;
+  font-size: 0.875rem;
+`;
+
+const ControlLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  cursor: pointer;
+`;
+
+// Dataset field holding the geocode status of each geography
+const GEOCODE_STATUS_FIELDS: Record<MapGeography, string> = {
+  residence: "geocodeStatus",
+  incident: "incidentGeocodeStatus",
+};
+
+// Labels of the geography options
+const GEOGRAPHY_LABELS: Record<MapGeography, string> = {
+  residence: "מקום מגורים",
+  incident: "מקום האירוע",
+};
+
+// Labels of the download formats
+const DOWNLOAD_FORMAT_LABELS: Record<DownloadFormat, string> = {
+  csv: "CSV",
+  geojson: "GeoJSON",
+  ndjson: "NDJSON",
+};
+
+/**
+ * Save an export as a file through a temporary link
+ */
+function saveExport({ body, contentType, filename }: VictimExport) {
+  const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Geocode statuses shown on the map
+ * Points at the fallback coordinates are hidden unless asked for, since their
+ * position is not real
+ */
+function getVisibleGeocodeStatuses(showApproximate: boolean) {
+  return GEOCODE_STATUSES.filter((status) => showApproximate || status !== "fallback");
+}
+
+/**
+ * Date qualities shown on the map
+ * Victims without an exact date are hidden unless asked for, since the timeline
+ * would place them on a day they did not die (the 1st of the month or October 7)
+ */
+function getVisibleDateQualities(showImpreciseDates: boolean) {
+  return DATE_QUALITIES.filter((quality) => showImpreciseDates || isPreciseDate(quality));
+}
+
+/**
+ * Geocoded coordinates of a victim at one geography, if known
+ */
+function getVictimCoordinates(victim: ProcessedVictimData, geography: MapGeography): Coordinates | undefined {
+  return geography === "incident" ? victim.incidentLocation : victim;
+}
+
+/**
+ * Victims placed at one geography, in the shape groupByLocation expects
+ * At the place of the incident, victims without one are left out
+ */
+function getVictimsAtGeography(data: ProcessedVictimData[], geography: MapGeography): ProcessedVictimData[] {
+  if (geography === "residence") {
+    return data;
+  }
+  return data.flatMap((victim) =>
+    victim.incidentLocation
+      ? [
+          {
+            ...victim,
+            location: victim.incidentLocation.name,
+            latitude: victim.incidentLocation.latitude,
+            longitude: victim.incidentLocation.longitude,
+            geocodeStatus: victim.incidentLocation.geocodeStatus,
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Victims counted by the aggregate layers: at one geography, inside the timeline
+ * window when there is one, and at the fallback coordinates or with an imprecise
+ * date only when those are shown
+ */
+function getCountedVictims(
+  data: ProcessedVictimData[],
+  geography: MapGeography,
+  timeWindow: TimeWindow | null,
+  showApproximate: boolean,
+  showImpreciseDates: boolean
+): ProcessedVictimData[] {
+  const victims = getVictimsAtGeography(data, geography).filter(
+    (victim) =>
+      (showApproximate || victim.geocodeStatus !== "fallback") &&
+      (showImpreciseDates || isPreciseDate(victim.dateQuality))
+  );
+  return timeWindow ? filterByTimeWindow(victims, timeWindow) : victims;
+}
+
+// Shortest time between two recounts; the timeline moves every frame while it plays
+const RECOUNT_INTERVAL_MS = 200;
+
+// Datasets of the aggregate presets, recounted as the timeline window moves
+const COUNT_DATASETS: Partial<Record<LayerPreset, (victims: ProcessedVictimData[]) => KeplerDataset>> = {
+  locations: (victims) => buildLocationDataset(groupByLocation(victims)),
+  h3: (victims) => buildH3Dataset(groupByH3Cell(victims)),
+};
+
+/**
+ * Drawn positions of the victims at one geography
+ * Victims sharing a location are spread around it (see lib/pointLayout)
+ */
+function layoutVictimPoints(
+  data: ProcessedVictimData[],
+  geography: MapGeography,
+  options: PointLayoutOptions
+) {
+  const points = data.flatMap((victim): LayoutPoint[] => {
+    const coordinates = getVictimCoordinates(victim, geography);
+    return coordinates
+      ? [{ id: victim.id, latitude: coordinates.latitude, longitude: coordinates.longitude }]
+      : [];
+  });
+  return layoutPoints(points, options);
+}
+
+/**
+ * Kepler.gl dataset of the victims, with the positions drawn at each geography
+ */
+function createVictimDataset(
+  data: ProcessedVictimData[],
+  options: Record<MapGeography, PointLayoutOptions>
+) {
+  return buildVictimDataset(data, {
+    residence: layoutVictimPoints(data, "residence", options.residence),
+    incident: layoutVictimPoints(data, "incident", options.incident),
+  });
+}
+
 // Create Redux store factory (per-component instance)
 const createKeplerStore = () => {
   // Initialize Kepler reducer with side panel hidden for full screen map
@@ -95,20 +312,263 @@ const createKeplerStore = () => {
   return createStore(reducers, {}, applyMiddleware(taskMiddleware));
 };
 
+// Shape of the store state read by the map (Kepler instance id "map")
+interface KeplerRootState {
+  keplerGl: {
+    map?: {
+      visState?: {
+        clicked?: KeplerClickedInfo | null;
+        datasets?: Record<string, KeplerDatasetLike>;
+        filters?: Array<{ id: string; value?: unknown }>;
+        layers?: Layer[];
+      };
+      mapState?: {
+        latitude: number;
+        longitude: number;
+        zoom: number;
+      };
+    };
+  };
+}
+
+// Group of co-located victims fanned out after a click
+interface SpiderfiedGroup {
+  geography: MapGeography;
+  locationKey: string;
+  zoom: number;
+}
+
 interface KeplerMapInnerProps {
   mapboxToken: string | undefined;
+  timelineWindow: TimelineWindowPreset;
 }
 
 /**
  * Inner component that uses the Redux store
  * Loads the Kepler.gl configuration and initializes the map with victim data
  */
-function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
+function KeplerMapInner({ mapboxToken, timelineWindow }: KeplerMapInnerProps) {
   const dispatch = useDispatch();
+  const { initialState, syncMapUrlState } = useMapUrlState();
   const { data, loading, error } = useVictimData({
     includeStats: false,
+    filter: initialState.filter,
     autoFetch: true
   });
+  const { selectedId, selectVictim } = useSelectedVictim();
+
+  // Open the memorial card when a victim point is clicked
+  const clicked = useSelector((state: KeplerRootState) => state.keplerGl.map?.visState?.clicked);
+  const victimsDataset = useSelector(
+    (state: KeplerRootState) => state.keplerGl.map?.visState?.datasets?.[VICTIM_DATASET_ID]
+  );
+
+  useEffect(() => {
+    const victimId = getClickedVictimId(clicked, victimsDataset);
+    if (victimId) {
+      selectVictim(victimId);
+    }
+  }, [clicked, victimsDataset, selectVictim]);
+
+  // Write the view, timeline window and display options to the URL once the data is on the map
+  const isHydrated = useRef(false);
+  const latitude = useSelector((state: KeplerRootState) => state.keplerGl.map?.mapState?.latitude);
+  const longitude = useSelector((state: KeplerRootState) => state.keplerGl.map?.mapState?.longitude);
+  const zoom = useSelector((state: KeplerRootState) => state.keplerGl.map?.mapState?.zoom);
+  const timelineValue = useSelector(
+    (state: KeplerRootState) =>
+      state.keplerGl.map?.visState?.filters?.find((filter) => filter.id === TIMELINE_FILTER_ID)?.value
+  );
+
+  // Draw the points at the place of residence or, when recorded, the place of the incident
+  const [geography, setGeography] = useState<MapGeography>(initialState.display.geography);
+  const geographyRef = useRef(geography);
+
+  // Draw the victims with the layer preset picked by the user
+  const [layerPreset, setLayerPreset] = useState<LayerPreset>(initialState.display.layerPreset);
+  const layerPresetRef = useRef(layerPreset);
+
+  // Optionally draw rocket, missile and drone deaths as arcs from their front
+  const [showTrajectories, setShowTrajectories] = useState(initialState.display.showTrajectories);
+  const showTrajectoriesRef = useRef(showTrajectories);
+  const trajectoryCount = useMemo(
+    () => data?.filter((victim) => getTrajectoryOrigin(victim)).length ?? 0,
+    [data]
+  );
+  const hasIncidentLocations = useMemo(
+    () => data?.some((victim) => victim.incidentLocation) ?? false,
+    [data]
+  );
+  const layers = useSelector((state: KeplerRootState) => state.keplerGl.map?.visState?.layers);
+
+  useEffect(() => {
+    geographyRef.current = geography;
+    layerPresetRef.current = layerPreset;
+    showTrajectoriesRef.current = showTrajectories;
+    const visibility = getLayerVisibility(layerPreset, geography, showTrajectories);
+    layers?.forEach((layer) => {
+      const isVisible = visibility[layer.id];
+      if (isVisible !== undefined && layer.config.isVisible !== isVisible) {
+        dispatch(layerConfigChange(layer, { isVisible }));
+      }
+    });
+  }, [dispatch, geography, layerPreset, showTrajectories, layers]);
+
+  // Show or hide victims whose location could not be geocoded
+  const [showApproximate, setShowApproximate] = useState(initialState.display.showApproximate);
+  const showApproximateRef = useRef(showApproximate);
+  const approximateCount = useMemo(
+    () =>
+      data?.filter((victim) =>
+        geography === "incident"
+          ? victim.incidentLocation?.geocodeStatus === "fallback"
+          : victim.geocodeStatus === "fallback"
+      ).length ?? 0,
+    [data, geography]
+  );
+  const geocodeFilterIndex = useSelector(
+    (state: KeplerRootState) =>
+      state.keplerGl.map?.visState?.filters?.findIndex((filter) => filter.id === GEOCODE_FILTER_ID) ?? -1
+  );
+
+  useEffect(() => {
+    showApproximateRef.current = showApproximate;
+    if (geocodeFilterIndex >= 0) {
+      // Changing the field resets the filter value, so set both
+      dispatch(setFilter(geocodeFilterIndex, "name", GEOCODE_STATUS_FIELDS[geography]));
+      dispatch(setFilter(geocodeFilterIndex, "value", getVisibleGeocodeStatuses(showApproximate)));
+    }
+  }, [dispatch, showApproximate, geography, geocodeFilterIndex]);
+
+  // Show or hide victims whose date is partial, missing or could not be read
+  const [showImpreciseDates, setShowImpreciseDates] = useState(initialState.display.showImpreciseDates);
+  const showImpreciseDatesRef = useRef(showImpreciseDates);
+  const impreciseDateCount = useMemo(
+    () => data?.filter((victim) => !isPreciseDate(victim.dateQuality)).length ?? 0,
+    [data]
+  );
+  const dateQualityFilterIndex = useSelector(
+    (state: KeplerRootState) =>
+      state.keplerGl.map?.visState?.filters?.findIndex((filter) => filter.id === DATE_QUALITY_FILTER_ID) ?? -1
+  );
+
+  useEffect(() => {
+    showImpreciseDatesRef.current = showImpreciseDates;
+    if (dateQualityFilterIndex >= 0) {
+      dispatch(setFilter(dateQualityFilterIndex, "value", getVisibleDateQualities(showImpreciseDates)));
+    }
+  }, [dispatch, showImpreciseDates, dateQualityFilterIndex]);
+
+  // Spread victims who share a location around it, or draw them at the exact coordinates
+  const [pointLayout, setPointLayout] = useState<PointLayout>(initialState.display.pointLayout);
+  const [spiderfied, setSpiderfied] = useState<SpiderfiedGroup | null>(null);
+  const layoutOptions = useMemo(
+    (): Record<MapGeography, PointLayoutOptions> => ({
+      residence: { layout: pointLayout, spiderfy: spiderfied?.geography === "residence" ? spiderfied : null },
+      incident: { layout: pointLayout, spiderfy: spiderfied?.geography === "incident" ? spiderfied : null },
+    }),
+    [pointLayout, spiderfied]
+  );
+  const layoutOptionsRef = useRef(layoutOptions);
+  const dispatchedData = useRef<ProcessedVictimData[] | null>(null);
+
+  useEffect(() => {
+    if (!isHydrated.current || latitude === undefined || longitude === undefined || zoom === undefined) {
+      return;
+    }
+    syncMapUrlState({
+      view: { latitude, longitude, zoom },
+      timeWindow: Array.isArray(timelineValue) ? (timelineValue as TimeWindow) : undefined,
+      display: { layerPreset, geography, pointLayout, showApproximate, showImpreciseDates, showTrajectories },
+    });
+  }, [
+    latitude,
+    longitude,
+    zoom,
+    timelineValue,
+    layerPreset,
+    geography,
+    pointLayout,
+    showApproximate,
+    showImpreciseDates,
+    showTrajectories,
+    syncMapUrlState,
+  ]);
+
+  // Download the victims that pass the current map filters
+  const [downloadFormat, setDownloadFormat] = useState<DownloadFormat>("csv");
+  const handleDownload = () => {
+    const visibleIds = new Set(getFilteredVictimIds(victimsDataset));
+    const victims = data?.filter((victim) => visibleIds.has(victim.id)) ?? [];
+    saveExport(exportVictims(victims, downloadFormat));
+  };
+
+  // When zoomed in, clicking a victim fans out the victims at the same place
+  useEffect(() => {
+    const victimId = getClickedVictimId(clicked, victimsDataset);
+    const victim = victimId ? data?.find((candidate) => candidate.id === victimId) : undefined;
+    const coordinates = victim && getVictimCoordinates(victim, geography);
+    if (!coordinates || zoom === undefined || zoom < SPIDERFY_MIN_ZOOM) {
+      return;
+    }
+    const locationKey = getLocationKey(coordinates);
+    setSpiderfied((current) =>
+      current?.geography === geography && current.locationKey === locationKey
+        ? current
+        : { geography, locationKey, zoom }
+    );
+  }, [clicked, victimsDataset, data, geography, zoom]);
+
+  useEffect(() => {
+    if (zoom !== undefined && zoom < SPIDERFY_MIN_ZOOM) {
+      setSpiderfied(null);
+    }
+  }, [zoom]);
+
+  // Recount the victims per location or H3 cell as the timeline window moves, at most
+  // once per RECOUNT_INTERVAL_MS; the last window is always counted
+  const lastRecount = useRef(0);
+  useEffect(() => {
+    const createDataset = COUNT_DATASETS[layerPreset];
+    if (!createDataset || !data || dispatchedData.current !== data || !Array.isArray(timelineValue)) {
+      return;
+    }
+    const recount = () => {
+      lastRecount.current = Date.now();
+      const dataset = createDataset(
+        getCountedVictims(data, geography, timelineValue as TimeWindow, showApproximate, showImpreciseDates)
+      );
+      dispatch(
+        replaceDataInMap({
+          datasetToReplaceId: dataset.info.id,
+          datasetToUse: dataset,
+          options: { centerMap: false, keepExistingConfig: true },
+        })
+      );
+    };
+    const wait = lastRecount.current + RECOUNT_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      recount();
+      return;
+    }
+    const timer = setTimeout(recount, wait);
+    return () => clearTimeout(timer);
+  }, [dispatch, data, layerPreset, geography, showApproximate, showImpreciseDates, timelineValue]);
+
+  // Redraw the points in place, keeping the layers, filters and view
+  useEffect(() => {
+    layoutOptionsRef.current = layoutOptions;
+    if (!data || dispatchedData.current !== data) {
+      return;
+    }
+    dispatch(
+      replaceDataInMap({
+        datasetToReplaceId: VICTIM_DATASET_ID,
+        datasetToUse: createVictimDataset(data, layoutOptions),
+        options: { centerMap: false, keepExistingConfig: true },
+      })
+    );
+  }, [dispatch, data, layoutOptions]);
 
   useEffect(() => {
     // Load the configuration and data when component mounts
@@ -116,163 +576,61 @@ function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
     // including map state (Israel coordinates), theme, layers, and filters
     // and adds the victim data to the map
     try {
-      if (!keplerConfig?.config) {
-        console.error('Invalid Kepler.gl configuration');
-        return;
-      }
-
       // If we have data, add it to the map
       if (data && data.length > 0) {
         // Transform victim data to Kepler.gl dataset format
-        const dataset = {
-          info: {
-            id: 'victims',
-            label: 'October 7th Victims',
-          },
-          data: {
-            fields: [
-              { name: 'id', type: 'string' },
-              { name: 'fullName', type: 'string' },
-              { name: 'firstName', type: 'string' },
-              { name: 'lastName', type: 'string' },
-              { name: 'age', type: 'integer' },
-              { name: 'gender', type: 'string' },
-              { name: 'location', type: 'string' },
-              { name: 'latitude', type: 'real' },
-              { name: 'longitude', type: 'real' },
-              { name: 'date', type: 'date' },
-              { name: 'timestamp', type: 'timestamp' },
-              { name: 'source', type: 'string' },
-              { name: 'type', type: 'string' },
-              { name: 'rank', type: 'string' },
-              { name: 'isCivilian', type: 'boolean' },
-              { name: 'url', type: 'string' },
-            ],
-            rows: data.map(victim => [
-              victim.id,
-              victim.fullName,
-              victim.firstName,
-              victim.lastName,
-              victim.age,
-              victim.gender,
-              victim.location,
-              victim.latitude,
-              victim.longitude,
-              victim.date,
-              victim.timestamp,
-              victim.source,
-              victim.type,
-              victim.rank,
-              victim.isCivilian,
-              victim.url,
-            ]),
-          },
-        };
-
-        // Configure the point layer and timeline filter
-        const config = {
-          ...(keplerConfig.config as unknown as ParsedConfig),
-          visState: {
-            ...(keplerConfig.config as any).visState,
-            filters: [
-              {
-                dataId: ['victims'],
-                id: 'timeline',
-                name: ['timestamp'],
-                type: 'timeRange',
-                value: [1696636800000, 1728259200000],
-                plotType: {
-                  interval: '1-month',
-                  defaultTimeFormat: 'YYYY-MM-DD',
-                  type: 'histogram',
-                  aggregation: 'sum'
-                },
-                animationWindow: 'free',
-                yAxis: null,
-                view: 'enlarged',
-                speed: 1,
-                enabled: true
-              }
-            ],
-            layers: [
-              {
-                id: 'victims-layer',
-                type: 'point',
-                config: {
-                  dataId: 'victims',
-                  label: 'Victims',
-                  color: [230, 0, 0], // Red color #E60000
-                  columns: {
-                    lat: 'latitude',
-                    lng: 'longitude',
-                  },
-                  isVisible: true,
-                  visConfig: {
-                    radius: 22,
-                    fixedRadius: false,
-                    opacity: 0.8,
-                    outline: true,
-                    thickness: 2,
-                    strokeColor: [255, 255, 255],
-                    colorRange: {
-                      name: 'Red Memorial Scale',
-                      type: 'sequential',
-                      category: 'Custom',
-                      colors: ['#FF0000', '#E60000', '#CC0000', '#B30000', '#990000'],
-                    },
-                    strokeColorRange: {
-                      name: 'Global Warming',
-                      type: 'sequential',
-                      category: 'Uber',
-                      colors: ['#E60000', '#FF0000', '#FF4444'],
-                    },
-                    radiusRange: [10, 30],
-                    filled: true,
-                  },
-                  hidden: false,
-                  textLabel: [
-                    {
-                      field: null,
-                      color: [255, 255, 255],
-                      size: 18,
-                      offset: [0, 0],
-                      anchor: 'start',
-                      alignment: 'center',
-                    },
-                  ],
-                },
-                visualChannels: {
-                  colorField: {
-                    name: 'type',
-                    type: 'string',
-                  },
-                  colorScale: 'ordinal',
-                  strokeColorField: null,
-                  strokeColorScale: 'quantile',
-                  sizeField: null,
-                  sizeScale: 'linear',
-                },
-              },
-            ],
-          },
-        };
+        const dataset = createVictimDataset(data, layoutOptionsRef.current);
+
+        // Timeline bounds and histogram interval follow the data's date range; without
+        // a dated victim there is no timeline filter and every victim is shown
+        const timeRange = calculateTimeRange(data);
+        const timeWindow = timeRange && (initialState.timeWindow ?? getTimelineWindow(timeRange, timelineWindow));
+        const countedVictims = getCountedVictims(
+          data,
+          geographyRef.current,
+          timeWindow,
+          showApproximateRef.current,
+          showImpreciseDatesRef.current
+        );
+        const datasets = [
+          dataset,
+          ...Object.values(COUNT_DATASETS).map((createDataset) => createDataset(countedVictims)),
+        ];
+
+        // Configure the layers and filters, restoring the view from the URL
+        const config = buildKeplerConfig({
+          datasets,
+          mapState: buildMapState(initialState.view),
+          filters: [
+            ...(timeRange && timeWindow ? [buildTimelineFilter(timeRange, timeWindow)] : []),
+            buildGeocodeFilter(
+              GEOCODE_STATUS_FIELDS[geographyRef.current],
+              getVisibleGeocodeStatuses(showApproximateRef.current)
+            ),
+            buildDateQualityFilter(getVisibleDateQualities(showImpreciseDatesRef.current)),
+          ],
+          layers: createVictimLayers(layerPresetRef.current, geographyRef.current, showTrajectoriesRef.current),
+        });
 
         dispatch(
           addDataToMap({
-            datasets: [dataset],
-            config: config,
+            datasets,
+            config,
             options: {
-              centerMap: true,
+              // Keep a shared view instead of fitting the map to the data
+              centerMap: !initialState.view,
               readOnly: false,
             },
           })
         );
+        isHydrated.current = true;
+        dispatchedData.current = data;
       } else if (!loading && !error) {
         // No data yet, just load the config
         dispatch(
           addDataToMap({
             datasets: [],
-            config: keplerConfig.config as unknown as ParsedConfig,
+            config: buildKeplerConfig(),
             options: {
               centerMap: true,
             },
@@ -282,7 +640,7 @@ function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
     } catch (error) {
       console.error('Failed to initialize Kepler.gl:', error);
     }
-  }, [dispatch, data, loading, error]);
+  }, [dispatch, data, loading, error, initialState, timelineWindow]);
 
   return (
     <MapContainer>
@@ -302,10 +660,105 @@ function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
         width={undefined}
         height={undefined}
       />
+      {data && data.length > 0 && (
+        <MapControls>
+          <ControlLabel>
+            שכבה
+            <select
+              value={layerPreset}
+              onChange={(event) => setLayerPreset(event.target.value as LayerPreset)}
+            >
+              {LAYER_PRESETS.map((option) => (
+                <option key={option} value={option}>
+                  {LAYER_PRESET_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </ControlLabel>
+          {hasIncidentLocations &&
+            (Object.keys(GEOGRAPHY_LABELS) as MapGeography[]).map((option) => (
+              <ControlLabel key={option}>
+                <input
+                  type="radio"
+                  name="geography"
+                  checked={geography === option}
+                  onChange={() => setGeography(option)}
+                />
+                {GEOGRAPHY_LABELS[option]}
+              </ControlLabel>
+            ))}
+          {approximateCount > 0 && (
+            <ControlLabel>
+              <input
+                type="checkbox"
+                checked={showApproximate}
+                onChange={(event) => setShowApproximate(event.target.checked)}
+              />
+              הצגת נופלים ללא מיקום מדויק ({approximateCount})
+            </ControlLabel>
+          )}
+          {impreciseDateCount > 0 && (
+            <ControlLabel>
+              <input
+                type="checkbox"
+                checked={showImpreciseDates}
+                onChange={(event) => setShowImpreciseDates(event.target.checked)}
+              />
+              הצגת נופלים ללא תאריך מדויק ({impreciseDateCount})
+            </ControlLabel>
+          )}
+          {trajectoryCount > 0 && (
+            <ControlLabel>
+              <input
+                type="checkbox"
+                checked={showTrajectories}
+                onChange={(event) => setShowTrajectories(event.target.checked)}
+              />
+              מסלולי רקטות, טילים וכטב&quot;מים ({trajectoryCount})
+            </ControlLabel>
+          )}
+          <ControlLabel>
+            <input
+              type="checkbox"
+              checked={pointLayout === "exact"}
+              onChange={(event) => setPointLayout(event.target.checked ? "exact" : "spread")}
+            />
+            הצגה בקואורדינטות המדויקות (ללא פיזור)
+          </ControlLabel>
+          <ControlLabel as="div">
+            <select
+              aria-label="פורמט הורדה"
+              value={downloadFormat}
+              onChange={(event) => setDownloadFormat(event.target.value as DownloadFormat)}
+            >
+              {(Object.keys(DOWNLOAD_FORMAT_LABELS) as DownloadFormat[]).map((option) => (
+                <option key={option} value={option}>
+                  {DOWNLOAD_FORMAT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <button type="button" onClick={handleDownload} disabled={!victimsDataset}>
+              הורדת הנופלים המוצגים
+            </button>
+          </ControlLabel>
+        </MapControls>
+      )}
+      {selectedId && (
+        <VictimPanel
+          victimId={selectedId}
+          onSelect={selectVictim}
+          onClose={() => selectVictim(null)}
+        />
+      )}
     </MapContainer>
   );
 }
 
+interface KeplerMapProps {
+  /** Initial timeline window (a window in the URL takes precedence) */
+  timelineWindow?: TimelineWindowPreset;
+}
+
 /**
  * KeplerMap Component
  *
@@ -314,8 +767,20 @@ function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
  * Features:
  * - Pre-configured for Israel map (lat: 31.5, lng: 34.9, zoom: 7)
  * - Dark theme styling from kepler-config.json
- * - Timeline filter and victim layer configuration
+ * - Timeline filter spanning the data's date range, and victim layer configuration
  * - Interactive tooltips and controls
+ * - Memorial side panel for the clicked victim (deep-linkable via ?victim=<id>)
+ * - Points at the place of residence, or at the place of the incident when the data has it
+ * - Victims whose location could not be geocoded are hidden behind a toggle
+ * - Layer picker: individual points, per-location circles sized by the victim count
+ *   in the timeline window, heatmap, hexbin or H3 grid (presets in lib/layerPresets)
+ * - Optional arcs from the front's launch area to rocket, missile and drone victims
+ * - Victims sharing a location are spread around it (toggle for exact coordinates);
+ *   when zoomed in, clicking one fans out the group
+ * - View, timeline window and filters kept in the URL for shareable links
+ *
+ * Props:
+ * - timelineWindow: initial timeline window - "first48h", "firstMonth" or "all" (default)
  *
  * Environment Variables Required:
  * - NEXT_PUBLIC_MAPBOX_TOKEN: Mapbox API access token
@@ -329,7 +794,7 @@ function KeplerMapInner({ mapboxToken }: KeplerMapInnerProps) {
  * }
  * ```
  */
-export default function KeplerMap() {
+export default function KeplerMap({ timelineWindow = DEFAULT_TIMELINE_WINDOW }: KeplerMapProps = {}) {
   // Create store per component instance to prevent state leakage in Next.js App Router
   const store = useMemo(() => createKeplerStore(), []);
 
@@ -346,7 +811,7 @@ export default function KeplerMap() {
           your Mapbox token to the .env.local file.
         </WarningBanner>
       )}
-      <KeplerMapInner mapboxToken={mapboxToken} />
+      <KeplerMapInner mapboxToken={mapboxToken} timelineWindow={timelineWindow} />
     </Provider>
   );
 }
@@ -0,0 +1,226 @@
+"use client";
+
+import React from "react";
+import styled from "styled-components";
+import { useVictimDetail, type RelatedVictimGroup } from "@/hooks/useVictimDetail";
+import { hasSheetDate } from "@/lib/dateParser";
+import type { DateQuality } from "@/types/victim";
+
+// Side panel docked to the right edge of the map (RTL)
+const Panel = styled.aside`
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  width: 360px;
+  max-width: 100%;
+  overflow-y: auto;
+  background-color: rgba(26, 26, 26, 0.95);
+  color: #f0f0f0;
+  z-index: 1000;
+  padding: 1.5rem 1.25rem;
+  box-shadow: -2px 0 12px rgba(0, 0, 0, 0.5);
+  direction: rtl;
+  text-align: right;
+`;
+
+const CloseButton = styled.button`
+  position: absolute;
+  top: 0.75rem;
+  left: 0.75rem;
+  background: none;
+  border: none;
+  color: #f0f0f0;
+  font-size: 1.5rem;
+  line-height: 1;
+  cursor: pointer;
+`;
+
+// Memorial card
+const Card = styled.section`
+  border-right: 4px solid #e60000;
+  padding-right: 1rem;
+  margin-bottom: 1.5rem;
+`;
+
+const Name = styled.h2`
+  margin: 0 0 0.75rem;
+  font-size: 1.5rem;
+  font-weight: 600;
+`;
+
+const Details = styled.dl`
+  display: grid;
+  grid-template-columns: auto 1fr;
+  gap: 0.35rem 0.75rem;
+  margin: 0 0 1rem;
+
+  dt {
+    color: #9a9a9a;
+  }
+
+  dd {
+    margin: 0;
+  }
+`;
+
+const ArticleLink = styled.a`
+  color: #ff6b6b;
+`;
+
+const RelatedSection = styled.section`
+  margin-bottom: 1.25rem;
+
+  h3 {
+    font-size: 1rem;
+    margin: 0 0 0.5rem;
+  }
+
+  ul {
+    list-style: none;
+    margin: 0;
+    padding: 0;
+  }
+`;
+
+const RelatedButton = styled.button`
+  width: 100%;
+  padding: 0.35rem 0;
+  background: none;
+  border: none;
+  border-bottom: 1px solid #333;
+  color: inherit;
+  text-align: right;
+  cursor: pointer;
+
+  &:hover {
+    color: #ff6b6b;
+  }
+`;
+
+const Muted = styled.span`
+  color: #9a9a9a;
+  font-size: 0.875rem;
+`;
+
+/**
+ * Format an ISO date (YYYY-MM-DD) as DD/MM/YYYY, or MM/YYYY for a partial date
+ * Missing and defaulted dates are shown as unknown rather than as October 7
+ */
+function formatDate(isoDate: string | undefined, quality: DateQuality = "exact"): string {
+  if (!hasSheetDate(quality)) {
+    return "תאריך לא ידוע";
+  }
+  if (!isoDate) {
+    return "";
+  }
+  const [year, month, day] = isoDate.split("-");
+  return quality === "partial" ? `${month}/${year}` : `${day}/${month}/${year}`;
+}
+
+interface RelatedListProps {
+  title: string;
+  group: RelatedVictimGroup;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * List of related victims; each entry selects that victim
+ */
+function RelatedList({ title, group, onSelect }: RelatedListProps) {
+  if (group.total === 0) {
+    return null;
+  }
+
+  return (
+    <RelatedSection>
+      <h3>
+        {title} ({group.total})
+      </h3>
+      <ul>
+        {group.victims.map((related) => (
+          <li key={related.id}>
+            <RelatedButton type="button" onClick={() => related.id && onSelect(related.id)}>
+              {related.fullName}{" "}
+              <Muted>
+                {related.location} · {formatDate(related.date, related.dateQuality)}
+              </Muted>
+            </RelatedButton>
+          </li>
+        ))}
+      </ul>
+      {group.total > group.victims.length && (
+        <Muted>ועוד {group.total - group.victims.length}</Muted>
+      )}
+    </RelatedSection>
+  );
+}
+
+interface VictimPanelProps {
+  /** Id of the victim to show */
+  victimId: string;
+  /** Select another victim (from the related lists) */
+  onSelect: (id: string) => void;
+  /** Close the panel */
+  onClose: () => void;
+}
+
+/**
+ * VictimPanel Component
+ *
+ * RTL side panel with a memorial card for one victim (name, rank, age,
+ * residence, date, cause and article link) and the other victims from the
+ * same place and the same date.
+ */
+export default function VictimPanel({ victimId, onSelect, onClose }: VictimPanelProps) {
+  const { victim, related, loading, error } = useVictimDetail(victimId);
+
+  return (
+    <Panel dir="rtl" lang="he" aria-label="פרטי הנופל">
+      <CloseButton type="button" onClick={onClose} aria-label="סגירה">
+        ×
+      </CloseButton>
+
+      {loading && <Muted>טוען...</Muted>}
+      {error && <Muted>{error.message}</Muted>}
+
+      {victim && (
+        <Card>
+          <Name>{victim.fullName} ז&quot;ל</Name>
+          <Details>
+            {victim.rank && victim.rank !== "-" && (
+              <>
+                <dt>דרגה</dt>
+                <dd>{victim.rank}</dd>
+              </>
+            )}
+            <dt>גיל</dt>
+            <dd>{victim.age ?? "לא ידוע"}</dd>
+            <dt>מקום מגורים</dt>
+            <dd>{victim.location}</dd>
+            <dt>תאריך</dt>
+            <dd>{formatDate(victim.date, victim.dateQuality)}</dd>
+            {victim.causeOfDeath && victim.causeOfDeath !== "-" && (
+              <>
+                <dt>נסיבות</dt>
+                <dd>{victim.causeOfDeath}</dd>
+              </>
+            )}
+          </Details>
+          {victim.hasUrl && (
+            <ArticleLink href={victim.url} target="_blank" rel="noopener noreferrer">
+              לכתבה המלאה
+            </ArticleLink>
+          )}
+        </Card>
+      )}
+
+      {victim && related && (
+        <>
+          <RelatedList title={`עוד מ${victim.location}`} group={related.sameLocation} onSelect={onSelect} />
+          <RelatedList title="נפלו באותו יום" group={related.sameDate} onSelect={onSelect} />
+        </>
+      )}
+    </Panel>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Custom React hook for the shareable map state in the URL
+ * Reads the view, timeline window, display options and filters once on load
+ * and writes view, timeline and display changes back to the URL (debounced)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  parseMapUrlState,
+  replaceMapUrlState,
+  type MapDisplayState,
+  type MapUrlState,
+  type MapViewState,
+  type TimeWindow,
+} from '@/lib/urlState';
+
+/**
+ * Delay before writing view changes, so panning doesn't flood the history API
+ */
+const URL_WRITE_DELAY_MS = 500;
+
+/**
+ * Hook return value
+ */
+interface UseMapUrlStateReturn {
+  /** State encoded in the URL when the page was loaded */
+  initialState: MapUrlState;
+  /** Write the current view, timeline window and display options to the URL */
+  syncMapUrlState: (state: {
+    view?: MapViewState;
+    timeWindow?: TimeWindow;
+    display: MapDisplayState;
+  }) => void;
+}
+
+/**
+ * Custom hook for round-tripping map state through the URL query
+ *
+ * @returns The state to hydrate the map with, and a debounced writer
+ *
+ * @example
+ * ```tsx
+ * const { initialState, syncMapUrlState } = useMapUrlState();
+ * useEffect(() => syncMapUrlState({ view, timeWindow, display }), [view, timeWindow, display]);
+ * ```
+ */
+export function useMapUrlState(): UseMapUrlStateReturn {
+  const searchParams = useSearchParams();
+  const [initialState] = useState<MapUrlState>(() =>
+    parseMapUrlState(new URLSearchParams(searchParams?.toString()))
+  );
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const syncMapUrlState = useCallback<UseMapUrlStateReturn['syncMapUrlState']>((state) => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      replaceMapUrlState(state);
+    }, URL_WRITE_DELAY_MS);
+  }, []);
+
+  // Drop a pending write when the map unmounts
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    initialState,
+    syncMapUrlState,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Custom React hook for the selected victim
+ * Keeps the selection in sync with the ?victim=<id> query parameter so a
+ * memorial card can be shared as a link
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { getVictimIdParam, replaceMapUrlState } from '@/lib/urlState';
+
+/**
+ * Hook return value
+ */
+interface UseSelectedVictimReturn {
+  /** Id of the selected victim, or null */
+  selectedId: string | null;
+  /** Select a victim (null clears the selection) and update the URL */
+  selectVictim: (id: string | null) => void;
+}
+
+/**
+ * Custom hook for the selected victim, initialized from ?victim=<id>
+ *
+ * @returns The selected id and a setter that also updates the URL
+ *
+ * @example
+ * ```tsx
+ * const { selectedId, selectVictim } = useSelectedVictim();
+ * <button onClick={() => selectVictim(null)}>Close</button>
+ * ```
+ */
+export function useSelectedVictim(): UseSelectedVictimReturn {
+  const searchParams = useSearchParams();
+  const [selectedId, setSelectedId] = useState<string | null>(() => getVictimIdParam(searchParams));
+
+  const selectVictim = useCallback((id: string | null) => {
+    setSelectedId(id);
+    replaceMapUrlState({ victimId: id });
+  }, []);
+
+  return {
+    selectedId,
+    selectVictim,
+  };
+}
@@ -6,7 +6,16 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import type { ProcessedVictimData, VictimLocation, VictimStatistics } from '@/types/victim';
+import type {
+  ProcessedVictimData,
+  VictimFilter,
+  VictimLocation,
+  VictimStatistics,
+} from '@/types/victim';
+import type { ResponseSchema, SchemaDeprecation } from '@/lib/legacySchema';
+import type { VictimSortKey } from '@/lib/dataProcessing';
+import type { PaginationMetadata, ProjectableField, ProjectedVictim } from '@/lib/victimQuery';
+import { victimFilterToSearchParams } from '@/lib/victimFilter';
 
 /**
  * API Response structure matching the /api/victims endpoint
@@ -14,7 +23,7 @@ import type { ProcessedVictimData, VictimLocation, VictimStatistics } from '@/ty
 interface VictimsAPIResponse {
   success: boolean;
   data?: {
-    victims: ProcessedVictimData[];
+    victims: ProjectedVictim[];
     statistics?: VictimStatistics;
     locations?: VictimLocation[];
     metadata: {
@@ -22,8 +31,12 @@ interface VictimsAPIResponse {
       processed: number;
       failed: number;
       timestamp: number;
-      filters: {
-        location?: string;
+      schema: ResponseSchema;
+      deprecation?: SchemaDeprecation;
+      pagination: PaginationMetadata;
+      sort: VictimSortKey;
+      fields?: ProjectableField[];
+      filters: VictimFilter & {
         includeStats: boolean;
       };
     };
@@ -43,26 +56,41 @@ interface UseVictimDataOptions {
   includeStats?: boolean;
   /** Filter by location (partial match) */
   location?: string;
+  /** Filter by cause of death (exact match) */
+  cause?: string;
+  /** Structured filter criteria, sent as query parameters */
+  filter?: VictimFilter;
+  /** Sort order (e.g. "date", "-date", "age", "lastName") */
+  sort?: VictimSortKey;
+  /** Page size; when set, further pages are loaded with fetchNextPage */
+  limit?: number;
+  /** Fields to include in each record; omitted fields are absent from the returned objects */
+  fields?: ProjectableField[];
   /** Automatically fetch on mount */
   autoFetch?: boolean;
 }
 
 /**
  * Hook return value
+ * Records hold only the requested fields when fields is set
  */
-interface UseVictimDataReturn {
-  /** Array of processed victim data */
-  data: ProcessedVictimData[] | null;
+interface UseVictimDataReturn<TVictim = ProcessedVictimData> {
+  /** Array of victim records */
+  data: TVictim[] | null;
   /** Victim statistics (if includeStats was true) */
   statistics: VictimStatistics | null;
   /** Victim locations grouped (if includeStats was true) */
   locations: VictimLocation[] | null;
   /** Loading state */
   loading: boolean;
-  /** Error state */
+  /** Error state (a failed next page keeps the loaded data, so it can be retried) */
   error: Error | null;
   /** Function to manually refetch data */
   refetch: () => Promise<void>;
+  /** Load the next page and append it to data (no-op when there are no more pages) */
+  fetchNextPage: () => Promise<void>;
+  /** Whether more pages are available */
+  hasNextPage: boolean;
   /** Metadata about the response */
   metadata: NonNullable<VictimsAPIResponse['data']>['metadata'] | null;
 }
@@ -94,10 +122,29 @@ interface UseVictimDataReturn {
  * }
  * ```
  */
-export function useVictimData(options: UseVictimDataOptions = {}): UseVictimDataReturn {
-  const { includeStats = false, location, autoFetch = true } = options;
+export function useVictimData<TField extends ProjectableField>(
+  options: UseVictimDataOptions & { fields: TField[] }
+): UseVictimDataReturn<Pick<ProcessedVictimData, TField>>;
+export function useVictimData(
+  options?: UseVictimDataOptions & { fields?: undefined }
+): UseVictimDataReturn;
+export function useVictimData(options: UseVictimDataOptions = {}): UseVictimDataReturn<ProjectedVictim> {
+  const {
+    includeStats = false,
+    location,
+    cause,
+    filter,
+    sort,
+    limit,
+    fields,
+    autoFetch = true,
+  } = options;
 
-  const [data, setData] = useState<ProcessedVictimData[] | null>(null);
+  // Serialize the filter so a new object with the same criteria doesn't trigger a refetch
+  const filterQuery = filter ? victimFilterToSearchParams(filter).toString() : '';
+  const fieldsQuery = fields ? fields.join(',') : '';
+
+  const [data, setData] = useState<ProjectedVictim[] | null>(null);
   const [statistics, setStatistics] = useState<VictimStatistics | null>(null);
   const [locations, setLocations] = useState<VictimLocation[] | null>(null);
   const [metadata, setMetadata] = useState<NonNullable<VictimsAPIResponse['data']>['metadata'] | null>(null);
@@ -105,24 +152,42 @@ export function useVictimData(options: UseVictimDataOptions = {}): UseVictimData
   const [error, setError] = useState<Error | null>(null);
 
   /**
-   * Fetch data from the API
+   * Fetch a page of data from the API
+   * The first page replaces existing data; later pages are appended
    */
-  const fetchData = useCallback(async () => {
+  const fetchData = useCallback(async (offset: number = 0) => {
     setLoading(true);
     setError(null);
 
     try {
       // Build query parameters
       const params = new URLSearchParams();
+      params.append('schema', 'v2');
       if (includeStats) {
         params.append('stats', 'true');
       }
       if (location) {
         params.append('location', location);
       }
+      if (cause) {
+        params.append('cause', cause);
+      }
+      new URLSearchParams(filterQuery).forEach((value, key) => params.append(key, value));
+      if (sort) {
+        params.append('sort', sort);
+      }
+      if (limit !== undefined) {
+        params.append('limit', String(limit));
+      }
+      if (offset > 0) {
+        params.append('offset', String(offset));
+      }
+      if (fieldsQuery) {
+        params.append('fields', fieldsQuery);
+      }
 
       // Construct URL
-      const url = `/api/victims${params.toString() ? `?${params.toString()}` : ''}`;
+      const url = `/api/victims?${params.toString()}`;
 
       // Fetch data
       const response = await fetch(url);
@@ -146,7 +211,8 @@ export function useVictimData(options: UseVictimDataOptions = {}): UseVictimData
       }
 
       // Update state with successful data
-      setData(result.data.victims);
+      const victims = result.data.victims;
+      setData((previous) => (offset > 0 && previous ? [...previous, ...victims] : victims));
       setStatistics(result.data.statistics || null);
       setLocations(result.data.locations || null);
       setMetadata(result.data.metadata);
@@ -160,17 +226,20 @@ export function useVictimData(options: UseVictimDataOptions = {}): UseVictimData
 
       const errorObject = new Error(errorMessage);
       setError(errorObject);
-      setData(null);
-      setStatistics(null);
-      setLocations(null);
-      setMetadata(null);
+      // Keep the pages already loaded (and the next offset) when a later page fails
+      if (offset === 0) {
+        setData(null);
+        setStatistics(null);
+        setLocations(null);
+        setMetadata(null);
+      }
 
       // Log error for debugging
       console.error('useVictimData error:', err);
     } finally {
       setLoading(false);
     }
-  }, [includeStats, location]);
+  }, [includeStats, location, cause, filterQuery, sort, limit, fieldsQuery]);
 
   /**
    * Refetch function that can be called manually
@@ -179,6 +248,18 @@ export function useVictimData(options: UseVictimDataOptions = {}): UseVictimData
     await fetchData();
   }, [fetchData]);
 
+  const nextOffset = metadata?.pagination?.nextOffset;
+
+  /**
+   * Load the next page, if any
+   */
+  const fetchNextPage = useCallback(async () => {
+    if (nextOffset === undefined || loading) {
+      return;
+    }
+    await fetchData(nextOffset);
+  }, [fetchData, nextOffset, loading]);
+
   /**
    * Auto-fetch on mount and when dependencies change
    */
@@ -195,6 +276,8 @@ export function useVictimData(options: UseVictimDataOptions = {}): UseVictimData
     loading,
     error,
     refetch,
+    fetchNextPage,
+    hasNextPage: nextOffset !== undefined,
     metadata,
   };
 }
@@ -0,0 +1,130 @@
+/**
+ * Custom React hook for fetching a single victim from the API
+ * Loads /api/victims/<id> with the related victims from the same location and date
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { ProcessedVictimData } from '@/types/victim';
+import type { ProjectedVictim } from '@/lib/victimQuery';
+
+/**
+ * Related victims group returned by /api/victims/<id>
+ */
+export interface RelatedVictimGroup {
+  /** Number of related victims in the group */
+  total: number;
+  /** Related victims (summary fields only), sorted by date */
+  victims: ProjectedVictim[];
+}
+
+/**
+ * API Response structure matching the /api/victims/[id] endpoint
+ */
+interface VictimDetailAPIResponse {
+  success: boolean;
+  data?: {
+    victim: ProcessedVictimData;
+    related: {
+      sameLocation: RelatedVictimGroup;
+      sameDate: RelatedVictimGroup;
+    };
+    metadata: {
+      timestamp: number;
+    };
+  };
+  error?: {
+    message: string;
+    code: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * Hook return value
+ */
+interface UseVictimDetailReturn {
+  /** The victim, or null while loading, on error or when no id is given */
+  victim: ProcessedVictimData | null;
+  /** Related victims, or null */
+  related: NonNullable<VictimDetailAPIResponse['data']>['related'] | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+}
+
+/**
+ * Custom hook to fetch one victim and its related victims
+ *
+ * @param id - Victim id; nothing is fetched when null
+ * @returns Object containing the victim, related victims, loading and error state
+ */
+export function useVictimDetail(id: string | null): UseVictimDetailReturn {
+  const [victim, setVictim] = useState<ProcessedVictimData | null>(null);
+  const [related, setRelated] = useState<UseVictimDetailReturn['related']>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setVictim(null);
+    setRelated(null);
+    setError(null);
+
+    if (!id) {
+      setLoading(false);
+      return;
+    }
+
+    // Ignore responses for a selection that has since changed
+    let cancelled = false;
+    setLoading(true);
+
+    const fetchVictim = async () => {
+      try {
+        const response = await fetch(`/api/victims/${encodeURIComponent(id)}`);
+        const result: VictimDetailAPIResponse = await response.json();
+
+        if (!response.ok || !result.success || !result.data) {
+          throw new Error(
+            result.error?.message || `HTTP error! status: ${response.status}`
+          );
+        }
+
+        if (!cancelled) {
+          setVictim(result.data.victim);
+          setRelated(result.data.related);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            new Error(
+              err instanceof Error
+                ? err.message
+                : 'An unknown error occurred while fetching the victim'
+            )
+          );
+          console.error('useVictimDetail error:', err);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchVictim();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return {
+    victim,
+    related,
+    loading,
+    error,
+  };
+}
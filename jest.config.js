@@ -17,6 +17,8 @@ const customJestConfig = {
     '**/__tests__/**/*.[jt]s?(x)',
     '**/?(*.)+(spec|test).[jt]s?(x)'
   ],
+  // Shared fixtures, imported by the tests
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/helpers/'],
   collectCoverageFrom: [
     'components/**/*.{js,jsx,ts,tsx}',
     'app/**/*.{js,jsx,ts,tsx}',
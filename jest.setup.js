@@ -15,6 +15,21 @@ jest.mock('@kepler.gl/actions', () => ({
     type: 'ADD_DATA_TO_MAP',
     payload,
   })),
+  layerConfigChange: jest.fn((oldLayer, newConfig) => ({
+    type: 'LAYER_CONFIG_CHANGE',
+    oldLayer,
+    newConfig,
+  })),
+  replaceDataInMap: jest.fn((payload) => ({
+    type: 'REPLACE_DATA_IN_MAP',
+    payload,
+  })),
+  setFilter: jest.fn((idx, prop, value) => ({
+    type: 'SET_FILTER',
+    idx,
+    prop,
+    value,
+  })),
 }))
 
 // Mock Kepler.gl reducers
@@ -15,6 +15,9 @@ import {
   calculateCumulativeVictimCounts,
   getTopLocationsByCount,
   calculatePercentages,
+  calculateBreakdown,
+  isBreakdownDimension,
+  calculateTimeRange,
 } from '../statistics';
 
 // Mock victim data for testing
@@ -33,12 +36,16 @@ const createMockVictim = (
   timestamp: new Date(overrides.date || '2023-10-07').getTime(),
   source: overrides.source || 'עזה',
   type: overrides.type || 'רקטות וטילים',
+  causeOfDeath: overrides.causeOfDeath || 'רקטות וטילים',
   gender: overrides.gender || 'זכר',
   url: overrides.url || 'https://example.com',
   latitude: overrides.latitude || 32.0853,
   longitude: overrides.longitude || 34.7818,
   isCivilian: overrides.rank === '-' || !overrides.rank,
   hasUrl: overrides.url !== '-',
+  geocodeStatus: 'exact',
+  dateQuality: 'exact',
+  residenceLocation: overrides.location || 'תל אביב',
   ...overrides,
 });
 
@@ -51,13 +58,17 @@ describe('calculateVictimStatistics', () => {
     expect(stats.military).toBe(0);
     expect(stats.bySource).toEqual({});
     expect(stats.byType).toEqual({});
+    expect(stats.byCause).toEqual({});
     expect(stats.byDate).toEqual({});
+    expect(stats.byDateQuality).toEqual({ exact: 0, partial: 0, missing: 0, defaulted: 0 });
     expect(stats.ageStats).toEqual({
       min: 0,
       max: 0,
       average: 0,
       median: 0,
+      unknown: 0,
     });
+    expect(stats.timeRange).toBeNull();
   });
 
   it('should calculate total counts correctly', () => {
@@ -87,6 +98,19 @@ describe('calculateVictimStatistics', () => {
     expect(stats.bySource['לבנון']).toBe(1);
   });
 
+  it('should group by cause of death correctly', () => {
+    const victims = [
+      createMockVictim({ id: '1', causeOfDeath: 'טבח 7 באוקטובר' }),
+      createMockVictim({ id: '2', causeOfDeath: 'לחימה' }),
+      createMockVictim({ id: '3', causeOfDeath: 'טבח 7 באוקטובר' }),
+    ];
+
+    const stats = calculateVictimStatistics(victims);
+
+    expect(stats.byCause['טבח 7 באוקטובר']).toBe(2);
+    expect(stats.byCause['לחימה']).toBe(1);
+  });
+
   it('should group by type correctly', () => {
     const victims = [
       createMockVictim({ id: '1', type: 'רקטות וטילים' }),
@@ -113,6 +137,20 @@ describe('calculateVictimStatistics', () => {
     expect(stats.byDate['2023-10-08']).toBe(1);
   });
 
+  it('should count missing and defaulted dates as unknown', () => {
+    const victims = [
+      createMockVictim({ id: '1', date: '2023-10-07' }),
+      createMockVictim({ id: '2', date: '2023-10-07', dateQuality: 'missing' }),
+      createMockVictim({ id: '3', date: '2023-10-07', dateQuality: 'defaulted' }),
+    ];
+
+    expect(calculateVictimStatistics(victims).byDate).toEqual({ '2023-10-07': 1, unknown: 2 });
+    expect(calculateBreakdown(victims, 'date')).toEqual([
+      { key: 'unknown', count: 2, percentage: 66.7 },
+      { key: '2023-10-07', count: 1, percentage: 33.3 },
+    ]);
+  });
+
   it('should group by location correctly', () => {
     const victims = [
       createMockVictim({ id: '1', location: 'תל אביב' }),
@@ -139,6 +177,31 @@ describe('calculateVictimStatistics', () => {
     expect(stats.byGender['נקבה']).toBe(1);
   });
 
+  it('should count unknown genders and ages separately', () => {
+    const victims = [
+      createMockVictim({ id: '1', age: 20 }),
+      createMockVictim({ id: '2', age: null, gender: null }),
+      createMockVictim({ id: '3', age: 40 }),
+    ];
+
+    const stats = calculateVictimStatistics(victims);
+
+    expect(stats.byGender).toEqual({ זכר: 2, נקבה: 0, unknown: 1 });
+    expect(stats.ageStats).toEqual({ min: 20, max: 40, average: 30, median: 30, unknown: 1 });
+  });
+
+  it('should count victims by date quality', () => {
+    const victims = [
+      createMockVictim({ id: '1' }),
+      createMockVictim({ id: '2', dateQuality: 'partial' }),
+      createMockVictim({ id: '3', dateQuality: 'defaulted' }),
+    ];
+
+    const stats = calculateVictimStatistics(victims);
+
+    expect(stats.byDateQuality).toEqual({ exact: 1, partial: 1, missing: 0, defaulted: 1 });
+  });
+
   it('should calculate age statistics correctly', () => {
     const victims = [
       createMockVictim({ id: '1', age: 20 }),
@@ -410,6 +473,20 @@ describe('calculateDailyVictimCounts', () => {
     expect(dailyCounts[1].date).toBe('2023-10-08');
     expect(dailyCounts[2].date).toBe('2023-10-10');
   });
+
+  it('should leave out missing and defaulted dates', () => {
+    const victims = [
+      createMockVictim({ id: '1', date: '2023-10-07' }),
+      createMockVictim({ id: '2', date: '2023-10-07', dateQuality: 'missing' }),
+      createMockVictim({ id: '3', date: '2023-10-07', dateQuality: 'defaulted' }),
+      createMockVictim({ id: '4', date: '2023-11-01', dateQuality: 'partial' }),
+    ];
+
+    expect(calculateDailyVictimCounts(victims)).toEqual([
+      { date: '2023-10-07', count: 1 },
+      { date: '2023-11-01', count: 1 },
+    ]);
+  });
 });
 
 describe('calculateCumulativeVictimCounts', () => {
@@ -502,3 +579,75 @@ describe('calculatePercentages', () => {
     expect(percentages['עזה']).toBe(0);
   });
 });
+
+describe('calculateBreakdown', () => {
+  it('should count and percentage each value sorted by count', () => {
+    const victims = [
+      createMockVictim({ id: '1', source: 'עזה' }),
+      createMockVictim({ id: '2', source: 'לבנון' }),
+      createMockVictim({ id: '3', source: 'עזה' }),
+      createMockVictim({ id: '4', source: 'עזה' }),
+    ];
+
+    expect(calculateBreakdown(victims, 'source')).toEqual([
+      { key: 'עזה', count: 3, percentage: 75 },
+      { key: 'לבנון', count: 1, percentage: 25 },
+    ]);
+  });
+
+  it('should map dimensions to victim fields', () => {
+    const victims = [
+      createMockVictim({ id: '1', causeOfDeath: 'לחימה', isCivilian: false }),
+      createMockVictim({ id: '2', causeOfDeath: 'לחימה', isCivilian: true }),
+    ];
+
+    expect(calculateBreakdown(victims, 'cause')).toEqual([
+      { key: 'לחימה', count: 2, percentage: 100 },
+    ]);
+    expect(calculateBreakdown(victims, 'civilian').map((entry) => entry.key)).toEqual([
+      'false',
+      'true',
+    ]);
+  });
+
+  it('should return an empty array for no victims', () => {
+    expect(calculateBreakdown([], 'gender')).toEqual([]);
+  });
+
+  it('should recognize supported dimensions only', () => {
+    expect(isBreakdownDimension('cause')).toBe(true);
+    expect(isBreakdownDimension('causeOfDeath')).toBe(false);
+    expect(isBreakdownDimension('toString')).toBe(false);
+  });
+});
+
+describe('calculateTimeRange', () => {
+  it('should return the earliest and latest timestamps', () => {
+    const victims = [
+      createMockVictim({ id: '1', date: '2024-03-01' }),
+      createMockVictim({ id: '2', date: '2023-10-07' }),
+      createMockVictim({ id: '3', date: '2025-10-02' }),
+    ];
+
+    expect(calculateTimeRange(victims)).toEqual({
+      min: new Date('2023-10-07').getTime(),
+      max: new Date('2025-10-02').getTime(),
+    });
+    expect(calculateVictimStatistics(victims).timeRange).toEqual(calculateTimeRange(victims));
+  });
+
+  it('should return null for no victims', () => {
+    expect(calculateTimeRange([])).toBeNull();
+  });
+
+  it('should leave out missing and defaulted dates', () => {
+    const victims = [
+      createMockVictim({ id: '1', date: '2023-10-07', dateQuality: 'defaulted' }),
+      createMockVictim({ id: '2', date: '2024-03-01' }),
+    ];
+    const time = new Date('2024-03-01').getTime();
+
+    expect(calculateTimeRange(victims)).toEqual({ min: time, max: time });
+    expect(calculateTimeRange(victims.slice(0, 1))).toBeNull();
+  });
+});
@@ -12,6 +12,12 @@ import {
   isValidGender,
   isCompleteVictimData,
   formatValidationErrors,
+  getRuleSeverity,
+  parseValidationConfig,
+  ValidationConfigError,
+  DEFAULT_VALIDATION_CONFIG,
+  VALIDATION_RULES,
+  type ValidationRule,
   type ValidationResult,
   type BulkValidationResult,
 } from '../validation';
@@ -28,7 +34,7 @@ describe('Validation Utilities', () => {
     source: 'עזה',
     type: 'רקטות וטילים',
     gender: 'זכר',
-    url: 'https://example.com/article',
+    url: 'https://www.ynet.co.il/news/article/abc123',
     latitude: 32.0853,
     longitude: 34.7818,
   };
@@ -115,11 +121,16 @@ describe('Validation Utilities', () => {
       expect(isValidAge(120)).toBe(true);
     });
 
+    it('should accept infant ages under a year', () => {
+      expect(isValidAge(0)).toBe(true);
+      expect(isValidAge(0.04)).toBe(true);
+      expect(isValidAge(0.75)).toBe(true);
+    });
+
     it('should reject invalid ages', () => {
-      expect(isValidAge(0)).toBe(false);
       expect(isValidAge(-5)).toBe(false);
+      expect(isValidAge(-0.5)).toBe(false);
       expect(isValidAge(121)).toBe(false);
-      expect(isValidAge(35.5)).toBe(false); // Decimal
     });
 
     it('should reject invalid age types', () => {
@@ -212,6 +223,14 @@ describe('Validation Utilities', () => {
       expect(result.errors.some(e => e.field === 'gender')).toBe(true);
     });
 
+    it('should keep records with unknown age or gender, with warnings', () => {
+      const result = validateVictimData({ ...validVictimData, age: null, gender: null });
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings.map(w => w.field)).toEqual(['age', 'gender']);
+    });
+
     it('should allow "-" for url', () => {
       const data: Partial<VictimData> = {
         ...validVictimData,
@@ -250,6 +269,82 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('validation rules', () => {
+    it('should give every rule a unique id', () => {
+      const ids = VALIDATION_RULES.map(rule => rule.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should tag each issue with its rule id and severity', () => {
+      const result = validateVictimData({ ...validVictimData, url: 'ftp://example.com' });
+
+      expect(result.errors).toEqual([
+        {
+          field: 'url',
+          message: 'URL must use http or https protocol',
+          value: 'ftp://example.com',
+          ruleId: 'url.protocol',
+          severity: 'error',
+        },
+      ]);
+    });
+
+    it('should let the config change a severity or turn a rule off', () => {
+      const data = { ...validVictimData, latitude: 40.0 };
+      const downgraded = validateVictimData(data, { rules: { 'coordinates.israel': 'info' } });
+
+      expect(downgraded.valid).toBe(true);
+      expect(downgraded.info.map(issue => issue.ruleId)).toEqual(['coordinates.israel']);
+      expect(validateVictimData(data, { rules: { 'coordinates.israel': 'off' } })).toMatchObject({
+        valid: true,
+        errors: [],
+        warnings: [],
+        info: [],
+      });
+    });
+
+    it('should resolve the severity of a rule from the config', () => {
+      const rule = VALIDATION_RULES.find(candidate => candidate.id === 'age.unknown')!;
+
+      expect(getRuleSeverity(rule, {})).toBe('warning');
+      expect(getRuleSeverity(rule, { rules: { 'age.unknown': 'off' } })).toBe('off');
+    });
+
+    it('should accept the bundled config and known severities', () => {
+      expect(DEFAULT_VALIDATION_CONFIG.rules).toBeDefined();
+      expect(parseValidationConfig({ rules: { 'age.unknown': 'off', 'coordinates.israel': 'warning' } })).toEqual({
+        rules: { 'age.unknown': 'off', 'coordinates.israel': 'warning' },
+      });
+      expect(parseValidationConfig({})).toEqual({ rules: {} });
+    });
+
+    it('should reject unknown severities and rule ids', () => {
+      expect(() => parseValidationConfig({ rules: { 'age.unknown': 'warn' } })).toThrow(ValidationConfigError);
+      expect(() => parseValidationConfig({ rules: { 'age.unknown': 'warn' } })).toThrow(
+        'Rule "age.unknown" has invalid severity "warn"'
+      );
+      expect(() => parseValidationConfig({ rules: { 'age.unkown': 'off' } })).toThrow('Unknown rule "age.unkown"');
+      expect(() => parseValidationConfig({ rules: ['age.unknown'] })).toThrow(ValidationConfigError);
+      expect(() => parseValidationConfig(null)).toThrow(ValidationConfigError);
+    });
+
+    it('should run custom rules', () => {
+      const rule: ValidationRule = {
+        id: 'location.notTest',
+        severity: 'warning',
+        fields: ['location'],
+        message: 'Location looks like test data',
+        test: data => data.location !== 'בדיקה',
+      };
+
+      const result = validateVictimData({ ...validVictimData, location: 'בדיקה' }, {}, [rule]);
+
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ ruleId: 'location.notTest', field: 'location', value: 'בדיקה' }),
+      ]);
+    });
+  });
+
   describe('validateVictimDataArray', () => {
     it('should validate array of valid records', () => {
       const data = [validVictimData, validVictimData];
@@ -280,6 +375,47 @@ describe('Validation Utilities', () => {
       expect(result.errors[1].recordIndex).toBe(2);
     });
 
+    it('should count the records reported by each rule', () => {
+      const data = [
+        { ...validVictimData, age: -1 },
+        { ...validVictimData, age: 121, gender: null },
+        { ...validVictimData, gender: null },
+      ];
+
+      expect(validateVictimDataArray(data).ruleCounts).toEqual({ 'age.range': 2, 'gender.unknown': 2 });
+    });
+
+    it('should list warnings of valid records separately', () => {
+      const result = validateVictimDataArray([validVictimData, { ...validVictimData, age: null }]);
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toEqual([
+        {
+          recordIndex: 1,
+          recordIdentifier: 'יוסי כהן',
+          warnings: [
+            { field: 'age', message: 'Age is unknown', value: null, ruleId: 'age.unknown', severity: 'warning' },
+          ],
+        },
+      ]);
+    });
+
+    it('should list info issues of valid records separately', () => {
+      const result = validateVictimDataArray([validVictimData, { ...validVictimData, age: null }], {
+        rules: { 'age.unknown': 'info' },
+      });
+
+      expect(result.warnings).toHaveLength(0);
+      expect(result.info).toEqual([
+        {
+          recordIndex: 1,
+          recordIdentifier: 'יוסי כהן',
+          info: [{ field: 'age', message: 'Age is unknown', value: null, ruleId: 'age.unknown', severity: 'info' }],
+        },
+      ]);
+    });
+
     it('should include record identifiers when available', () => {
       const data = [
         { ...validVictimData, age: -1 },
@@ -311,9 +447,11 @@ describe('Validation Utilities', () => {
       const result: ValidationResult = {
         valid: false,
         errors: [
-          { field: 'age', message: 'Age must be positive' },
-          { field: 'date', message: 'Invalid date format' },
+          { field: 'age', message: 'Age must be positive', ruleId: 'age.range', severity: 'error' },
+          { field: 'date', message: 'Invalid date format', ruleId: 'date.format', severity: 'error' },
         ],
+        warnings: [],
+        info: [],
       };
 
       const formatted = formatValidationErrors(result);
@@ -332,9 +470,12 @@ describe('Validation Utilities', () => {
           {
             recordIndex: 1,
             recordIdentifier: 'יוסי כהן',
-            errors: [{ field: 'age', message: 'Invalid age' }],
+            errors: [{ field: 'age', message: 'Invalid age', ruleId: 'age.range', severity: 'error' }],
           },
         ],
+        warnings: [],
+        info: [],
+        ruleCounts: { 'age.range': 1 },
       };
 
       const formatted = formatValidationErrors(result);
@@ -347,6 +488,8 @@ describe('Validation Utilities', () => {
       const result: ValidationResult = {
         valid: true,
         errors: [],
+        warnings: [],
+        info: [],
       };
 
       const formatted = formatValidationErrors(result);
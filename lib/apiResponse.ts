@@ -0,0 +1,205 @@
+/**
+ * Shared response helpers for the Next.js API routes
+ * Keeps the success/error envelope, error codes and CORS headers consistent
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  getDefaultDataFilePath,
+  getVictimDataset,
+  type VictimDataset,
+} from '@/lib/datasetStore';
+
+/**
+ * API response envelope
+ */
+export interface APIResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    message: string;
+    code: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * Error codes for API responses
+ */
+export const ERROR_CODES = {
+  FILE_NOT_FOUND: 'FILE_NOT_FOUND',
+  FILE_READ_ERROR: 'FILE_READ_ERROR',
+  INVALID_JSON: 'INVALID_JSON',
+  PROCESSING_ERROR: 'PROCESSING_ERROR',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  INVALID_PARAMETER: 'INVALID_PARAMETER',
+  NOT_FOUND: 'NOT_FOUND',
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/**
+ * CORS headers for API responses
+ */
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified, Content-Disposition',
+  'Content-Type': 'application/json',
+} as const;
+
+/**
+ * Create error response with consistent structure
+ */
+export function createErrorResponse(
+  message: string,
+  code: ErrorCode,
+  status: number,
+  details?: unknown
+): NextResponse<APIResponse<never>> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message,
+        code,
+        details,
+      },
+    },
+    {
+      status,
+      headers: CORS_HEADERS,
+    }
+  );
+}
+
+/**
+ * Create success response with consistent structure
+ */
+export function createSuccessResponse<T>(
+  data: T,
+  cacheHeaders: Record<string, string> = {}
+): NextResponse<APIResponse<T>> {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+    },
+    {
+      status: 200,
+      headers: { ...CORS_HEADERS, ...cacheHeaders },
+    }
+  );
+}
+
+/**
+ * Create file download response (CSV, GeoJSON or NDJSON export)
+ */
+export function createDownloadResponse(
+  body: string,
+  contentType: string,
+  filename: string,
+  cacheHeaders: Record<string, string> = {}
+): NextResponse {
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      ...cacheHeaders,
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+/**
+ * Create 304 Not Modified response (no body)
+ */
+export function createNotModifiedResponse(cacheHeaders: Record<string, string>): NextResponse {
+  return new NextResponse(null, {
+    status: 304,
+    headers: { ...CORS_HEADERS, ...cacheHeaders },
+  });
+}
+
+/**
+ * Create response for CORS preflight requests
+ */
+export function createOptionsResponse(): NextResponse {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * Load the victim dataset for a request
+ * Maps a missing file to 404, read/parse failures to 500, and a dataset in
+ * which every record failed processing to 500
+ *
+ * @param allowEmpty - Return the dataset even when every record failed processing
+ *   (for diagnostics of the failures)
+ * @returns The dataset, or the error response to return to the client
+ */
+export async function loadDatasetForRequest(allowEmpty = false): Promise<
+  { dataset: VictimDataset; errorResponse?: undefined } | { dataset?: undefined; errorResponse: NextResponse }
+> {
+  const dataFilePath = getDefaultDataFilePath();
+
+  let dataset: VictimDataset;
+  try {
+    dataset = await getVictimDataset(dataFilePath);
+  } catch (error) {
+    // Check if file doesn't exist
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      return {
+        errorResponse: createErrorResponse(
+          `Data file not found at: ${dataFilePath}`,
+          'FILE_NOT_FOUND',
+          404,
+          { path: dataFilePath }
+        ),
+      };
+    }
+
+    // Other file read errors or parsing errors
+    return {
+      errorResponse: createErrorResponse(
+        'Failed to read or parse victim data file',
+        'FILE_READ_ERROR',
+        500,
+        error instanceof Error ? error.message : 'Unknown error'
+      ),
+    };
+  }
+
+  const { rawRecords, processingResult } = dataset;
+
+  // Check if processing succeeded
+  if (
+    !allowEmpty &&
+    !processingResult.success &&
+    processingResult.failedRecords.length === rawRecords.length
+  ) {
+    // All records failed
+    return {
+      errorResponse: createErrorResponse(
+        `Failed to process any victim records. Total errors: ${processingResult.failedRecords.length}`,
+        'PROCESSING_ERROR',
+        500,
+        {
+          totalRecords: rawRecords.length,
+          failedCount: processingResult.failedRecords.length,
+          errors: processingResult.failedRecords.slice(0, 5).map(record => ({
+            index: record.recordIndex,
+            identifier: record.recordIdentifier,
+            error: record.error.message,
+          })),
+        }
+      ),
+    };
+  }
+
+  return { dataset };
+}
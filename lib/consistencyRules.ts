@@ -0,0 +1,161 @@
+/**
+ * Cross-field consistency rules for victim data
+ * Each rule relates two or more fields of a record (rank and age, rank and gender,
+ * place of residence and front, ...) and reports a warning with a suggested fix
+ */
+
+import { getDefaultGazetteer } from '@/lib/gazetteer';
+import type { ValidationRule } from '@/lib/validation';
+import type { VictimData } from '@/types/victim';
+
+/**
+ * First date of the dataset (October 7, 2023)
+ */
+export const FIRST_VICTIM_DATE = '2023-10-07';
+
+/**
+ * Youngest age for a military rank
+ */
+export const MIN_SOLDIER_AGE = 18;
+
+/**
+ * Front of the Gaza war, as written in the source sheet
+ */
+const GAZA_FRONT = 'עזה';
+
+/**
+ * Causes of death for which a residence abroad is expected on the Gaza front:
+ * foreign nationals killed in Israel on October 7 or taken hostage
+ */
+const ABROAD_GAZA_CAUSES: readonly string[] = ['טבח 7 באוקטובר', 'חטיפה ושבי'];
+
+/**
+ * News article URLs linked from the source sheet, by site
+ */
+export const ARTICLE_URL_PATTERNS: readonly RegExp[] = [
+  // ynet: https://www.ynet.co.il/news/article/<id>
+  /^https:\/\/www\.ynet\.co\.il\/(?:[\w-]+\/)*article\/\w+/i,
+];
+
+// Feminine rank forms: טוראית, רב"טית, סמלת, סמ"רית, סגנית, סרנית, ...
+const FEMININE_RANK = /(?:ית|סמלת)$/;
+
+// Masculine forms of the enlisted ranks above; officer ranks (סגן, סרן) are often written the
+// same for women, and the others (רס"מ, סמ"ש, ...) have no feminine form
+const MASCULINE_RANK = /^(?:טוראי|רב["״]ט|סמל|סמ["״]ר)$/;
+
+// Reserve suffix of a rank, e.g. סמ"ר (מיל')
+const RANK_SUFFIX = /\s*\(.*\)\s*$/;
+
+// ISO 8601 date (YYYY-MM-DD)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether the record has a military rank ("-" is a civilian)
+ */
+function hasRank(data: Partial<VictimData>): data is Partial<VictimData> & { rank: string } {
+  return Boolean(data.rank) && data.rank !== '-';
+}
+
+/**
+ * Whether a rank is written in its feminine form
+ */
+export function isFeminineRank(rank: string): boolean {
+  return FEMININE_RANK.test(rank.replace(RANK_SUFFIX, '').trim());
+}
+
+/**
+ * Whether a rank is the masculine form of a rank that has a feminine form
+ */
+export function isMasculineRank(rank: string): boolean {
+  return MASCULINE_RANK.test(rank.replace(RANK_SUFFIX, '').trim());
+}
+
+/**
+ * Whether a place of residence resolves to a place outside Israel
+ */
+export function isAbroadLocation(location: string): boolean {
+  const match = getDefaultGazetteer().lookup(location);
+  return match !== null && match.entry.country !== 'IL';
+}
+
+/**
+ * Whether a URL is a news article of a known site
+ */
+export function isArticleUrl(url: string): boolean {
+  return ARTICLE_URL_PATTERNS.some((pattern) => pattern.test(url));
+}
+
+/**
+ * Today's date in ISO 8601 format (YYYY-MM-DD)
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Consistency rules, in the order their issues are reported
+ * All are warnings: the record is kept and the issue reported with a suggested fix
+ */
+export const CONSISTENCY_RULES: readonly ValidationRule[] = [
+  {
+    id: 'consistency.minorSoldier',
+    severity: 'warning',
+    fields: ['rank', 'age'],
+    message: `Record has a military rank but is under ${MIN_SOLDIER_AGE}`,
+    test: (data) => !hasRank(data) || typeof data.age !== 'number' || data.age >= MIN_SOLDIER_AGE,
+    value: (data) => ({ rank: data.rank, age: data.age }),
+    suggestion: 'Check the age, or set the rank to "-" for a civilian',
+  },
+  {
+    id: 'consistency.dateBeforeOct7',
+    severity: 'warning',
+    fields: ['date'],
+    message: `Date is before ${FIRST_VICTIM_DATE}`,
+    test: (data) => !data.date || !ISO_DATE.test(data.date) || data.date >= FIRST_VICTIM_DATE,
+    suggestion: 'Check the date; the day and month may be swapped or the year mistyped',
+  },
+  {
+    id: 'consistency.futureDate',
+    severity: 'warning',
+    fields: ['date'],
+    message: 'Date is in the future',
+    test: (data) => !data.date || !ISO_DATE.test(data.date) || data.date <= today(),
+    suggestion: 'Check the date; the day and month may be swapped or the year mistyped',
+  },
+  {
+    id: 'consistency.rankGender',
+    severity: 'warning',
+    fields: ['rank', 'gender'],
+    message: 'Rank is in the form of the other gender',
+    test: (data) =>
+      !hasRank(data) ||
+      !(
+        (data.gender === 'זכר' && isFeminineRank(data.rank)) ||
+        (data.gender === 'נקבה' && isMasculineRank(data.rank))
+      ),
+    value: (data) => ({ rank: data.rank, gender: data.gender }),
+    suggestion: 'Correct the gender, or write the rank in the form of the gender (e.g. טוראית for נקבה)',
+  },
+  {
+    id: 'consistency.abroadGaza',
+    severity: 'warning',
+    fields: ['location', 'source', 'causeOfDeath'],
+    message: `Place of residence is outside Israel but the front is ${GAZA_FRONT}`,
+    test: (data) =>
+      data.source !== GAZA_FRONT ||
+      !data.location ||
+      ABROAD_GAZA_CAUSES.includes(data.causeOfDeath ?? '') ||
+      !isAbroadLocation(data.location),
+    value: (data) => ({ location: data.location, source: data.source, causeOfDeath: data.causeOfDeath }),
+    suggestion: 'Check the category; attacks abroad are under פיגועים בחו"ל',
+  },
+  {
+    id: 'consistency.articleUrl',
+    severity: 'warning',
+    fields: ['url'],
+    message: 'URL is not a news article of a known site',
+    test: (data) => !data.url || data.url === '-' || isArticleUrl(data.url),
+    suggestion: 'Link the article page, e.g. https://www.ynet.co.il/news/article/<id>',
+  },
+];
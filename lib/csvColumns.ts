@@ -0,0 +1,32 @@
+/**
+ * Columns of the source sheet
+ * Kept apart from the CSV parser, which reads files and geocodes, so the
+ * browser export can use the same headers
+ */
+
+/**
+ * Hebrew CSV column mapping to VictimData fields, in the order of the sheet
+ */
+export const CSV_COLUMN_MAP = {
+  'שם משפחה': 'lastName',
+  'שם פרטי': 'firstName',
+  'דרגה': 'rank',
+  'גיל': 'age',
+  'מקום מגורים': 'location',
+  'תאריך נוסף': 'date',
+  'קָטֵגוֹרִיָה': 'category',
+  'סיבת המוות': 'causeOfDeath',
+  'מִין': 'gender',
+  'קישור למאמר': 'url',
+  'מקום האירוע': 'incidentLocation',
+} as const;
+
+/**
+ * Hebrew header of a sheet column
+ */
+export type CSVColumn = keyof typeof CSV_COLUMN_MAP;
+
+/**
+ * Headers of the sheet, in order
+ */
+export const CSV_COLUMNS = Object.keys(CSV_COLUMN_MAP) as CSVColumn[];
@@ -4,78 +4,99 @@
  */
 
 import Papa from 'papaparse';
-import type { VictimData } from '@/types/victim';
-import { getLocationCoordinates } from './locationCoordinates';
+import type { Gender, GeocodedLocation, IncidentType, VictimData, Source } from '@/types/victim';
+import { geocodeLocation } from './locationCoordinates';
+import { parseSheetDate } from './dateParser';
 
-/**
- * Hebrew CSV column mapping to VictimData fields
- */
-const CSV_COLUMN_MAP = {
-  'שם משפחה': 'lastName',
-  'שם פרטי': 'firstName',
-  'דרגה': 'rank',
-  'גיל': 'age',
-  'מקום מגורים': 'location',
-  'תאריך נוסף': 'date',
-  'קָטֵגוֹרִיָה': 'category',
-  'סיבת המוות': 'causeOfDeath',
-  'מִין': 'gender',
-  'קישור למאמר': 'url',
-} as const;
+export { CSV_COLUMN_MAP } from '@/lib/csvColumns';
 
 /**
  * Gender mapping - keep Hebrew values as they are in the type system
+ * Anything else ("-", empty) is an unknown gender
  */
-const GENDER_MAP: Record<string, 'זכר' | 'נקבה' | undefined> = {
+const GENDER_MAP: Record<string, Gender> = {
   'זכר': 'זכר',
   'נקבה': 'נקבה',
-  '-': undefined,
-  '': undefined,
 };
 
 /**
- * Type mapping from Hebrew category to English type
+ * Source (front) mapping from Hebrew category
+ * Categories that already name a front map to themselves
  */
-const TYPE_MAP: Record<string, string> = {
-  'פיגועים בחו"ל': 'terror_attack_abroad',
-  'יהודה ושומרון': 'west_bank',
-  'עזה': 'gaza',
-  'חטופים': 'hostage',
-  'לבנון': 'lebanon',
-  'צה"ל': 'idf',
-  '-': 'unknown',
+const SOURCE_MAP: Record<string, Source> = {
+  'עזה': 'עזה',
+  'לבנון': 'לבנון',
+  'איראן': 'איראן',
+  'תימן': 'תימן',
+  'עיראק': 'עיראק',
+  'סוריה': 'סוריה',
+  'יהודה ושומרון': 'יהודה ושומרון',
+  'פיגועים בארץ': 'פיגועים בארץ',
+  'פיגועים בחו"ל': 'פיגועים בחו"ל',
+  'חטופים': 'עזה',
 };
 
 /**
- * Parse date from DD/MM/YYYY format to ISO YYYY-MM-DD
+ * Incident kind of the categories that name one; the other categories are fronts,
+ * which cover several kinds (the cause of death column tells them apart)
  */
-function parseDateToISO(dateStr: string): string {
-  if (!dateStr || dateStr === '-') {
-    return '2023-10-07'; // Default to Oct 7, 2023
-  }
+const INCIDENT_TYPE_MAP: Record<string, IncidentType> = {
+  'חטופים': 'חטיפה ושבי',
+  'פיגועים בארץ': 'פיגוע',
+  'פיגועים בחו"ל': 'פיגוע',
+};
 
-  // Parse DD/MM/YYYY format
-  const parts = dateStr.split('/');
-  if (parts.length !== 3) {
-    return '2023-10-07';
-  }
+/**
+ * Age in years, or in hours, days, weeks or months for infants (e.g. "14 שעות")
+ */
+const AGE_PATTERN = /^(\d+(?:\.\d+)?)(?:\s*(\S+))?$/;
 
-  const day = parts[0].padStart(2, '0');
-  const month = parts[1].padStart(2, '0');
-  const year = parts[2];
+/**
+ * Number of each unit in a year
+ */
+const AGE_UNITS_PER_YEAR: Record<string, number> = {
+  'שנה': 1,
+  'שנים': 1,
+  'חודש': 12,
+  'חודשים': 12,
+  'שבוע': 52,
+  'שבועות': 52,
+  'יום': 365,
+  'ימים': 365,
+  'שעה': 365 * 24,
+  'שעות': 365 * 24,
+};
 
-  return `${year}-${month}-${day}`;
+/**
+ * Parse age in years (null when unknown)
+ * Infants are written as a fraction of a year ("0.75") or with a unit ("14 שעות");
+ * ages in other units are rounded to two decimals, as in the sheet
+ */
+function parseAge(ageStr: string | undefined): number | null {
+  const match = AGE_PATTERN.exec(ageStr?.trim() ?? '');
+  if (!match) {
+    return null;
+  }
+  const [, value, unit] = match;
+  if (!unit) {
+    return parseFloat(value);
+  }
+  const perYear = AGE_UNITS_PER_YEAR[unit];
+  return perYear ? Math.round((parseFloat(value) / perYear) * 100) / 100 : null;
 }
 
 /**
- * Parse age from string to number
+ * Read and geocode the place of the incident, if the row has one
+ * The source sheet does not have the column yet
  */
-function parseAge(ageStr: string): number | undefined {
-  if (!ageStr || ageStr === '-') {
+function parseIncidentLocation(row: Record<string, string>): GeocodedLocation | undefined {
+  const name = row['מקום האירוע']?.trim();
+  if (!name || name === '-') {
     return undefined;
   }
-  const age = parseInt(ageStr, 10);
-  return isNaN(age) ? undefined : age;
+
+  const { latitude, longitude, status } = geocodeLocation(name);
+  return { name, latitude, longitude, geocodeStatus: status };
 }
 
 /**
@@ -87,42 +108,136 @@ function transformCSVRowToVictimData(row: Record<string, string>): Partial<Victi
   const rank = row['דרגה']?.trim() || '';
   const location = row['מקום מגורים']?.trim() || '';
   const category = row['קָטֵגוֹרִיָה']?.trim() || '';
+  const causeOfDeath = row['סיבת המוות']?.trim() || '-';
   const genderHebrew = row['מִין']?.trim() || '';
   const url = row['קישור למאמר']?.trim() || '';
 
   // Get coordinates for the location
-  const coordinates = getLocationCoordinates(location);
+  const coordinates = geocodeLocation(location);
+  const { date, quality: dateQuality } = parseSheetDate(row['תאריך נוסף']);
 
   return {
     firstName,
     lastName,
     age: parseAge(row['גיל']),
     location,
-    date: parseDateToISO(row['תאריך נוסף']),
+    date,
+    dateQuality,
     latitude: coordinates.latitude,
     longitude: coordinates.longitude,
-    source: url || 'unknown',
-    type: TYPE_MAP[category] || category || 'unknown',
-    gender: GENDER_MAP[genderHebrew],
-    rank: rank === '-' ? undefined : rank,
+    geocodeStatus: coordinates.status,
+    incidentLocation: parseIncidentLocation(row),
+    source: SOURCE_MAP[category] || category || 'unknown',
+    category: category || '-',
+    type: INCIDENT_TYPE_MAP[category] || 'unknown',
+    causeOfDeath,
+    gender: GENDER_MAP[genderHebrew] ?? null,
+    rank,
     url,
   };
 }
 
 /**
- * Parse CSV content to VictimData array
+ * Problem reported by the CSV parser (unclosed quote, wrong number of fields, ...)
  */
-export function parseVictimCSV(csvContent: string): Array<Partial<VictimData>> {
-  const parseResult = Papa.parse<Record<string, string>>(csvContent, {
+export interface CSVParseIssue {
+  /** Papa Parse error type and code, e.g. FieldMismatch and TooFewFields */
+  type: string;
+  code: string;
+  message: string;
+
+  /** Index of the data row, when the problem is in a row */
+  row?: number;
+
+  /** Line of the file where that row starts (the header is line 1) */
+  line?: number;
+}
+
+/**
+ * Data row of the CSV file as read, before it is mapped to VictimData
+ */
+export interface CSVSourceRow {
+  /** Line of the file where the row starts (the header is line 1) */
+  line: number;
+
+  /** Cell values by column header */
+  values: Record<string, string>;
+}
+
+/**
+ * Parsed CSV content with the source rows and parser problems
+ */
+export interface CSVParseResult {
+  /** Records in file order, one per data row */
+  records: Array<Partial<VictimData>>;
+
+  /** Source row of each record (same index) */
+  rows: CSVSourceRow[];
+
+  /** Problems reported by the parser */
+  errors: CSVParseIssue[];
+}
+
+/**
+ * Count the line breaks in a piece of text
+ */
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * Parse CSV content to VictimData records, keeping the line number and cell
+ * values of every row and the problems reported by the parser
+ *
+ * @param csvContent - CSV text with the Hebrew headers of the source sheet
+ * @returns Records, source rows and parser problems
+ */
+export function parseVictimCSVWithDiagnostics(csvContent: string): CSVParseResult {
+  // Offsets reported by Papa Parse do not count the byte order mark
+  const content = csvContent.replace(/^\uFEFF/, '');
+  const rows: CSVSourceRow[] = [];
+  const errors: CSVParseIssue[] = [];
+
+  // Rows are read one at a time to find the line each one starts on
+  let offset = Papa.parse(content, { preview: 1 }).meta.cursor;
+  let line = 1 + countLines(content.slice(0, offset));
+
+  Papa.parse<Record<string, string>>(content, {
     header: true,
     skipEmptyLines: true,
+    step: (result) => {
+      const text = content.slice(offset, result.meta.cursor);
+      const rowLine = line + countLines(/^[\r\n]*/.exec(text)?.[0] ?? '');
+
+      rows.push({ line: rowLine, values: result.data });
+      result.errors.forEach(({ type, code, message, row }) => {
+        errors.push({ type, code, message, row, line: row === undefined ? undefined : rowLine });
+      });
+
+      line += countLines(text);
+      offset = result.meta.cursor;
+    },
   });
 
-  if (parseResult.errors && parseResult.errors.length > 0) {
-    console.warn('CSV parsing warnings:', parseResult.errors);
+  return {
+    records: rows.map((row) => transformCSVRowToVictimData(row.values)),
+    rows,
+    errors,
+  };
+}
+
+/**
+ * Parse CSV content to VictimData array
+ * Parser problems are logged; use parseVictimCSVWithDiagnostics to get them
+ */
+export function parseVictimCSV(csvContent: string): Array<Partial<VictimData>> {
+  const { records, errors } = parseVictimCSVWithDiagnostics(csvContent);
+
+  if (errors.length > 0) {
+    console.warn('CSV parsing warnings:', errors);
   }
 
-  return parseResult.data.map(transformCSVRowToVictimData);
+  return records;
 }
 
 /**
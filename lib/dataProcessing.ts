@@ -5,8 +5,9 @@
 
 import { createHash } from 'crypto';
 import type { VictimData, ProcessedVictimData } from '@/types/victim';
-import { validateVictimData, validateVictimDataArray, isCompleteVictimData } from '@/lib/validation';
-import type { ValidationResult, BulkValidationResult } from '@/lib/validation';
+import { validateVictimData, validateVictimDataArray, findMissingField, isCompleteVictimData } from '@/lib/validation';
+import type { ValidationResult, BulkValidationResult, ValidationConfig } from '@/lib/validation';
+import { DEFAULT_DATE } from '@/lib/dateParser';
 
 /**
  * Error thrown when data processing fails
@@ -15,7 +16,9 @@ export class DataProcessingError extends Error {
   constructor(
     message: string,
     public readonly field?: string,
-    public readonly originalError?: Error
+    public readonly originalError?: Error,
+    /** Id of the validation rule the record broke, if any */
+    public readonly ruleId?: string
   ) {
     super(message);
     this.name = 'DataProcessingError';
@@ -230,16 +233,57 @@ export function generateVictimId(
   }
 }
 
+/**
+ * Values given to missing fields, so turning off the rule that requires a field
+ * keeps the record ("-" is the source sheet's marker for a missing value)
+ * Coordinates have no default: a record without them cannot be drawn
+ */
+const FIELD_DEFAULTS = {
+  firstName: '-',
+  lastName: '-',
+  location: '-',
+  rank: '-',
+  source: 'unknown',
+  type: 'unknown',
+  url: '-',
+} as const satisfies Partial<VictimData>;
+
+/**
+ * Fill the missing fields of a record with FIELD_DEFAULTS, and a missing date
+ * with DEFAULT_DATE (dateQuality "missing")
+ */
+function applyFieldDefaults(victim: Partial<VictimData>): Partial<VictimData> {
+  const record: Partial<VictimData> = { ...victim };
+  (Object.keys(FIELD_DEFAULTS) as Array<keyof typeof FIELD_DEFAULTS>).forEach((field) => {
+    if (!record[field]) {
+      record[field] = FIELD_DEFAULTS[field];
+    }
+  });
+  if (!record.date) {
+    record.date = DEFAULT_DATE;
+    record.dateQuality = 'missing';
+  }
+  return record;
+}
+
 /**
  * Transforms a single VictimData record to ProcessedVictimData
- * Adds computed fields: id, dateObject, timestamp, fullName, isCivilian, hasUrl
+ * Adds computed fields: id, dateObject, timestamp, fullName, isCivilian, hasUrl,
+ * residenceLocation and defaults a missing causeOfDeath to "-", a missing
+ * geocodeStatus or dateQuality to "exact" and a missing age or gender to null
+ * Records with only warnings or info are processed; the issues stay in validationResult
+ * Fields whose required rule is turned off are filled with FIELD_DEFAULTS
  *
  * @param victim - Raw victim data
+ * @param config - Validation rule settings (default: data/validation-config.json)
  * @returns ProcessingResult with processed data or error
  */
-export function processVictimData(victim: Partial<VictimData>): ProcessingResult<ProcessedVictimData> {
+export function processVictimData(
+  victim: Partial<VictimData>,
+  config?: ValidationConfig
+): ProcessingResult<ProcessedVictimData> {
   // Validate the input data first
-  const validationResult = validateVictimData(victim);
+  const validationResult = validateVictimData(victim, config);
 
   if (!validationResult.valid) {
     return {
@@ -252,48 +296,63 @@ export function processVictimData(victim: Partial<VictimData>): ProcessingResult
     };
   }
 
-  // Type guard ensures victim is complete VictimData
-  if (!isCompleteVictimData(victim)) {
+  // Type guard ensures the record, with defaults, is complete VictimData
+  const record = applyFieldDefaults(victim);
+  if (!isCompleteVictimData(record)) {
+    // Only a field without a default (the coordinates) can be missing here
+    const field = findMissingField(record);
     return {
       success: false,
       validationResult,
-      error: new DataProcessingError('Data validation passed but type guard failed'),
+      error: new DataProcessingError(
+        `${field} is missing and has no default (rule ${field}.required is off)`,
+        field,
+        undefined,
+        `${field}.required`
+      ),
     };
   }
 
   try {
     // Ensure Hebrew UTF-8 encoding for text fields
-    const firstName = ensureHebrewUTF8(victim.firstName, 'firstName');
-    const lastName = ensureHebrewUTF8(victim.lastName, 'lastName');
-    const location = ensureHebrewUTF8(victim.location, 'location');
-    const source = ensureHebrewUTF8(victim.source, 'source');
-    const type = ensureHebrewUTF8(victim.type, 'type');
+    const firstName = ensureHebrewUTF8(record.firstName, 'firstName');
+    const lastName = ensureHebrewUTF8(record.lastName, 'lastName');
+    const location = ensureHebrewUTF8(record.location, 'location');
+    const source = ensureHebrewUTF8(record.source, 'source');
+    const type = ensureHebrewUTF8(record.type, 'type');
+    const causeOfDeath = ensureHebrewUTF8(record.causeOfDeath || '-', 'causeOfDeath');
 
     // Convert date to Date object and timestamp
-    const dateObject = convertISODateToDate(victim.date);
+    const dateObject = convertISODateToDate(record.date);
     const timestamp = convertDateToTimestamp(dateObject);
 
     // Generate unique ID
-    const id = generateVictimId(firstName, lastName, victim.date, location);
+    const id = generateVictimId(firstName, lastName, record.date, location);
 
     // Compute derived fields
     const fullName = `${firstName} ${lastName}`;
-    const isCivilian = victim.rank === '-';
-    const hasUrl = victim.url !== '-' && victim.url.startsWith('http');
+    const isCivilian = record.rank === '-';
+    const hasUrl = record.url !== '-' && record.url.startsWith('http');
 
     const processedData: ProcessedVictimData = {
-      ...victim,
+      ...record,
       firstName,
       lastName,
       location,
       source,
       type,
+      causeOfDeath,
       id,
       dateObject,
       timestamp,
       fullName,
       isCivilian,
       hasUrl,
+      age: record.age ?? null,
+      gender: record.gender ?? null,
+      geocodeStatus: record.geocodeStatus ?? 'exact',
+      dateQuality: record.dateQuality ?? 'exact',
+      residenceLocation: location,
     };
 
     return {
@@ -318,23 +377,31 @@ export function processVictimData(victim: Partial<VictimData>): ProcessingResult
 
 /**
  * Processes an array of victim data records with validation
- * Returns successfully processed records and collects errors for failed records
+ * Returns successfully processed records and collects errors for failed records;
+ * validationResult.ruleCounts has the number of records reported by each rule and
+ * each validationResult.warnings entry the id of its record when it was processed
  *
  * @param victims - Array of raw victim data
+ * @param config - Validation rule settings (default: data/validation-config.json)
  * @returns BulkProcessingResult with processed data and validation details
  */
-export function processVictimDataArray(victims: Array<Partial<VictimData>>): BulkProcessingResult {
+export function processVictimDataArray(
+  victims: Array<Partial<VictimData>>,
+  config?: ValidationConfig
+): BulkProcessingResult {
   // Validate all records first
-  const validationResult = validateVictimDataArray(victims);
+  const validationResult = validateVictimDataArray(victims, config);
 
   const processedData: ProcessedVictimData[] = [];
   const failedRecords: BulkProcessingResult['failedRecords'] = [];
+  const recordIds = new Map<number, string>();
 
   victims.forEach((victim, index) => {
-    const result = processVictimData(victim);
+    const result = processVictimData(victim, config);
 
     if (result.success && result.data) {
       processedData.push(result.data);
+      recordIds.set(index, result.data.id);
     } else {
       const recordIdentifier = victim.firstName && victim.lastName
         ? `${victim.firstName} ${victim.lastName}`
@@ -351,7 +418,17 @@ export function processVictimDataArray(victims: Array<Partial<VictimData>>): Bul
   return {
     success: failedRecords.length === 0,
     processedData,
-    validationResult,
+    validationResult: {
+      ...validationResult,
+      warnings: validationResult.warnings.map((warning) => ({
+        ...warning,
+        recordId: recordIds.get(warning.recordIndex),
+      })),
+      info: validationResult.info.map((info) => ({
+        ...info,
+        recordId: recordIds.get(info.recordIndex),
+      })),
+    },
     failedRecords,
   };
 }
@@ -394,3 +471,64 @@ export function sortVictimsByDate(victims: ProcessedVictimData[]): ProcessedVict
 export function sortVictimsByDateDesc(victims: ProcessedVictimData[]): ProcessedVictimData[] {
   return [...victims].sort((a, b) => b.timestamp - a.timestamp);
 }
+
+/**
+ * Supported sort keys for processed victims
+ * A leading "-" sorts in descending order
+ */
+export const VICTIM_SORT_KEYS = [
+  'date',
+  '-date',
+  'age',
+  '-age',
+  'lastName',
+  '-lastName',
+  'location',
+  '-location',
+] as const;
+
+export type VictimSortKey = (typeof VICTIM_SORT_KEYS)[number];
+
+/**
+ * Type guard to check if a value is a supported sort key
+ */
+export function isVictimSortKey(value: string): value is VictimSortKey {
+  return VICTIM_SORT_KEYS.includes(value as VictimSortKey);
+}
+
+/**
+ * Sorts processed victims by the given key
+ * Date sorting delegates to sortVictimsByDate/sortVictimsByDateDesc; other keys
+ * fall back to date order (oldest first) for ties so the result is stable;
+ * victims whose age is unknown come last when sorting by age
+ *
+ * @param victims - Array of processed victim data
+ * @param sortKey - Sort key, optionally prefixed with "-" for descending order
+ * @returns New sorted array (the input is not mutated)
+ */
+export function sortVictims(
+  victims: ProcessedVictimData[],
+  sortKey: VictimSortKey
+): ProcessedVictimData[] {
+  if (sortKey === 'date') {
+    return sortVictimsByDate(victims);
+  }
+  if (sortKey === '-date') {
+    return sortVictimsByDateDesc(victims);
+  }
+
+  const descending = sortKey.startsWith('-');
+  const field = (descending ? sortKey.slice(1) : sortKey) as 'age' | 'lastName' | 'location';
+  const direction = descending ? -1 : 1;
+
+  return sortVictimsByDate(victims).sort((a, b) => {
+    if (field !== 'age') {
+      return a[field].localeCompare(b[field], 'he') * direction;
+    }
+    if (a.age === null || b.age === null) {
+      // Unknown ages go last in either direction
+      return Number(a.age === null) - Number(b.age === null);
+    }
+    return (a.age - b.age) * direction;
+  });
+}
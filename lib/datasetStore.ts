@@ -0,0 +1,287 @@
+/**
+ * In-memory store for the processed victim dataset
+ * Parses data/victims.csv once, keeps processed records, statistics and
+ * lookup indexes in memory, and reloads only when the file changes
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type {
+  ProcessedVictimData,
+  VictimData,
+  VictimLocation,
+  VictimStatistics,
+} from '@/types/victim';
+import {
+  parseVictimCSVWithDiagnostics,
+  type CSVParseIssue,
+  type CSVSourceRow,
+} from '@/lib/csvParser';
+import {
+  processVictimDataArray,
+  sortVictimsByDate,
+  type BulkProcessingResult,
+} from '@/lib/dataProcessing';
+import { calculateVictimStatistics, groupByDate, groupByLocation } from '@/lib/statistics';
+import { isPreciseDate } from '@/lib/dateParser';
+
+/**
+ * Processed dataset with precomputed aggregates and indexes
+ */
+export interface VictimDataset {
+  /** Absolute path of the source CSV file */
+  filePath: string;
+
+  /** Records as parsed from the CSV, before validation */
+  rawRecords: Array<Partial<VictimData>>;
+
+  /** CSV row of each raw record (same index), with its line number and cell values */
+  sourceRows: CSVSourceRow[];
+
+  /** Problems reported by the CSV parser */
+  parseErrors: CSVParseIssue[];
+
+  /** Result of validating and processing the raw records */
+  processingResult: BulkProcessingResult;
+
+  /** Successfully processed victims, sorted by date (oldest first) */
+  victims: ProcessedVictimData[];
+
+  /** Statistics over all processed victims */
+  statistics: VictimStatistics;
+
+  /** Victims grouped by location over all processed victims */
+  locations: VictimLocation[];
+
+  /** Processed victims indexed by id */
+  byId: Map<string, ProcessedVictimData>;
+
+  /** Victims with an exact date grouped by ISO date (from groupByDate) */
+  byDate: Map<string, ProcessedVictimData[]>;
+
+  /** Location groups keyed by location name (from groupByLocation) */
+  byLocation: Map<string, VictimLocation>;
+
+  /** SHA-256 hash of the CSV content */
+  contentHash: string;
+
+  /** Weak entity tag derived from the content hash */
+  etag: string;
+
+  /** Modification time of the CSV file */
+  lastModified: Date;
+
+  /** When the dataset was built (Unix timestamp in milliseconds) */
+  loadedAt: number;
+}
+
+/**
+ * Cache entry with the file stats used for cheap change detection
+ */
+interface CacheEntry {
+  dataset: VictimDataset;
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * Cached datasets keyed by file path
+ */
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Loads in progress keyed by file path, so concurrent requests share one parse
+ */
+const pendingLoads = new Map<string, Promise<VictimDataset>>();
+
+/**
+ * Get the default path of the victim data file
+ */
+export function getDefaultDataFilePath(): string {
+  return path.join(process.cwd(), 'data', 'victims.csv');
+}
+
+/**
+ * Build a dataset from CSV content
+ */
+function buildDataset(
+  filePath: string,
+  csvContent: string,
+  contentHash: string,
+  mtimeMs: number
+): VictimDataset {
+  const { records: rawRecords, rows: sourceRows, errors: parseErrors } =
+    parseVictimCSVWithDiagnostics(csvContent);
+  const processingResult = processVictimDataArray(rawRecords);
+  const victims = sortVictimsByDate(processingResult.processedData);
+
+  // Log once per load if some records failed but not all; the rows are listed
+  // by /api/diagnostics/validation
+  const failedCount = processingResult.failedRecords.length;
+  if (failedCount > 0 && failedCount < rawRecords.length) {
+    console.warn(
+      `Warning: ${failedCount} of ${rawRecords.length} records failed processing ` +
+        '(see /api/diagnostics/validation)'
+    );
+  }
+
+  const locations = groupByLocation(victims);
+
+  return {
+    filePath,
+    rawRecords,
+    sourceRows,
+    parseErrors,
+    processingResult,
+    victims,
+    statistics: calculateVictimStatistics(victims),
+    locations,
+    byId: new Map(victims.map((victim) => [victim.id, victim])),
+    byDate: new Map(
+      groupByDate(victims.filter((victim) => isPreciseDate(victim.dateQuality))).map((group) => [
+        group.key,
+        group.items,
+      ])
+    ),
+    byLocation: new Map(locations.map((group) => [group.location, group])),
+    contentHash,
+    etag: `W/"${contentHash.substring(0, 32)}"`,
+    lastModified: new Date(mtimeMs),
+    loadedAt: Date.now(),
+  };
+}
+
+/**
+ * Load the dataset, reusing the cached copy while the file is unchanged
+ * The file is re-read when its mtime or size changes, and only re-parsed
+ * when the content hash differs from the cached one
+ */
+async function loadDataset(filePath: string): Promise<VictimDataset> {
+  const stats = await fs.stat(filePath);
+  const cached = cache.get(filePath);
+
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.dataset;
+  }
+
+  const csvContent = await fs.readFile(filePath, 'utf-8');
+  const contentHash = createHash('sha256').update(csvContent, 'utf8').digest('hex');
+
+  // File was touched but its content is the same
+  if (cached && cached.dataset.contentHash === contentHash) {
+    cache.set(filePath, { ...cached, mtimeMs: stats.mtimeMs, size: stats.size });
+    return cached.dataset;
+  }
+
+  const dataset = buildDataset(filePath, csvContent, contentHash, stats.mtimeMs);
+  cache.set(filePath, { dataset, mtimeMs: stats.mtimeMs, size: stats.size });
+
+  return dataset;
+}
+
+/**
+ * Get the processed victim dataset
+ * File system and parsing errors are propagated to the caller
+ *
+ * @param filePath - Path to the CSV file (defaults to data/victims.csv)
+ * @returns The current dataset
+ */
+export async function getVictimDataset(
+  filePath: string = getDefaultDataFilePath()
+): Promise<VictimDataset> {
+  const pending = pendingLoads.get(filePath);
+  if (pending) {
+    return pending;
+  }
+
+  const load = loadDataset(filePath).finally(() => {
+    pendingLoads.delete(filePath);
+  });
+  pendingLoads.set(filePath, load);
+
+  return load;
+}
+
+/**
+ * Victims sharing a location or date with a given victim
+ */
+export interface RelatedVictims {
+  sameLocation: ProcessedVictimData[];
+  sameDate: ProcessedVictimData[];
+}
+
+/**
+ * Find other victims from the same location and the same date (exact dates only)
+ * Uses the dataset's precomputed location and date groups
+ *
+ * @param dataset - Current dataset
+ * @param victim - Victim to find related records for (excluded from the result)
+ * @returns Related victims, each list sorted by date
+ */
+export function getRelatedVictims(
+  dataset: VictimDataset,
+  victim: ProcessedVictimData
+): RelatedVictims {
+  const locationGroup = dataset.byLocation.get(victim.location);
+  const sameLocation = (locationGroup?.victimIds ?? [])
+    .filter((id) => id !== victim.id)
+    .map((id) => dataset.byId.get(id))
+    .filter((related): related is ProcessedVictimData => related !== undefined);
+
+  // A victim without an exact date shares it with no one
+  const sameDate = isPreciseDate(victim.dateQuality)
+    ? (dataset.byDate.get(victim.date) ?? []).filter((related) => related.id !== victim.id)
+    : [];
+
+  return {
+    sameLocation: sortVictimsByDate(sameLocation),
+    sameDate,
+  };
+}
+
+/**
+ * Drop all cached datasets (used by tests and after manual data updates)
+ */
+export function clearVictimDatasetCache(): void {
+  cache.clear();
+  pendingLoads.clear();
+}
+
+/**
+ * HTTP caching headers for responses derived from the dataset
+ */
+export function getDatasetCacheHeaders(dataset: VictimDataset): Record<string, string> {
+  return {
+    ETag: dataset.etag,
+    'Last-Modified': dataset.lastModified.toUTCString(),
+    'Cache-Control': 'no-cache',
+  };
+}
+
+/**
+ * Check conditional request headers against the dataset version
+ * If-None-Match takes precedence over If-Modified-Since, as in RFC 9110
+ *
+ * @param headers - Request headers
+ * @param dataset - Current dataset
+ * @returns true when the client's copy is current and 304 should be returned
+ */
+export function isDatasetNotModified(headers: Headers, dataset: VictimDataset): boolean {
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch) {
+    const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch
+      .split(',')
+      .some((tag) => tag.trim() === '*' || stripWeak(tag) === stripWeak(dataset.etag));
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(dataset.lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
@@ -0,0 +1,105 @@
+/**
+ * Parsing of the date column of the source sheet
+ * Accepts DD/MM/YYYY, D.M.YY, ISO and month/year dates and records how precise
+ * the result is, so that rows without a usable date are not silently counted
+ * on October 7
+ */
+
+import type { DateQuality } from '@/types/victim';
+
+/**
+ * Date given to records whose date is missing or cannot be parsed
+ */
+export const DEFAULT_DATE = '2023-10-07';
+
+/**
+ * All date qualities, from most to least precise
+ */
+export const DATE_QUALITIES: readonly DateQuality[] = ['exact', 'partial', 'missing', 'defaulted'] as const;
+
+/**
+ * Parsed date with its precision
+ */
+export interface ParsedDate {
+  /** Date in ISO 8601 format (YYYY-MM-DD); the 1st of the month for partial dates */
+  date: string;
+
+  /** How precise the date is */
+  quality: DateQuality;
+}
+
+// Day, month and year separated by "/", "." or "-" (D/M/YY, DD.MM.YYYY, ...)
+const DAY_MONTH_YEAR = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+
+// Month and year only (MM/YYYY, M.YY, ...)
+const MONTH_YEAR = /^(\d{1,2})[/.-](\d{2}|\d{4})$/;
+
+// ISO date or ISO month (YYYY-MM-DD, YYYY-MM)
+const ISO_DATE = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/;
+
+/**
+ * Expand a two-digit year (the sheet starts in 2023, so 23 is 2023)
+ */
+function toFullYear(year: string): number {
+  const value = parseInt(year, 10);
+  return year.length === 2 ? 2000 + value : value;
+}
+
+/**
+ * Format date parts as an ISO date, or undefined when they are not a calendar date
+ */
+function toISODate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a date from the source sheet
+ *
+ * @param value - Raw cell value
+ * @returns ISO date and quality: exact for a full date, partial for a month and year
+ *   (placed on the 1st), missing for an empty cell or "-" and defaulted for a value
+ *   that is not a date (both placed on DEFAULT_DATE)
+ */
+export function parseSheetDate(value: string | undefined): ParsedDate {
+  const text = value?.trim() ?? '';
+  if (!text || text === '-') {
+    return { date: DEFAULT_DATE, quality: 'missing' };
+  }
+
+  const iso = ISO_DATE.exec(text);
+  const dayMonthYear = iso ? null : DAY_MONTH_YEAR.exec(text);
+  const monthYear = iso || dayMonthYear ? null : MONTH_YEAR.exec(text);
+
+  let date: string | undefined;
+  let quality: DateQuality = 'exact';
+  if (iso) {
+    quality = iso[3] ? 'exact' : 'partial';
+    date = toISODate(Number(iso[1]), Number(iso[2]), iso[3] ? Number(iso[3]) : 1);
+  } else if (dayMonthYear) {
+    date = toISODate(toFullYear(dayMonthYear[3]), Number(dayMonthYear[2]), Number(dayMonthYear[1]));
+  } else if (monthYear) {
+    quality = 'partial';
+    date = toISODate(toFullYear(monthYear[2]), Number(monthYear[1]), 1);
+  }
+
+  return date ? { date, quality } : { date: DEFAULT_DATE, quality: 'defaulted' };
+}
+
+/**
+ * Whether a date quality places the record on its real day
+ */
+export function isPreciseDate(quality: DateQuality): boolean {
+  return quality === 'exact';
+}
+
+/**
+ * Whether a date quality comes from the sheet (missing and defaulted dates are
+ * placed on DEFAULT_DATE)
+ */
+export function hasSheetDate(quality: DateQuality): boolean {
+  return quality !== 'missing' && quality !== 'defaulted';
+}
@@ -0,0 +1,59 @@
+/**
+ * Origins of attacks per front
+ * Loaded from data/front-origins.json (one launch area per front) and used to
+ * draw rocket, missile and drone deaths as arcs from the front to the victim
+ */
+
+import type { Coordinates, Source, VictimData } from '@/types/victim';
+import frontOriginData from '@/data/front-origins.json';
+
+/**
+ * Launch area of a front
+ */
+export interface FrontOrigin extends Coordinates {
+  /** Front, as in the victim source field */
+  front: Source;
+
+  /** Name of the area in English */
+  nameEn: string;
+}
+
+/**
+ * Causes of death drawn as a trajectory from the front
+ */
+export const TRAJECTORY_CAUSES: readonly string[] = ['רקטות וטילים', 'כטב"מים'];
+
+const origins = new Map<string, FrontOrigin>(
+  (frontOriginData as FrontOrigin[]).map((origin) => [origin.front, origin])
+);
+
+/**
+ * All front origins, in file order
+ */
+export function getFrontOrigins(): FrontOrigin[] {
+  return Array.from(origins.values());
+}
+
+/**
+ * Launch area of a front, if the table has one
+ */
+export function getFrontOrigin(front: Source): FrontOrigin | undefined {
+  return origins.get(front);
+}
+
+/**
+ * Origin of the attack that killed a victim
+ * Only rocket, missile and drone deaths on a front with a known origin have one
+ *
+ * @param victim - Victim with front and cause of death
+ * @returns Coordinates of the launch area, or undefined
+ */
+export function getTrajectoryOrigin(
+  victim: Pick<VictimData, 'source' | 'causeOfDeath'>
+): Coordinates | undefined {
+  if (!victim.causeOfDeath || !TRAJECTORY_CAUSES.includes(victim.causeOfDeath)) {
+    return undefined;
+  }
+  const origin = getFrontOrigin(victim.source);
+  return origin && { latitude: origin.latitude, longitude: origin.longitude };
+}
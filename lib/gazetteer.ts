@@ -0,0 +1,332 @@
+/**
+ * Gazetteer of localities for geocoding Hebrew place names
+ * Loaded from data/gazetteer.json (Hebrew and English names, alternate
+ * spellings, locality type and coordinates) and queried by exact name,
+ * alias, normalized spelling or, as a last resort, a partial match
+ */
+
+import type { Coordinates } from '@/types/victim';
+import gazetteerData from '@/data/gazetteer.json';
+
+/**
+ * Kind of locality
+ */
+export type LocalityType =
+  | 'city'
+  | 'local_council'
+  | 'kibbutz'
+  | 'moshav'
+  | 'community'
+  | 'village'
+  | 'bedouin'
+  | 'neighborhood'
+  | 'region'
+  | 'country'
+  | 'foreign_city';
+
+/**
+ * A locality in the gazetteer
+ */
+export interface GazetteerEntry extends Coordinates {
+  /** Official name in Hebrew */
+  name: string;
+
+  /** Name in English */
+  nameEn: string;
+
+  /** Alternate Hebrew spellings and names */
+  aliases: string[];
+
+  /** Kind of locality */
+  type: LocalityType;
+
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+}
+
+/**
+ * How a query was matched to an entry
+ */
+export type GazetteerMatchType = 'exact' | 'alias' | 'normalized' | 'partial';
+
+/**
+ * Result of a gazetteer lookup
+ */
+export interface GazetteerMatch {
+  /** Matched locality */
+  entry: GazetteerEntry;
+
+  /** Which lookup matched */
+  matchType: GazetteerMatchType;
+
+  /** Match confidence between 0 and 1 */
+  confidence: number;
+
+  /** The place name that was looked up */
+  query: string;
+
+  /** Other localities that matched equally well (partial matches only; empty when unambiguous) */
+  alternatives: GazetteerEntry[];
+}
+
+/**
+ * Confidence reported for each kind of match
+ */
+export const MATCH_CONFIDENCE: Record<GazetteerMatchType, number> = {
+  exact: 1,
+  alias: 0.9,
+  normalized: 0.8,
+  partial: 0.6,
+};
+
+/**
+ * Words in front of a place name that only describe the kind of locality
+ * (e.g. "קיבוץ הזורע", "מושב בטחה")
+ */
+const LOCALITY_PREFIXES = ['קיבוץ', 'מושב', 'מושבה', 'יישוב', 'ישוב'];
+
+/**
+ * Shortest text a partial match may rest on; shorter names (e.g. "מגן")
+ * are too often part of unrelated strings
+ */
+const MIN_PARTIAL_MATCH_LENGTH = 4;
+
+/**
+ * Locality types that cover a wide area; a partial match on a locality
+ * is preferred over them
+ */
+const BROAD_LOCALITY_TYPES: ReadonlySet<LocalityType> = new Set(['region', 'country']);
+
+/**
+ * Normalize a Hebrew place name for comparison
+ * Strips niqqud, unifies geresh/gershayim with ASCII quotes, turns hyphens,
+ * dashes, parentheses, commas and slashes into spaces, collapses whitespace and drops a
+ * leading locality kind ("קיבוץ", "מושב", ...)
+ *
+ * @example
+ * normalizePlaceName('תל אביב - יפו') // 'תל אביב יפו'
+ * normalizePlaceName('קיבוץ הזורע') // 'הזורע'
+ */
+export function normalizePlaceName(name: string): string {
+  const words = name
+    .replace(/[֑-ׇ]/g, '')
+    .replace(/[״“”]/g, '"')
+    .replace(/[׳‘’`]/g, "'")
+    .replace(/[-־–—(),/]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (words.length > 1 && LOCALITY_PREFIXES.includes(words[0])) {
+    words.shift();
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Position of a word sequence inside another, or -1
+ */
+function indexOfWords(haystack: string[], needle: string[]): number {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((word, offset) => haystack[start + offset] === word)) {
+      return start;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Candidate for a partial match
+ */
+interface PartialCandidate {
+  entry: GazetteerEntry;
+  /** Length of the text both names share */
+  matchedLength: number;
+  /** Whether the entry covers a wide area (region or country) */
+  broad: boolean;
+}
+
+/**
+ * Order partial candidates from best to worst: localities before the regions
+ * and countries around them, then longest shared text first
+ */
+function comparePartialCandidates(a: PartialCandidate, b: PartialCandidate): number {
+  return Number(a.broad) - Number(b.broad) || b.matchedLength - a.matchedLength;
+}
+
+/**
+ * Lookup index over a list of localities
+ */
+export class Gazetteer {
+  private readonly byName = new Map<string, GazetteerEntry>();
+  private readonly byAlias = new Map<string, GazetteerEntry>();
+  private readonly byNormalized = new Map<string, GazetteerEntry>();
+  private readonly normalizedNames: Array<{ words: string[]; entry: GazetteerEntry }> = [];
+
+  constructor(private readonly localities: readonly GazetteerEntry[]) {
+    // The first entry wins when two localities share a name
+    for (const entry of localities) {
+      if (!this.byName.has(entry.name)) {
+        this.byName.set(entry.name, entry);
+      }
+      for (const alias of entry.aliases) {
+        if (!this.byAlias.has(alias)) {
+          this.byAlias.set(alias, entry);
+        }
+      }
+      for (const name of [entry.name, ...entry.aliases]) {
+        const normalized = normalizePlaceName(name);
+        if (!this.byNormalized.has(normalized)) {
+          this.byNormalized.set(normalized, entry);
+        }
+        this.normalizedNames.push({ words: normalized.split(' '), entry });
+      }
+    }
+  }
+
+  /**
+   * Number of localities
+   */
+  get size(): number {
+    return this.localities.length;
+  }
+
+  /**
+   * All localities, in file order
+   */
+  entries(): readonly GazetteerEntry[] {
+    return this.localities;
+  }
+
+  /**
+   * Find a locality by its official Hebrew name
+   */
+  lookupExact(name: string): GazetteerEntry | undefined {
+    return this.byName.get(name.trim());
+  }
+
+  /**
+   * Find a locality by one of its alternate names
+   */
+  lookupAlias(name: string): GazetteerEntry | undefined {
+    return this.byAlias.get(name.trim());
+  }
+
+  /**
+   * Find a locality by name or alias after normalizing both sides
+   */
+  lookupNormalized(name: string): GazetteerEntry | undefined {
+    return this.byNormalized.get(normalizePlaceName(name));
+  }
+
+  /**
+   * Find localities sharing whole words with a place name
+   * A locality matches when its normalized name appears as a word sequence in
+   * the query (e.g. "מנצ'סטר- בריטניה") or the query appears in its name.
+   * Matches shorter than MIN_PARTIAL_MATCH_LENGTH characters are ignored
+   *
+   * @param name - Place name as written in the source data
+   * @returns Matching localities, best first (one per locality)
+   */
+  lookupPartial(name: string): GazetteerEntry[] {
+    return this.rankPartialMatches(name).map((candidate) => candidate.entry);
+  }
+
+  /**
+   * Partial match candidates, best first
+   */
+  private rankPartialMatches(name: string): PartialCandidate[] {
+    const query = normalizePlaceName(name);
+    if (query.length < MIN_PARTIAL_MATCH_LENGTH) {
+      return [];
+    }
+
+    const queryWords = query.split(' ');
+    const best = new Map<GazetteerEntry, PartialCandidate>();
+
+    for (const { words, entry } of this.normalizedNames) {
+      let matchedLength = 0;
+      if (indexOfWords(queryWords, words) >= 0) {
+        matchedLength = words.join(' ').length;
+      } else if (indexOfWords(words, queryWords) >= 0) {
+        matchedLength = query.length;
+      }
+
+      if (matchedLength < MIN_PARTIAL_MATCH_LENGTH) {
+        continue;
+      }
+
+      const current = best.get(entry);
+      if (!current || current.matchedLength < matchedLength) {
+        best.set(entry, { entry, matchedLength, broad: BROAD_LOCALITY_TYPES.has(entry.type) });
+      }
+    }
+
+    return Array.from(best.values()).sort(comparePartialCandidates);
+  }
+
+  /**
+   * Best partial match, with the localities that match equally well
+   */
+  private matchPartial(query: string): GazetteerMatch | null {
+    const [first, ...rest] = this.rankPartialMatches(query);
+    if (!first) {
+      return null;
+    }
+
+    const alternatives = rest
+      .filter((candidate) => comparePartialCandidates(first, candidate) === 0)
+      .map((candidate) => candidate.entry);
+
+    return {
+      entry: first.entry,
+      matchType: 'partial',
+      confidence: MATCH_CONFIDENCE.partial / (alternatives.length + 1),
+      query,
+      alternatives,
+    };
+  }
+
+  /**
+   * Find a locality, trying exact, alias, normalized and partial lookups in that order
+   * A partial match with several equally good localities is ambiguous: the first
+   * one in file order is returned, the others are listed in `alternatives` and
+   * the confidence is divided among them
+   *
+   * @param name - Place name as written in the source data
+   * @returns The match with its confidence, or null when nothing matches
+   */
+  lookup(name: string): GazetteerMatch | null {
+    const query = name.trim();
+    if (!query) {
+      return null;
+    }
+
+    const lookups: Array<[Exclude<GazetteerMatchType, 'partial'>, (value: string) => GazetteerEntry | undefined]> = [
+      ['exact', (value) => this.lookupExact(value)],
+      ['alias', (value) => this.lookupAlias(value)],
+      ['normalized', (value) => this.lookupNormalized(value)],
+    ];
+
+    for (const [matchType, find] of lookups) {
+      const entry = find(query);
+      if (entry) {
+        return { entry, matchType, confidence: MATCH_CONFIDENCE[matchType], query, alternatives: [] };
+      }
+    }
+
+    return this.matchPartial(query);
+  }
+}
+
+let defaultGazetteer: Gazetteer | null = null;
+
+/**
+ * Gazetteer built from the bundled data/gazetteer.json (created on first use)
+ */
+export function getDefaultGazetteer(): Gazetteer {
+  if (!defaultGazetteer) {
+    defaultGazetteer = new Gazetteer(gazetteerData as GazetteerEntry[]);
+  }
+  return defaultGazetteer;
+}
@@ -0,0 +1,112 @@
+/**
+ * Geocoding diagnostics
+ * Summarizes how the location names of the dataset were resolved, so names
+ * missing from the gazetteer, and ambiguous partial matches, can be found and fixed
+ */
+
+import type { GeocodeStatus, VictimData } from '@/types/victim';
+import { geocodeLocation } from '@/lib/locationCoordinates';
+
+/**
+ * Geocode statuses, from most to least reliable
+ */
+export const GEOCODE_STATUSES: readonly GeocodeStatus[] = ['exact', 'alias', 'partial', 'fallback'] as const;
+
+/**
+ * Number of records with a location name
+ */
+export interface LocationNameCount {
+  location: string;
+  count: number;
+}
+
+/**
+ * Location name resolved by a partial match
+ */
+export interface PartialLocationNameCount extends LocationNameCount {
+  /** Gazetteer name the location was matched to */
+  matchedName: string;
+
+  /** Other gazetteer names that matched equally well (non-empty when ambiguous) */
+  alternatives: string[];
+}
+
+/**
+ * Geocoding summary over a set of records
+ */
+export interface GeocodingReport {
+  /** Number of records */
+  total: number;
+
+  /** Number of records per geocode status */
+  byStatus: Record<GeocodeStatus, number>;
+
+  /** Location names placed at the fallback coordinates, most frequent first */
+  unresolved: LocationNameCount[];
+
+  /** Location names resolved only by a partial match, most frequent first */
+  partial: PartialLocationNameCount[];
+}
+
+/**
+ * Count location names, most frequent first (ties by name)
+ */
+function countLocationNames(locations: string[]): LocationNameCount[] {
+  const counts = new Map<string, number>();
+  locations.forEach((location) => counts.set(location, (counts.get(location) ?? 0) + 1));
+
+  return Array.from(counts, ([location, count]) => ({ location, count })).sort(
+    (a, b) => b.count - a.count || a.location.localeCompare(b.location, 'he')
+  );
+}
+
+/**
+ * Add the matched gazetteer name and any equally good alternatives
+ */
+function describePartialMatch(locationCount: LocationNameCount): PartialLocationNameCount {
+  const { match } = geocodeLocation(locationCount.location);
+
+  return {
+    ...locationCount,
+    matchedName: match?.entry.name ?? '',
+    alternatives: match?.alternatives.map((entry) => entry.name) ?? [],
+  };
+}
+
+/**
+ * Summarize the geocoding of records
+ * Records without a geocodeStatus had their coordinates in the source data
+ * and count as exact
+ *
+ * @param records - Raw or processed victim records
+ * @returns Counts per status and the unresolved and partially matched names
+ */
+export function createGeocodingReport(
+  records: ReadonlyArray<Partial<Pick<VictimData, 'location' | 'geocodeStatus'>>>
+): GeocodingReport {
+  const byStatus = Object.fromEntries(GEOCODE_STATUSES.map((status) => [status, 0])) as Record<
+    GeocodeStatus,
+    number
+  >;
+  const unresolved: string[] = [];
+  const partial: string[] = [];
+
+  records.forEach((record) => {
+    const status = record.geocodeStatus ?? 'exact';
+    byStatus[status] += 1;
+
+    const location = record.location?.trim() ?? '';
+    if (status === 'fallback') {
+      unresolved.push(location);
+    } else if (status === 'partial') {
+      partial.push(location);
+    }
+  });
+
+  return {
+    total: records.length,
+    byStatus,
+    unresolved: countLocationNames(unresolved),
+    partial: countLocationNames(partial).map(describePartialMatch),
+  };
+}
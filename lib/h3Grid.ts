@@ -0,0 +1,45 @@
+/**
+ * H3 grid aggregation of victim positions
+ * Counts victims per H3 cell for the Kepler.gl H3 layer, which draws one
+ * hexagon per row and does not aggregate points itself
+ */
+
+import { geoToH3 } from 'h3-js';
+import type { Coordinates } from '@/types/victim';
+
+/**
+ * H3 resolution of the grid (cells of about 5 km²)
+ */
+export const H3_RESOLUTION = 7;
+
+/**
+ * Number of victims in one H3 cell
+ */
+export interface H3CellCount {
+  /** H3 cell index */
+  hexId: string;
+
+  /** Number of victims in the cell */
+  count: number;
+}
+
+/**
+ * Group positions by the H3 cell they fall in
+ *
+ * @param points - Victim positions
+ * @param resolution - H3 resolution (default: H3_RESOLUTION)
+ * @returns Cells with their counts, largest first
+ */
+export function groupByH3Cell(
+  points: readonly Coordinates[],
+  resolution: number = H3_RESOLUTION
+): H3CellCount[] {
+  const counts = new Map<string, number>();
+
+  for (const point of points) {
+    const hexId = geoToH3(point.latitude, point.longitude, resolution);
+    counts.set(hexId, (counts.get(hexId) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([hexId, count]) => ({ hexId, count })).sort((a, b) => b.count - a.count);
+}
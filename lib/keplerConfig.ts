@@ -0,0 +1,541 @@
+/**
+ * Typed builders for the Kepler.gl datasets and map config
+ * The map merges data/kepler-config.json (theme, tooltips, view) with datasets,
+ * layers and filters built here; buildKeplerConfig checks that every layer and
+ * filter refers to a dataset field before the config reaches Kepler.gl
+ */
+
+import type { ParsedConfig, ParsedFilter, ParsedMapState, ProtoDataset, SavedLayer } from '@kepler.gl/types';
+import keplerConfigJson from '@/data/kepler-config.json';
+import type {
+  Coordinates,
+  DateQuality,
+  GeocodeStatus,
+  ProcessedVictimData,
+  TimeRange,
+  VictimLocation,
+} from '@/types/victim';
+import type { H3CellCount } from '@/lib/h3Grid';
+import type { MapViewState, TimeWindow } from '@/lib/urlState';
+import { getTrajectoryOrigin } from '@/lib/frontOrigins';
+import {
+  H3_DATASET_ID,
+  LOCATION_DATASET_ID,
+  VICTIM_DATASET_ID,
+  type MapGeography,
+} from '@/lib/mapSelection';
+import { chooseHistogramInterval } from '@/lib/timeline';
+
+/**
+ * Error thrown when a built config does not match its datasets
+ */
+export class KeplerConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = 'KeplerConfigError';
+    Object.setPrototypeOf(this, KeplerConfigError.prototype);
+  }
+}
+
+/**
+ * Kepler.gl field types used by the datasets
+ */
+export type KeplerFieldType = 'string' | 'integer' | 'real' | 'boolean' | 'date' | 'timestamp';
+
+/**
+ * Kepler.gl color range
+ */
+export interface KeplerColorRange {
+  name: string;
+  type: 'sequential' | 'diverging' | 'qualitative';
+  category: string;
+  colors: string[];
+}
+
+/**
+ * Kepler.gl field reference used by visual channels and labels
+ */
+export interface KeplerFieldRef {
+  name: string;
+  type: KeplerFieldType;
+}
+
+/**
+ * Kepler.gl text label of a layer, as saved in a map config
+ */
+export type KeplerTextLabel = SavedLayer['config']['textLabel'];
+
+/**
+ * Kepler.gl layer configuration, as saved in a map config
+ */
+export interface KeplerLayerConfig {
+  id: string;
+  type: 'point' | 'heatmap' | 'hexagon' | 'hexagonId' | 'arc';
+  config: {
+    dataId: string;
+    label: string;
+    color: [number, number, number];
+    columns: Record<string, string>;
+    isVisible: boolean;
+    visConfig: Record<string, unknown>;
+    hidden: boolean;
+    textLabel?: KeplerTextLabel;
+  };
+  visualChannels: Record<string, KeplerFieldRef | string | null>;
+}
+
+/**
+ * Dataset built for Kepler.gl
+ */
+export interface KeplerDataset extends ProtoDataset {
+  info: { id: string; label: string };
+  data: {
+    fields: Array<{ name: string; type: KeplerFieldType }>;
+    rows: unknown[][];
+  };
+}
+
+/**
+ * Column of a dataset: its field and how to read it from a record
+ */
+export interface DatasetColumn<T, C = void> {
+  name: string;
+  type: KeplerFieldType;
+  value: (record: T, context: C) => unknown;
+}
+
+/**
+ * Saved filter with the settings Kepler.gl 3 reads but its saved filter type omits
+ */
+export type KeplerFilterConfig = ParsedFilter & {
+  animationWindow?: 'free' | 'incremental' | 'point' | 'interval';
+  enabled?: boolean;
+};
+
+/**
+ * Drawn position of each victim per geography, by victim id (see lib/pointLayout)
+ */
+export type VictimPointPositions = Record<MapGeography, ReadonlyMap<string, Coordinates>>;
+
+/**
+ * Id of the timeline filter
+ */
+export const TIMELINE_FILTER_ID = 'timeline';
+
+/**
+ * Id of the filter that hides points whose location was not geocoded
+ */
+export const GEOCODE_FILTER_ID = 'geocoding';
+
+/**
+ * Id of the filter that hides victims whose date is not exact
+ */
+export const DATE_QUALITY_FILTER_ID = 'date-quality';
+
+/**
+ * Victim fields copied into the dataset as they are, with their Kepler.gl types
+ * Keys are checked against ProcessedVictimData, so a renamed field fails to compile
+ */
+export const VICTIM_FIELD_TYPES = {
+  id: 'string',
+  fullName: 'string',
+  firstName: 'string',
+  lastName: 'string',
+  age: 'integer',
+  gender: 'string',
+  location: 'string',
+  latitude: 'real',
+  longitude: 'real',
+  date: 'date',
+  timestamp: 'timestamp',
+  source: 'string',
+  category: 'string',
+  type: 'string',
+  causeOfDeath: 'string',
+  rank: 'string',
+  isCivilian: 'boolean',
+  url: 'string',
+  geocodeStatus: 'string',
+  dateQuality: 'string',
+} as const satisfies Partial<Record<keyof ProcessedVictimData, KeplerFieldType>>;
+
+/**
+ * Columns of the victim dataset: the copied fields, then the place of the
+ * incident, the drawn positions and the attack origin
+ */
+export const VICTIM_DATASET_COLUMNS: ReadonlyArray<DatasetColumn<ProcessedVictimData, VictimPointPositions>> = [
+  ...(Object.keys(VICTIM_FIELD_TYPES) as Array<keyof typeof VICTIM_FIELD_TYPES>).map(
+    (name): DatasetColumn<ProcessedVictimData, VictimPointPositions> => ({
+      name,
+      type: VICTIM_FIELD_TYPES[name],
+      value: (victim) => victim[name] ?? null,
+    })
+  ),
+  { name: 'incidentLocation', type: 'string', value: (victim) => victim.incidentLocation?.name ?? null },
+  { name: 'incidentLatitude', type: 'real', value: (victim) => victim.incidentLocation?.latitude ?? null },
+  { name: 'incidentLongitude', type: 'real', value: (victim) => victim.incidentLocation?.longitude ?? null },
+  {
+    name: 'incidentGeocodeStatus',
+    type: 'string',
+    value: (victim) => victim.incidentLocation?.geocodeStatus ?? null,
+  },
+  {
+    name: 'pointLatitude',
+    type: 'real',
+    value: (victim, positions) => positions.residence.get(victim.id)?.latitude ?? null,
+  },
+  {
+    name: 'pointLongitude',
+    type: 'real',
+    value: (victim, positions) => positions.residence.get(victim.id)?.longitude ?? null,
+  },
+  {
+    name: 'incidentPointLatitude',
+    type: 'real',
+    value: (victim, positions) => positions.incident.get(victim.id)?.latitude ?? null,
+  },
+  {
+    name: 'incidentPointLongitude',
+    type: 'real',
+    value: (victim, positions) => positions.incident.get(victim.id)?.longitude ?? null,
+  },
+  { name: 'originLatitude', type: 'real', value: (victim) => getTrajectoryOrigin(victim)?.latitude ?? null },
+  { name: 'originLongitude', type: 'real', value: (victim) => getTrajectoryOrigin(victim)?.longitude ?? null },
+];
+
+const LOCATION_DATASET_COLUMNS: ReadonlyArray<DatasetColumn<VictimLocation>> = [
+  { name: 'location', type: 'string', value: (location) => location.location },
+  { name: 'latitude', type: 'real', value: (location) => location.latitude },
+  { name: 'longitude', type: 'real', value: (location) => location.longitude },
+  { name: 'count', type: 'integer', value: (location) => location.count },
+  { name: 'label', type: 'string', value: (location) => `${location.location} (${location.count})` },
+];
+
+const H3_DATASET_COLUMNS: ReadonlyArray<DatasetColumn<H3CellCount>> = [
+  { name: 'hexId', type: 'string', value: (cell) => cell.hexId },
+  { name: 'count', type: 'integer', value: (cell) => cell.count },
+];
+
+/**
+ * Whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value has the shape of a Kepler.gl map config
+ * JSON imports widen literals (filter types, colors) to string and number[], so
+ * data/kepler-config.json is checked at load rather than typed by its import
+ */
+function isParsedConfig(value: unknown): value is ParsedConfig {
+  if (!isRecord(value) || !isRecord(value.visState)) {
+    return false;
+  }
+  const { visState, mapState, mapStyle } = value;
+  return (
+    (visState.layers === undefined || Array.isArray(visState.layers)) &&
+    (visState.filters === undefined || Array.isArray(visState.filters)) &&
+    (visState.interactionConfig === undefined || isRecord(visState.interactionConfig)) &&
+    (mapState === undefined || isRecord(mapState)) &&
+    (mapStyle === undefined || isRecord(mapStyle))
+  );
+}
+
+/**
+ * Check the config of data/kepler-config.json
+ *
+ * @throws KeplerConfigError when it does not have the shape of a map config
+ */
+function loadBaseConfig(value: unknown): ParsedConfig {
+  if (!isParsedConfig(value)) {
+    throw new KeplerConfigError('Invalid Kepler.gl configuration in data/kepler-config.json');
+  }
+  return value;
+}
+
+/**
+ * Base config from data/kepler-config.json
+ */
+const BASE_CONFIG = loadBaseConfig(keplerConfigJson.config);
+
+/**
+ * Text label settings a layer does not set (Kepler.gl's defaults)
+ */
+const DEFAULT_TEXT_LABEL: Omit<KeplerTextLabel, 'field'> = {
+  color: [255, 255, 255],
+  background: false,
+  size: 18,
+  offset: [0, 0],
+  anchor: 'start',
+  alignment: 'center',
+  outlineWidth: 0,
+  outlineColor: [255, 0, 0, 255],
+  backgroundColor: [0, 0, 200, 255],
+};
+
+/**
+ * Build a dataset whose fields and rows come from the same column list
+ *
+ * @param info - Dataset id and label
+ * @param columns - Columns, in field order
+ * @param records - One record per row
+ * @param context - Extra input passed to every column
+ */
+export function buildDataset<T, C>(
+  info: { id: string; label: string },
+  columns: ReadonlyArray<DatasetColumn<T, C>>,
+  records: readonly T[],
+  context: C
+): KeplerDataset {
+  return {
+    info,
+    data: {
+      fields: columns.map(({ name, type }) => ({ name, type })),
+      rows: records.map((record) => columns.map((column) => column.value(record, context))),
+    },
+  };
+}
+
+/**
+ * Dataset of the victims, with the drawn position of each point
+ */
+export function buildVictimDataset(data: readonly ProcessedVictimData[], positions: VictimPointPositions): KeplerDataset {
+  return buildDataset(
+    { id: VICTIM_DATASET_ID, label: 'October 7th Victims' },
+    VICTIM_DATASET_COLUMNS,
+    data,
+    positions
+  );
+}
+
+/**
+ * Dataset of the victim counts per location
+ */
+export function buildLocationDataset(locations: readonly VictimLocation[]): KeplerDataset {
+  return buildDataset(
+    { id: LOCATION_DATASET_ID, label: 'Victims per location' },
+    LOCATION_DATASET_COLUMNS,
+    locations,
+    undefined
+  );
+}
+
+/**
+ * Dataset of the victim counts per H3 cell
+ */
+export function buildH3Dataset(cells: readonly H3CellCount[]): KeplerDataset {
+  return buildDataset({ id: H3_DATASET_ID, label: 'Victims per H3 cell' }, H3_DATASET_COLUMNS, cells, undefined);
+}
+
+/**
+ * Options of a point layer
+ */
+export interface PointLayerOptions {
+  id: string;
+  dataId: string;
+  label: string;
+  color: [number, number, number];
+  columns: { lat: string; lng: string };
+  isVisible: boolean;
+  visConfig: Record<string, unknown>;
+  /** Text label; settings left out take Kepler.gl's defaults */
+  textLabel?: Pick<KeplerTextLabel, 'field'> & Partial<KeplerTextLabel>;
+  /** Visual channels to set; the rest are left unbound */
+  visualChannels?: KeplerLayerConfig['visualChannels'];
+}
+
+/**
+ * Point layer over a dataset's latitude and longitude columns
+ */
+export function buildPointLayer({
+  id,
+  dataId,
+  label,
+  color,
+  columns,
+  isVisible,
+  visConfig,
+  textLabel,
+  visualChannels,
+}: PointLayerOptions): KeplerLayerConfig {
+  return {
+    id,
+    type: 'point',
+    config: {
+      dataId,
+      label,
+      color,
+      columns,
+      isVisible,
+      visConfig,
+      hidden: false,
+      ...(textLabel && { textLabel: { ...DEFAULT_TEXT_LABEL, ...textLabel } }),
+    },
+    visualChannels: {
+      colorField: null,
+      colorScale: 'quantile',
+      strokeColorField: null,
+      strokeColorScale: 'quantile',
+      sizeField: null,
+      sizeScale: 'linear',
+      ...visualChannels,
+    },
+  };
+}
+
+/**
+ * Timeline filter over the victim timestamps
+ * The histogram interval follows the span of the data
+ *
+ * @param timeRange - Earliest and latest victim timestamps
+ * @param value - Initial window
+ */
+export function buildTimelineFilter(timeRange: TimeRange, value: TimeWindow): KeplerFilterConfig {
+  return {
+    dataId: [VICTIM_DATASET_ID],
+    id: TIMELINE_FILTER_ID,
+    name: ['timestamp'],
+    type: 'timeRange',
+    value,
+    plotType: {
+      interval: chooseHistogramInterval(timeRange.max - timeRange.min),
+      defaultTimeFormat: 'YYYY-MM-DD',
+      type: 'histogram',
+      aggregation: 'sum',
+    },
+    animationWindow: 'free',
+    yAxis: null,
+    view: 'enlarged',
+    speed: 1,
+    enabled: true,
+  };
+}
+
+/**
+ * Filter keeping the victims whose geocode status is listed
+ *
+ * @param field - Dataset field holding the status (per geography)
+ * @param statuses - Statuses to show
+ */
+export function buildGeocodeFilter(field: string, statuses: readonly GeocodeStatus[]): KeplerFilterConfig {
+  return {
+    dataId: [VICTIM_DATASET_ID],
+    id: GEOCODE_FILTER_ID,
+    name: [field],
+    type: 'multiSelect',
+    value: [...statuses],
+    enabled: true,
+  };
+}
+
+/**
+ * Filter keeping the victims whose date quality is listed
+ *
+ * @param qualities - Date qualities to show
+ */
+export function buildDateQualityFilter(qualities: readonly DateQuality[]): KeplerFilterConfig {
+  return {
+    dataId: [VICTIM_DATASET_ID],
+    id: DATE_QUALITY_FILTER_ID,
+    name: ['dateQuality'],
+    type: 'multiSelect',
+    value: [...qualities],
+    enabled: true,
+  };
+}
+
+/**
+ * Map state from the base config, with a view (e.g. from the URL) on top
+ */
+export function buildMapState(view?: MapViewState): ParsedMapState {
+  return { ...BASE_CONFIG.mapState, ...view };
+}
+
+/**
+ * Find layers and filters that refer to a missing dataset or field
+ *
+ * @returns One message per problem (empty when the config is consistent)
+ */
+export function validateKeplerConfig(config: ParsedConfig, datasets: readonly KeplerDataset[]): string[] {
+  const fieldsById = new Map(
+    datasets.map((dataset) => [dataset.info.id, new Set(dataset.data.fields.map((field) => field.name))])
+  );
+  const problems: string[] = [];
+
+  (config.visState?.layers ?? []).forEach((layer) => {
+    const fields = fieldsById.get(layer.config.dataId);
+    if (!fields) {
+      problems.push(`Layer "${layer.id}" refers to unknown dataset "${layer.config.dataId}"`);
+      return;
+    }
+    Object.values(layer.config.columns ?? {}).forEach((column) => {
+      if (!fields.has(column)) {
+        problems.push(`Layer "${layer.id}" refers to unknown field "${column}"`);
+      }
+    });
+  });
+
+  (config.visState?.filters ?? []).forEach((filter) => {
+    const dataIds = Array.isArray(filter.dataId) ? filter.dataId : [filter.dataId];
+    const names = Array.isArray(filter.name) ? filter.name : [filter.name];
+    dataIds.forEach((dataId, index) => {
+      const fields = fieldsById.get(dataId);
+      if (!fields) {
+        problems.push(`Filter "${filter.id}" refers to unknown dataset "${dataId}"`);
+      } else if (names[index] && !fields.has(names[index])) {
+        problems.push(`Filter "${filter.id}" refers to unknown field "${names[index]}"`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Options of buildKeplerConfig
+ */
+export interface KeplerConfigOptions {
+  /** Datasets the layers and filters refer to */
+  datasets?: readonly KeplerDataset[];
+  layers?: readonly KeplerLayerConfig[];
+  filters?: readonly KeplerFilterConfig[];
+  mapState?: ParsedMapState;
+}
+
+/**
+ * Merge layers, filters and map state into the base config
+ * Without options, returns the base config (no datasets, layers or filters)
+ *
+ * @throws KeplerConfigError if a layer or filter refers to a missing dataset or field
+ */
+export function buildKeplerConfig({
+  datasets = [],
+  layers = [],
+  filters = [],
+  mapState = buildMapState(),
+}: KeplerConfigOptions = {}): ParsedConfig {
+  if (!BASE_CONFIG?.visState) {
+    throw new KeplerConfigError('Invalid Kepler.gl configuration');
+  }
+
+  const config: ParsedConfig = {
+    ...BASE_CONFIG,
+    mapState,
+    visState: {
+      ...BASE_CONFIG.visState,
+      filters: [...filters],
+      layers: [...layers],
+    },
+  };
+
+  const problems = validateKeplerConfig(config, datasets);
+  if (problems.length > 0) {
+    throw new KeplerConfigError(`Invalid Kepler.gl configuration: ${problems.join('; ')}`, problems);
+  }
+
+  return config;
+}
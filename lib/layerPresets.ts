@@ -0,0 +1,401 @@
+/**
+ * Kepler.gl layer presets for the victim map
+ * Each preset is one way of drawing the victims (individual points, circles per
+ * location, heatmap, hexbin or H3 grid), plus optional attack trajectory arcs;
+ * the map builds every layer up front and shows the ones of the selected preset
+ * and geography
+ */
+
+import {
+  GEOGRAPHY_LAYER_IDS,
+  H3_DATASET_ID,
+  LOCATION_DATASET_ID,
+  LOCATION_LAYER_ID,
+  VICTIM_DATASET_ID,
+  type MapGeography,
+} from '@/lib/mapSelection';
+import {
+  buildPointLayer,
+  type KeplerColorRange,
+  type KeplerLayerConfig,
+} from '@/lib/keplerConfig';
+
+/**
+ * Ways of drawing the victims
+ * - points: a point per victim
+ * - locations: a circle per location sized by the victim count
+ * - heatmap: density of victims
+ * - hexbin: victim counts in hexagons of a fixed size on screen
+ * - h3: victim counts in H3 grid cells
+ */
+export const LAYER_PRESETS = ['points', 'locations', 'heatmap', 'hexbin', 'h3'] as const;
+
+export type LayerPreset = (typeof LAYER_PRESETS)[number];
+
+export const DEFAULT_LAYER_PRESET: LayerPreset = 'points';
+
+/**
+ * Labels of the presets in the layer picker
+ */
+export const LAYER_PRESET_LABELS: Record<LayerPreset, string> = {
+  points: 'נקודה לכל נופל',
+  locations: 'עיגול לכל מקום',
+  heatmap: 'מפת חום',
+  hexbin: 'משושים',
+  h3: 'רשת H3',
+};
+
+/**
+ * Kepler.gl layer id of the H3 grid
+ */
+export const H3_LAYER_ID = 'victim-h3-layer';
+
+/**
+ * Heatmap layer drawn for each geography
+ */
+export const HEATMAP_LAYER_IDS: Record<MapGeography, string> = {
+  residence: 'victims-heatmap-layer',
+  incident: 'victims-incident-heatmap-layer',
+};
+
+/**
+ * Hexbin layer drawn for each geography
+ */
+export const HEXBIN_LAYER_IDS: Record<MapGeography, string> = {
+  residence: 'victims-hexbin-layer',
+  incident: 'victims-incident-hexbin-layer',
+};
+
+/**
+ * Arc layer from the front to the victims, for each geography
+ */
+export const ARC_LAYER_IDS: Record<MapGeography, string> = {
+  residence: 'victims-arc-layer',
+  incident: 'victims-incident-arc-layer',
+};
+
+/**
+ * Reds of the victim points
+ */
+export const MEMORIAL_COLOR_RANGE: KeplerColorRange = {
+  name: 'Red Memorial Scale',
+  type: 'sequential',
+  category: 'Custom',
+  colors: ['#FF0000', '#E60000', '#CC0000', '#B30000', '#990000'],
+};
+
+/**
+ * Dark to light reds for the heatmap, so dense areas stand out on the dark basemap
+ */
+export const MEMORIAL_HEAT_COLOR_RANGE: KeplerColorRange = {
+  name: 'Red Memorial Heat',
+  type: 'sequential',
+  category: 'Custom',
+  colors: ['#2B0000', '#5C0000', '#990000', '#CC0000', '#FF3333', '#FFB3B3'],
+};
+
+/**
+ * Reds of the hexbin and H3 cells, from few to many victims
+ */
+export const MEMORIAL_GRID_COLOR_RANGE: KeplerColorRange = {
+  name: 'Red Memorial Grid',
+  type: 'sequential',
+  category: 'Custom',
+  colors: ['#4D0000', '#800000', '#B30000', '#E60000', '#FF4D4D', '#FF9999'],
+};
+
+const MEMORIAL_RED: [number, number, number] = [230, 0, 0]; // #E60000
+const WHITE: [number, number, number] = [255, 255, 255];
+
+/**
+ * Exact coordinate columns of a geography in the victim dataset
+ * Aggregating layers use these rather than the spread point positions
+ */
+function getCoordinateColumns(geography: MapGeography): Record<string, string> {
+  return geography === 'incident'
+    ? { lat: 'incidentLatitude', lng: 'incidentLongitude' }
+    : { lat: 'latitude', lng: 'longitude' };
+}
+
+/**
+ * Point layer of the victims at one geography
+ * Both geographies share the style; only the coordinate columns differ
+ */
+export function createVictimPointLayer(geography: MapGeography, isVisible: boolean): KeplerLayerConfig {
+  return buildPointLayer({
+    id: GEOGRAPHY_LAYER_IDS[geography],
+    dataId: VICTIM_DATASET_ID,
+    label: geography === 'incident' ? 'Victims (place of incident)' : 'Victims',
+    color: MEMORIAL_RED,
+    columns:
+      geography === 'incident'
+        ? { lat: 'incidentPointLatitude', lng: 'incidentPointLongitude' }
+        : { lat: 'pointLatitude', lng: 'pointLongitude' },
+    isVisible,
+    visConfig: {
+      radius: 22,
+      fixedRadius: false,
+      opacity: 0.8,
+      outline: true,
+      thickness: 2,
+      strokeColor: WHITE,
+      colorRange: MEMORIAL_COLOR_RANGE,
+      strokeColorRange: {
+        name: 'Global Warming',
+        type: 'sequential',
+        category: 'Uber',
+        colors: ['#E60000', '#FF0000', '#FF4444'],
+      },
+      radiusRange: [10, 30],
+      filled: true,
+    },
+    textLabel: {
+      field: null,
+      color: WHITE,
+      size: 18,
+      offset: [0, 0],
+      anchor: 'start',
+      alignment: 'center',
+    },
+    visualChannels: {
+      colorField: {
+        name: 'type',
+        type: 'string',
+      },
+      colorScale: 'ordinal',
+    },
+  });
+}
+
+/**
+ * Layer of per-location circles, sized by the number of victims and labelled
+ * with the place name and count
+ */
+export function createLocationLayer(isVisible: boolean): KeplerLayerConfig {
+  return buildPointLayer({
+    id: LOCATION_LAYER_ID,
+    dataId: LOCATION_DATASET_ID,
+    label: 'Victims per location',
+    color: MEMORIAL_RED,
+    columns: { lat: 'latitude', lng: 'longitude' },
+    isVisible,
+    visConfig: {
+      radius: 20,
+      fixedRadius: false,
+      opacity: 0.6,
+      outline: true,
+      thickness: 1,
+      strokeColor: WHITE,
+      radiusRange: [6, 60],
+      filled: true,
+    },
+    textLabel: {
+      field: { name: 'label', type: 'string' },
+      color: WHITE,
+      size: 12,
+      offset: [0, 0],
+      anchor: 'middle',
+      alignment: 'center',
+    },
+    visualChannels: {
+      sizeField: { name: 'count', type: 'integer' },
+      sizeScale: 'sqrt',
+    },
+  });
+}
+
+/**
+ * Heatmap of the victims at one geography
+ */
+export function createHeatmapLayer(geography: MapGeography, isVisible: boolean): KeplerLayerConfig {
+  return {
+    id: HEATMAP_LAYER_IDS[geography],
+    type: 'heatmap',
+    config: {
+      dataId: VICTIM_DATASET_ID,
+      label: geography === 'incident' ? 'Victim density (place of incident)' : 'Victim density',
+      color: MEMORIAL_RED,
+      columns: getCoordinateColumns(geography),
+      isVisible,
+      visConfig: {
+        opacity: 0.8,
+        colorRange: MEMORIAL_HEAT_COLOR_RANGE,
+        radius: 25,
+      },
+      hidden: false,
+    },
+    visualChannels: {
+      weightField: null,
+      weightScale: 'linear',
+    },
+  };
+}
+
+/**
+ * Hexbin of the victims at one geography, colored by the number of victims per hexagon
+ */
+export function createHexbinLayer(geography: MapGeography, isVisible: boolean): KeplerLayerConfig {
+  return {
+    id: HEXBIN_LAYER_IDS[geography],
+    type: 'hexagon',
+    config: {
+      dataId: VICTIM_DATASET_ID,
+      label: geography === 'incident' ? 'Victim hexbins (place of incident)' : 'Victim hexbins',
+      color: MEMORIAL_RED,
+      columns: getCoordinateColumns(geography),
+      isVisible,
+      visConfig: {
+        opacity: 0.8,
+        worldUnitSize: 2,
+        resolution: 8,
+        colorRange: MEMORIAL_GRID_COLOR_RANGE,
+        coverage: 0.9,
+        sizeRange: [0, 500],
+        percentile: [0, 100],
+        elevationPercentile: [0, 100],
+        elevationScale: 5,
+        enableElevationZoomFactor: true,
+        colorAggregation: 'count',
+        sizeAggregation: 'count',
+        enable3d: false,
+      },
+      hidden: false,
+    },
+    visualChannels: {
+      colorField: null,
+      colorScale: 'quantile',
+      sizeField: null,
+      sizeScale: 'linear',
+    },
+  };
+}
+
+/**
+ * H3 grid of the victim counts per cell
+ */
+export function createH3Layer(isVisible: boolean): KeplerLayerConfig {
+  return {
+    id: H3_LAYER_ID,
+    type: 'hexagonId',
+    config: {
+      dataId: H3_DATASET_ID,
+      label: 'Victims per H3 cell',
+      color: MEMORIAL_RED,
+      columns: { hex_id: 'hexId' },
+      isVisible,
+      visConfig: {
+        opacity: 0.8,
+        colorRange: MEMORIAL_GRID_COLOR_RANGE,
+        coverage: 0.9,
+        enable3d: false,
+        sizeRange: [0, 500],
+        coverageRange: [0, 1],
+        elevationScale: 5,
+      },
+      hidden: false,
+    },
+    visualChannels: {
+      colorField: { name: 'count', type: 'integer' },
+      colorScale: 'quantize',
+      sizeField: null,
+      sizeScale: 'linear',
+      coverageField: null,
+      coverageScale: 'linear',
+    },
+  };
+}
+
+/**
+ * Arcs from the launch area of the front to the victims at one geography
+ * Only rows with an origin (rocket, missile and drone deaths) are drawn; the
+ * layer sits on the victim dataset, so the timeline filter applies
+ */
+export function createArcLayer(geography: MapGeography, isVisible: boolean): KeplerLayerConfig {
+  const target = getCoordinateColumns(geography);
+
+  return {
+    id: ARC_LAYER_IDS[geography],
+    type: 'arc',
+    config: {
+      dataId: VICTIM_DATASET_ID,
+      label: geography === 'incident' ? 'Attack trajectories (place of incident)' : 'Attack trajectories',
+      color: MEMORIAL_RED,
+      columns: {
+        lat0: 'originLatitude',
+        lng0: 'originLongitude',
+        lat1: target.lat,
+        lng1: target.lng,
+      },
+      isVisible,
+      visConfig: {
+        opacity: 0.6,
+        thickness: 1.5,
+        colorRange: MEMORIAL_COLOR_RANGE,
+        sizeRange: [0, 10],
+        targetColor: [255, 179, 179],
+      },
+      hidden: false,
+    },
+    visualChannels: {
+      colorField: null,
+      colorScale: 'quantile',
+      sizeField: null,
+      sizeScale: 'linear',
+    },
+  };
+}
+
+/**
+ * Visibility of each victim layer for a preset and geography
+ * The locations and H3 datasets are recounted for the current geography, so
+ * their single layer is shown for both. Trajectory arcs are drawn over any preset
+ */
+export function getLayerVisibility(
+  preset: LayerPreset,
+  geography: MapGeography,
+  showTrajectories: boolean = false
+): Record<string, boolean> {
+  const visibility: Record<string, boolean> = {
+    [LOCATION_LAYER_ID]: preset === 'locations',
+    [H3_LAYER_ID]: preset === 'h3',
+  };
+
+  (Object.keys(GEOGRAPHY_LAYER_IDS) as MapGeography[]).forEach((layerGeography) => {
+    const isCurrent = layerGeography === geography;
+    visibility[GEOGRAPHY_LAYER_IDS[layerGeography]] = isCurrent && preset === 'points';
+    visibility[HEATMAP_LAYER_IDS[layerGeography]] = isCurrent && preset === 'heatmap';
+    visibility[HEXBIN_LAYER_IDS[layerGeography]] = isCurrent && preset === 'hexbin';
+    visibility[ARC_LAYER_IDS[layerGeography]] = isCurrent && showTrajectories;
+  });
+
+  return visibility;
+}
+
+/**
+ * All victim layers, with the ones of the preset and geography visible
+ */
+export function createVictimLayers(
+  preset: LayerPreset,
+  geography: MapGeography,
+  showTrajectories: boolean = false
+): KeplerLayerConfig[] {
+  const visibility = getLayerVisibility(preset, geography, showTrajectories);
+  const geographies = Object.keys(GEOGRAPHY_LAYER_IDS) as MapGeography[];
+
+  return [
+    ...geographies.map((layerGeography) =>
+      createVictimPointLayer(layerGeography, visibility[GEOGRAPHY_LAYER_IDS[layerGeography]])
+    ),
+    createLocationLayer(visibility[LOCATION_LAYER_ID]),
+    ...geographies.map((layerGeography) =>
+      createHeatmapLayer(layerGeography, visibility[HEATMAP_LAYER_IDS[layerGeography]])
+    ),
+    ...geographies.map((layerGeography) =>
+      createHexbinLayer(layerGeography, visibility[HEXBIN_LAYER_IDS[layerGeography]])
+    ),
+    createH3Layer(visibility[H3_LAYER_ID]),
+    ...geographies.map((layerGeography) =>
+      createArcLayer(layerGeography, visibility[ARC_LAYER_IDS[layerGeography]])
+    ),
+  ];
+}
@@ -0,0 +1,93 @@
+/**
+ * Migration layer for the victims API response schema
+ * Maps records to the pre-v2 shape, where `source` held the article URL and
+ * `type` held an English code derived from the category column
+ *
+ * The v1 shape is kept for one release and will be removed afterwards.
+ */
+
+import type { ProcessedVictimData } from '@/types/victim';
+
+/**
+ * Supported response schema versions
+ */
+export type ResponseSchema = 'v1' | 'v2';
+
+/**
+ * Schema used when the client does not request one explicitly
+ */
+export const DEFAULT_RESPONSE_SCHEMA: ResponseSchema = 'v1';
+
+/**
+ * All supported schema versions
+ */
+export const RESPONSE_SCHEMAS: readonly ResponseSchema[] = ['v1', 'v2'] as const;
+
+/**
+ * Deprecation notice attached to response metadata
+ */
+export interface SchemaDeprecation {
+  deprecated: true;
+  message: string;
+  replacement: ResponseSchema;
+}
+
+/**
+ * Legacy type mapping from Hebrew category to English type
+ */
+const LEGACY_TYPE_MAP: Record<string, string> = {
+  'פיגועים בחו"ל': 'terror_attack_abroad',
+  'יהודה ושומרון': 'west_bank',
+  'עזה': 'gaza',
+  'חטופים': 'hostage',
+  'לבנון': 'lebanon',
+  'צה"ל': 'idf',
+  '-': 'unknown',
+};
+
+/**
+ * Type guard to check if a value is a supported response schema
+ */
+export function isResponseSchema(value: string): value is ResponseSchema {
+  return RESPONSE_SCHEMAS.includes(value as ResponseSchema);
+}
+
+/**
+ * Converts a processed victim record to the legacy v1 shape
+ * `source` becomes the article URL and `type` the English category code
+ */
+export function toLegacyVictim(victim: ProcessedVictimData): ProcessedVictimData {
+  const category = victim.category || '';
+
+  return {
+    ...victim,
+    source: victim.url || 'unknown',
+    type: LEGACY_TYPE_MAP[category] || category || 'unknown',
+  };
+}
+
+/**
+ * Converts processed victims to the requested response schema
+ */
+export function migrateVictimsToSchema(
+  victims: ProcessedVictimData[],
+  schema: ResponseSchema
+): ProcessedVictimData[] {
+  return schema === 'v1' ? victims.map(toLegacyVictim) : victims;
+}
+
+/**
+ * Get the deprecation notice for a schema version, if any
+ */
+export function getSchemaDeprecation(schema: ResponseSchema): SchemaDeprecation | undefined {
+  if (schema !== 'v1') {
+    return undefined;
+  }
+
+  return {
+    deprecated: true,
+    message:
+      'Schema v1 (source = article URL, type = English category code) is deprecated and will be removed in the next release. Request schema=v2 for front-based source, category and incident type fields.',
+    replacement: 'v2',
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Helpers for resolving Kepler.gl map interactions to victim records
+ * Kepler stores the picked object of a layer click in visState.clicked;
+ * these helpers map it back to the victim id in the clicked row
+ */
+
+/**
+ * Kepler.gl dataset id of the victim points
+ */
+export const VICTIM_DATASET_ID = 'victims';
+
+/**
+ * Kepler.gl layer id of the victim points (at the place of residence)
+ */
+export const VICTIM_LAYER_ID = 'victims-layer';
+
+/**
+ * Kepler.gl layer id of the victim points at the place of the incident
+ */
+export const VICTIM_INCIDENT_LAYER_ID = 'victims-incident-layer';
+
+/**
+ * Kepler.gl dataset id of the victim counts per location
+ */
+export const LOCATION_DATASET_ID = 'victim-locations';
+
+/**
+ * Kepler.gl layer id of the per-location circles
+ */
+export const LOCATION_LAYER_ID = 'victim-locations-layer';
+
+/**
+ * Kepler.gl dataset id of the victim counts per H3 cell
+ */
+export const H3_DATASET_ID = 'victim-h3-cells';
+
+/**
+ * Which place a victim point is drawn at
+ */
+export type MapGeography = 'residence' | 'incident';
+
+export const MAP_GEOGRAPHIES: readonly MapGeography[] = ['residence', 'incident'] as const;
+
+/**
+ * Point layer drawn for each geography
+ */
+export const GEOGRAPHY_LAYER_IDS: Record<MapGeography, string> = {
+  residence: VICTIM_LAYER_ID,
+  incident: VICTIM_INCIDENT_LAYER_ID,
+};
+
+/**
+ * Picking info stored by Kepler.gl on layer click (subset used here)
+ */
+export interface KeplerClickedInfo {
+  picked?: boolean;
+  index?: number;
+  object?: { index?: number } | null;
+  layer?: { props?: { id?: string } } | null;
+}
+
+/**
+ * Kepler.gl dataset (subset used here)
+ */
+export interface KeplerDatasetLike {
+  fields: Array<{ name: string }>;
+  /** Rows passing all filters on the dataset */
+  filteredIndex?: number[];
+  dataContainer: {
+    numRows(): number;
+    valueAt(rowIndex: number, columnIndex: number): unknown;
+  };
+}
+
+/**
+ * Resolve a Kepler.gl layer click to the id of the clicked victim
+ *
+ * @param clicked - visState.clicked (null when nothing is selected)
+ * @param dataset - Kepler.gl dataset holding the victim rows
+ * @param layerIds - Layers whose rows are individual victims
+ * @returns The victim id, or null when the click was not on a victim point
+ */
+export function getClickedVictimId(
+  clicked: KeplerClickedInfo | null | undefined,
+  dataset: KeplerDatasetLike | null | undefined,
+  layerIds: readonly string[] = Object.values(GEOGRAPHY_LAYER_IDS)
+): string | null {
+  if (!clicked?.picked || !dataset) {
+    return null;
+  }
+
+  const layerId = clicked.layer?.props?.id;
+  if (!layerId || !layerIds.includes(layerId)) {
+    return null;
+  }
+
+  // Row-based layers report the row on the object; binary layers only on the info
+  const rowIndex = clicked.object?.index ?? clicked.index;
+  if (rowIndex === undefined || rowIndex < 0 || rowIndex >= dataset.dataContainer.numRows()) {
+    return null;
+  }
+
+  const idColumn = dataset.fields.findIndex((field) => field.name === 'id');
+  if (idColumn === -1) {
+    return null;
+  }
+
+  const id = dataset.dataContainer.valueAt(rowIndex, idColumn);
+  return typeof id === 'string' && id ? id : null;
+}
+
+/**
+ * Ids of the victims in the rows that pass the current Kepler.gl filters
+ *
+ * @param dataset - Kepler.gl dataset holding the victim rows
+ * @returns Victim ids, in row order (empty when the dataset is not loaded)
+ */
+export function getFilteredVictimIds(dataset: KeplerDatasetLike | null | undefined): string[] {
+  const idColumn = dataset?.fields.findIndex((field) => field.name === 'id') ?? -1;
+  if (!dataset || idColumn === -1) {
+    return [];
+  }
+
+  const rows = dataset.filteredIndex ?? Array.from({ length: dataset.dataContainer.numRows() }, (_, row) => row);
+  return rows
+    .map((row) => dataset.dataContainer.valueAt(row, idColumn))
+    .filter((id): id is string => typeof id === 'string' && id !== '');
+}
@@ -0,0 +1,173 @@
+/**
+ * Layout of victim points that share a location
+ * Victims are geocoded to the center of their locality, so everyone from the
+ * same place gets identical coordinates. These helpers spread such groups in
+ * concentric rings around the shared point, in an order seeded by victim id so
+ * every render (and every visitor) sees the same layout
+ */
+
+import type { Coordinates } from '@/types/victim';
+
+/**
+ * How co-located points are drawn
+ * - spread: in rings around the shared location
+ * - exact: at the geocoded coordinates (overlapping)
+ */
+export type PointLayout = 'spread' | 'exact';
+
+export const POINT_LAYOUTS: readonly PointLayout[] = ['spread', 'exact'] as const;
+
+export const DEFAULT_POINT_LAYOUT: PointLayout = 'spread';
+
+/**
+ * Distance between neighbouring points of a spread group
+ */
+export const POINT_SPACING_METERS = 40;
+
+/**
+ * Zoom level from which clicking a group spiderfies it
+ */
+export const SPIDERFY_MIN_ZOOM = 13;
+
+/**
+ * Distance between neighbouring points of a spiderfied group, on screen
+ */
+export const SPIDERFY_SPACING_PIXELS = 28;
+
+/**
+ * Point with an id and coordinates
+ */
+export interface LayoutPoint extends Coordinates {
+  id: string;
+}
+
+/**
+ * Options for layoutPoints
+ */
+export interface PointLayoutOptions {
+  /** Spread co-located points or keep the exact coordinates */
+  layout: PointLayout;
+
+  /** Group to spiderfy (spread at screen-size spacing for the given zoom) */
+  spiderfy?: {
+    locationKey: string;
+    zoom: number;
+  } | null;
+}
+
+/**
+ * Meters per degree of latitude
+ */
+const METERS_PER_DEGREE = 111_320;
+
+/**
+ * Key of a location, identical for points at the same coordinates
+ */
+export function getLocationKey(point: Coordinates): string {
+  return `${point.latitude.toFixed(6)},${point.longitude.toFixed(6)}`;
+}
+
+/**
+ * 32-bit FNV-1a hash, used to order points independently of input order
+ */
+export function hashPointId(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Ground distance of one screen pixel at a zoom level (Web Mercator, 512px tiles)
+ */
+export function metersPerPixel(latitude: number, zoom: number): number {
+  return (40_075_016.686 * Math.cos((latitude * Math.PI) / 180)) / 2 ** (zoom + 9);
+}
+
+/**
+ * Place points in concentric rings around a center
+ * The first point takes the center; ring k holds up to 6k points, spaced
+ * spacingMeters apart along and between the rings
+ *
+ * @param center - Shared location of the group
+ * @param ids - Ids of the points, in layout order
+ * @param spacingMeters - Distance between neighbouring points
+ * @returns Coordinates per id
+ */
+export function arrangeInRings(
+  center: Coordinates,
+  ids: readonly string[],
+  spacingMeters: number
+): Map<string, Coordinates> {
+  const positions = new Map<string, Coordinates>();
+  const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos((center.latitude * Math.PI) / 180);
+
+  let index = 0;
+  for (let ring = 0; index < ids.length; ring++) {
+    const capacity = ring === 0 ? 1 : 6 * ring;
+    const count = Math.min(capacity, ids.length - index);
+    const radius = ring * spacingMeters;
+    // Offset alternate rings so points don't line up along the spokes
+    const offset = ring % 2 === 0 ? 0 : Math.PI / capacity;
+
+    for (let slot = 0; slot < count; slot++, index++) {
+      const angle = offset + (2 * Math.PI * slot) / count;
+      positions.set(ids[index], {
+        latitude: center.latitude + (radius * Math.sin(angle)) / METERS_PER_DEGREE,
+        longitude: center.longitude + (radius * Math.cos(angle)) / metersPerDegreeLng,
+      });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Compute the drawn position of each point
+ * Single points keep their coordinates; groups sharing a location are ordered
+ * by a hash of their ids and arranged in rings (spread layout), and the
+ * spiderfied group, if any, is arranged at screen-size spacing
+ *
+ * @param points - Points to lay out
+ * @param options - Layout mode and spiderfied group
+ * @returns Drawn coordinates per point id
+ */
+export function layoutPoints(
+  points: readonly LayoutPoint[],
+  { layout, spiderfy }: PointLayoutOptions
+): Map<string, Coordinates> {
+  const groups = new Map<string, LayoutPoint[]>();
+  points.forEach((point) => {
+    const key = getLocationKey(point);
+    const group = groups.get(key);
+    if (group) {
+      group.push(point);
+    } else {
+      groups.set(key, [point]);
+    }
+  });
+
+  const positions = new Map<string, Coordinates>();
+  groups.forEach((group, key) => {
+    const center = { latitude: group[0].latitude, longitude: group[0].longitude };
+    const isSpiderfied = spiderfy?.locationKey === key;
+
+    if (group.length === 1 || (layout === 'exact' && !isSpiderfied)) {
+      group.forEach((point) => positions.set(point.id, center));
+      return;
+    }
+
+    const ids = group
+      .map((point) => point.id)
+      .sort((a, b) => hashPointId(a) - hashPointId(b) || a.localeCompare(b));
+    const spacing = isSpiderfied
+      ? metersPerPixel(center.latitude, spiderfy.zoom) * SPIDERFY_SPACING_PIXELS
+      : POINT_SPACING_METERS;
+
+    arrangeInRings(center, ids, spacing).forEach((position, id) => positions.set(id, position));
+  });
+
+  return positions;
+}
@@ -8,7 +8,15 @@ import type {
   VictimStatistics,
   VictimLocation,
   Gender,
+  DateQuality,
+  TimeRange,
 } from '@/types/victim';
+import { DATE_QUALITIES, hasSheetDate } from '@/lib/dateParser';
+
+/**
+ * Key counting the victims with no value for a field (e.g. an unknown gender)
+ */
+export const UNKNOWN_KEY = 'unknown';
 
 /**
  * Group by result with count
@@ -45,18 +53,23 @@ export function calculateVictimStatistics(
       military: 0,
       bySource: {},
       byType: {},
+      byCause: {},
       byDate: {},
       byLocation: {},
       byGender: {
         'זכר': 0,
         'נקבה': 0,
+        unknown: 0,
       },
+      byDateQuality: groupByDateQuality([]),
       ageStats: {
         min: 0,
         max: 0,
         average: 0,
         median: 0,
+        unknown: 0,
       },
+      timeRange: null,
     };
   }
 
@@ -71,8 +84,11 @@ export function calculateVictimStatistics(
   // Group by type
   const byType = groupByField(victims, 'type');
 
+  // Group by cause of death
+  const byCause = groupByField(victims, 'causeOfDeath');
+
   // Group by date
-  const byDate = groupByField(victims, 'date');
+  const byDate = groupBySheetDate(victims);
 
   // Group by location
   const byLocation = groupByField(victims, 'location');
@@ -80,19 +96,28 @@ export function calculateVictimStatistics(
   // Group by gender
   const byGender = groupByGender(victims);
 
+  // Group by date precision (imprecise dates are not on their real day)
+  const byDateQuality = groupByDateQuality(victims);
+
   // Calculate age statistics
   const ageStats = calculateAgeStatistics(victims);
 
+  // Earliest and latest timestamps (timeline bounds)
+  const timeRange = calculateTimeRange(victims);
+
   return {
     total,
     civilians,
     military,
     bySource,
     byType,
+    byCause,
     byDate,
     byLocation,
     byGender,
+    byDateQuality,
     ageStats,
+    timeRange,
   };
 }
 
@@ -109,7 +134,23 @@ function groupByField<K extends keyof ProcessedVictimData>(
   const grouped: Record<string, number> = {};
 
   for (const victim of victims) {
-    const key = String(victim[field]);
+    const value = victim[field];
+    const key = value === null || value === undefined ? UNKNOWN_KEY : String(value);
+    grouped[key] = (grouped[key] || 0) + 1;
+  }
+
+  return grouped;
+}
+
+/**
+ * Count victims per date
+ * Missing and defaulted dates are counted as unknown rather than on DEFAULT_DATE
+ */
+function groupBySheetDate(victims: ProcessedVictimData[]): Record<string, number> {
+  const grouped: Record<string, number> = {};
+
+  for (const victim of victims) {
+    const key = hasSheetDate(victim.dateQuality) ? victim.date : UNKNOWN_KEY;
     grouped[key] = (grouped[key] || 0) + 1;
   }
 
@@ -119,39 +160,60 @@ function groupByField<K extends keyof ProcessedVictimData>(
 /**
  * Group victims by gender with proper typing
  * @param victims Array of processed victim data
- * @returns Record of gender to counts
+ * @returns Record of gender to counts, with "unknown" for victims without one
  */
 function groupByGender(
   victims: ProcessedVictimData[]
-): Record<Gender, number> {
-  const grouped = {
+): Record<Gender | typeof UNKNOWN_KEY, number> {
+  const grouped: Record<Gender | typeof UNKNOWN_KEY, number> = {
     'זכר': 0,
     'נקבה': 0,
-  } as Record<Gender, number>;
+    [UNKNOWN_KEY]: 0,
+  };
 
   for (const victim of victims) {
-    grouped[victim.gender] = (grouped[victim.gender] || 0) + 1;
+    const key = victim.gender ?? UNKNOWN_KEY;
+    grouped[key] = (grouped[key] || 0) + 1;
   }
 
   return grouped;
 }
 
 /**
- * Calculate age statistics (min, max, average, median)
+ * Group victims by date quality, with every quality present
  * @param victims Array of processed victim data
- * @returns Age statistics object
+ * @returns Record of date quality to counts
  */
-function calculateAgeStatistics(victims: ProcessedVictimData[]): {
-  min: number;
-  max: number;
-  average: number;
-  median: number;
-} {
-  if (victims.length === 0) {
-    return { min: 0, max: 0, average: 0, median: 0 };
+function groupByDateQuality(
+  victims: ProcessedVictimData[]
+): Record<DateQuality, number> {
+  const grouped = Object.fromEntries(DATE_QUALITIES.map((quality) => [quality, 0])) as Record<
+    DateQuality,
+    number
+  >;
+
+  for (const victim of victims) {
+    grouped[victim.dateQuality] += 1;
   }
 
-  const ages = victims.map((v) => v.age).sort((a, b) => a - b);
+  return grouped;
+}
+
+/**
+ * Calculate age statistics (min, max, average, median) over the known ages
+ * @param victims Array of processed victim data
+ * @returns Age statistics object, with the number of unknown ages
+ */
+function calculateAgeStatistics(victims: ProcessedVictimData[]): VictimStatistics['ageStats'] {
+  const ages = victims
+    .map((v) => v.age)
+    .filter((age): age is number => age !== null)
+    .sort((a, b) => a - b);
+  const unknown = victims.length - ages.length;
+
+  if (ages.length === 0) {
+    return { min: 0, max: 0, average: 0, median: 0, unknown };
+  }
 
   const min = ages[0];
   const max = ages[ages.length - 1];
@@ -165,7 +227,7 @@ function calculateAgeStatistics(victims: ProcessedVictimData[]): {
       ? (ages[middleIndex - 1] + ages[middleIndex]) / 2
       : ages[middleIndex];
 
-  return { min, max, average, median };
+  return { min, max, average, median, unknown };
 }
 
 /**
@@ -307,15 +369,42 @@ export function getVictimsByDateRange(
   );
 }
 
+/**
+ * Calculate the earliest and latest victim timestamps
+ * Missing and defaulted dates are left out
+ * @param victims Array of processed victim data
+ * @returns Inclusive range of Unix timestamps in milliseconds, or null when no victim has a date
+ */
+export function calculateTimeRange(victims: ProcessedVictimData[]): TimeRange | null {
+  const dated = victims.filter((victim) => hasSheetDate(victim.dateQuality));
+  if (dated.length === 0) {
+    return null;
+  }
+
+  let min = dated[0].timestamp;
+  let max = dated[0].timestamp;
+  for (const victim of dated) {
+    if (victim.timestamp < min) {
+      min = victim.timestamp;
+    }
+    if (victim.timestamp > max) {
+      max = victim.timestamp;
+    }
+  }
+
+  return { min, max };
+}
+
 /**
  * Calculate daily victim counts for time series visualization
+ * Missing and defaulted dates are left out (they are counted in byDateQuality)
  * @param victims Array of processed victim data
  * @returns Array of objects with date and count
  */
 export function calculateDailyVictimCounts(
   victims: ProcessedVictimData[]
 ): Array<{ date: string; count: number }> {
-  const dateGroups = groupByDate(victims);
+  const dateGroups = groupByDate(victims.filter((victim) => hasSheetDate(victim.dateQuality)));
   return dateGroups.map((group) => ({
     date: group.key,
     count: group.count,
@@ -374,3 +463,60 @@ export function calculatePercentages(
 
   return percentages;
 }
+
+/**
+ * Dimensions available for categorical breakdowns, mapped to victim fields
+ */
+export const BREAKDOWN_DIMENSIONS = {
+  source: 'source',
+  category: 'category',
+  type: 'type',
+  cause: 'causeOfDeath',
+  gender: 'gender',
+  location: 'location',
+  date: 'date',
+  dateQuality: 'dateQuality',
+  rank: 'rank',
+  civilian: 'isCivilian',
+} as const satisfies Record<string, keyof ProcessedVictimData>;
+
+export type BreakdownDimension = keyof typeof BREAKDOWN_DIMENSIONS;
+
+/**
+ * Single entry of a categorical breakdown
+ */
+export interface BreakdownEntry {
+  key: string;
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Type guard to check if a value is a supported breakdown dimension
+ */
+export function isBreakdownDimension(value: string): value is BreakdownDimension {
+  return Object.prototype.hasOwnProperty.call(BREAKDOWN_DIMENSIONS, value);
+}
+
+/**
+ * Calculate counts and percentages for any categorical dimension
+ * @param victims Array of processed victim data
+ * @param dimension Dimension to break down by
+ * @returns Array of entries sorted by count (descending), then key
+ */
+export function calculateBreakdown(
+  victims: ProcessedVictimData[],
+  dimension: BreakdownDimension
+): BreakdownEntry[] {
+  const counts =
+    dimension === 'date' ? groupBySheetDate(victims) : groupByField(victims, BREAKDOWN_DIMENSIONS[dimension]);
+  const percentages = calculatePercentages(counts, victims.length);
+
+  return Object.entries(counts)
+    .map(([key, count]) => ({
+      key,
+      count,
+      percentage: percentages[key],
+    }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
@@ -0,0 +1,158 @@
+/**
+ * Shared GET handler for the /api/statistics/* routes
+ * Each route supplies only its aggregate; filter parsing, dataset loading,
+ * conditional requests and the response envelope are handled here
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import type { VictimFilter } from '@/types/victim';
+import {
+  getDatasetCacheHeaders,
+  isDatasetNotModified,
+  type VictimDataset,
+} from '@/lib/datasetStore';
+import {
+  createErrorResponse,
+  createNotModifiedResponse,
+  createSuccessResponse,
+  loadDatasetForRequest,
+} from '@/lib/apiResponse';
+import { applyVictimFilter, parseVictimFilter, VictimFilterError } from '@/lib/victimFilter';
+
+/**
+ * Input passed to a statistics route's aggregate function
+ */
+export interface StatisticsContext {
+  /** Victims matching the request's filter, sorted by date */
+  victims: VictimDataset['victims'];
+
+  /** Filter parsed from the request */
+  filter: VictimFilter;
+
+  /** True when no filter parameters were given */
+  isUnfiltered: boolean;
+
+  /** Current dataset (for precomputed aggregates) */
+  dataset: VictimDataset;
+}
+
+/**
+ * Response data of every statistics route
+ */
+export type StatisticsResponseData<K extends string, T> = {
+  [key in K]: T;
+} & {
+  metadata: {
+    /** Number of victims the aggregate was computed over */
+    matched: number;
+    timestamp: number;
+    filters: VictimFilter;
+  };
+};
+
+/**
+ * Definition of a statistics route
+ */
+export interface StatisticsRouteDefinition<K extends string, T, O> {
+  /** Route path, used in error logs */
+  endpoint: string;
+
+  /** Name of the aggregate in the response data */
+  key: K;
+
+  /** Parses route-specific options; may throw VictimFilterError */
+  parseOptions: (searchParams: URLSearchParams) => O;
+
+  /** Computes the aggregate over the filtered victims */
+  compute: (context: StatisticsContext, options: O) => T;
+}
+
+/**
+ * Create the GET handler of a statistics route
+ * Accepts the same filter parameters as /api/victims; invalid filter or route
+ * options are rejected with 400 before the dataset is loaded
+ *
+ * @param definition - Route endpoint, response key, option parser and aggregate
+ * @returns Route handler
+ */
+export function createStatisticsHandler<K extends string, T, O = undefined>(
+  definition: StatisticsRouteDefinition<K, T, O>
+): (request: NextRequest) => Promise<NextResponse> {
+  const { endpoint, key, parseOptions, compute } = definition;
+
+  return async function GET(request: NextRequest) {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+
+      // Parse and validate filter and route parameters
+      let filter: VictimFilter;
+      let options: O;
+      try {
+        filter = parseVictimFilter(searchParams);
+        options = parseOptions(searchParams);
+      } catch (error) {
+        if (error instanceof VictimFilterError) {
+          return createErrorResponse(
+            error.message,
+            'INVALID_PARAMETER',
+            400,
+            { parameter: error.parameter, value: error.value }
+          );
+        }
+        throw error;
+      }
+
+      // Load the dataset (parsed once and cached until the CSV changes)
+      const { dataset, errorResponse } = await loadDatasetForRequest();
+      if (errorResponse) {
+        return errorResponse;
+      }
+
+      // Answer conditional requests when the client already has this dataset version
+      const cacheHeaders = getDatasetCacheHeaders(dataset);
+      if (isDatasetNotModified(request.headers, dataset)) {
+        return createNotModifiedResponse(cacheHeaders);
+      }
+
+      const victims = applyVictimFilter(dataset.victims, filter);
+      const result = compute(
+        {
+          victims,
+          filter,
+          isUnfiltered: Object.keys(filter).length === 0,
+          dataset,
+        },
+        options
+      );
+
+      const responseData = {
+        [key]: result,
+        metadata: {
+          matched: victims.length,
+          timestamp: Date.now(),
+          filters: filter,
+        },
+      } as StatisticsResponseData<K, T>;
+
+      return createSuccessResponse(responseData, cacheHeaders);
+
+    } catch (error) {
+      // Catch any unexpected errors
+      console.error(`Unexpected error in ${endpoint}:`, error);
+
+      return createErrorResponse(
+        'An unexpected error occurred while processing the request',
+        'PROCESSING_ERROR',
+        500,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  };
+}
+
+/**
+ * Option parser for routes without route-specific parameters
+ */
+export function noStatisticsOptions(): undefined {
+  return undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * Timeline window and histogram settings derived from the data
+ * Replaces fixed timestamps so records outside a hard-coded range stay visible
+ */
+
+import type { ProcessedVictimData, TimeRange } from '@/types/victim';
+import type { TimeWindow } from '@/lib/urlState';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Named initial timeline windows
+ * - first48h: the first two days of the data
+ * - firstMonth: the first calendar month of the data
+ * - all: the full data range
+ */
+export const TIMELINE_WINDOW_PRESETS = ['first48h', 'firstMonth', 'all'] as const;
+
+export type TimelineWindowPreset = (typeof TIMELINE_WINDOW_PRESETS)[number];
+
+/**
+ * Window used when none is configured
+ */
+export const DEFAULT_TIMELINE_WINDOW: TimelineWindowPreset = 'all';
+
+/**
+ * Kepler.gl histogram intervals used by the timeline, from finest to coarsest
+ */
+export type HistogramInterval = '1-hour' | '6-hour' | '1-day' | '1-week' | '1-month';
+
+/**
+ * Largest data span (inclusive) for each interval; keeps the histogram
+ * between roughly 30 and 200 bars
+ */
+const HISTOGRAM_INTERVAL_SPANS: Array<[maxSpanMs: number, interval: HistogramInterval]> = [
+  [3 * DAY_MS, '1-hour'],
+  [14 * DAY_MS, '6-hour'],
+  [183 * DAY_MS, '1-day'],
+  [3 * 365 * DAY_MS, '1-week'],
+];
+
+/**
+ * Type guard to check if a value is a timeline window preset
+ */
+export function isTimelineWindowPreset(value: unknown): value is TimelineWindowPreset {
+  return TIMELINE_WINDOW_PRESETS.includes(value as TimelineWindowPreset);
+}
+
+/**
+ * Compute the initial timeline window for a preset
+ * Windows start at the earliest record and never extend past the latest one
+ *
+ * @param range - Earliest and latest victim timestamps
+ * @param preset - Named window
+ * @returns Inclusive [start, end] window in milliseconds
+ */
+export function getTimelineWindow(range: TimeRange, preset: TimelineWindowPreset): TimeWindow {
+  let end: number;
+
+  switch (preset) {
+    case 'first48h':
+      end = range.min + 2 * DAY_MS - 1;
+      break;
+    case 'firstMonth': {
+      const monthLater = new Date(range.min);
+      monthLater.setUTCMonth(monthLater.getUTCMonth() + 1);
+      end = monthLater.getTime() - 1;
+      break;
+    }
+    case 'all':
+    default:
+      end = range.max;
+  }
+
+  return [range.min, Math.min(end, range.max)];
+}
+
+/**
+ * Choose the histogram interval for a data span
+ *
+ * @param spanMs - Difference between the latest and earliest timestamps
+ * @returns Kepler.gl interval id
+ */
+export function chooseHistogramInterval(spanMs: number): HistogramInterval {
+  const match = HISTOGRAM_INTERVAL_SPANS.find(([maxSpan]) => spanMs <= maxSpan);
+  return match ? match[1] : '1-month';
+}
+
+/**
+ * Victims whose timestamp falls inside a timeline window
+ * Matches the Kepler.gl time range filter, which includes both ends
+ *
+ * @param victims - Victims to filter
+ * @param window - Inclusive [start, end] window in milliseconds
+ * @returns Victims inside the window, in input order
+ */
+export function filterByTimeWindow<T extends Pick<ProcessedVictimData, 'timestamp'>>(
+  victims: readonly T[],
+  [start, end]: TimeWindow
+): T[] {
+  return victims.filter((victim) => victim.timestamp >= start && victim.timestamp <= end);
+}
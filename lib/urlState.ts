@@ -0,0 +1,312 @@
+/**
+ * Shareable map state in the URL query
+ * Encodes the map view, timeline window, layer and display options, active
+ * filters and selected victim so a link reopens the same view. Parsing is lenient: invalid values are
+ * dropped instead of failing, since links are edited and truncated by hand
+ */
+
+import type { VictimFilter } from '@/types/victim';
+import { VICTIM_ID_REGEX } from '@/lib/victimId';
+import { DEFAULT_LAYER_PRESET, LAYER_PRESETS, type LayerPreset } from '@/lib/layerPresets';
+import { MAP_GEOGRAPHIES, type MapGeography } from '@/lib/mapSelection';
+import { DEFAULT_POINT_LAYOUT, POINT_LAYOUTS, type PointLayout } from '@/lib/pointLayout';
+import {
+  FILTER_PARAMS,
+  parseVictimFilter,
+  victimFilterToSearchParams,
+  VictimFilterError,
+} from '@/lib/victimFilter';
+
+/**
+ * Query parameter names of the map state
+ */
+export const URL_STATE_PARAMS = {
+  latitude: 'lat',
+  longitude: 'lng',
+  zoom: 'zoom',
+  timeWindow: 'time',
+  victimId: 'victim',
+  layerPreset: 'layer',
+  geography: 'geo',
+  pointLayout: 'layout',
+  showApproximate: 'approx',
+  showImpreciseDates: 'imprecise',
+  showTrajectories: 'arcs',
+} as const;
+
+/**
+ * Map center and zoom
+ */
+export interface MapViewState {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+/**
+ * Timeline window as [start, end] Unix timestamps in milliseconds
+ */
+export type TimeWindow = [number, number];
+
+/**
+ * Layer and display options of the map
+ */
+export interface MapDisplayState {
+  /** How the victims are drawn */
+  layerPreset: LayerPreset;
+
+  /** Whether points are at the place of residence or of the incident */
+  geography: MapGeography;
+
+  /** Whether co-located points are spread or at the exact coordinates */
+  pointLayout: PointLayout;
+
+  /** Show victims at the fallback coordinates */
+  showApproximate: boolean;
+
+  /** Show victims without an exact date */
+  showImpreciseDates: boolean;
+
+  /** Draw attack trajectory arcs */
+  showTrajectories: boolean;
+}
+
+/**
+ * Display options of a map opened without them in the URL
+ */
+export const DEFAULT_MAP_DISPLAY: MapDisplayState = {
+  layerPreset: DEFAULT_LAYER_PRESET,
+  geography: 'residence',
+  pointLayout: DEFAULT_POINT_LAYOUT,
+  showApproximate: false,
+  showImpreciseDates: false,
+  showTrajectories: false,
+};
+
+/**
+ * Display options written as a choice between named values
+ */
+const DISPLAY_CHOICES = {
+  layerPreset: LAYER_PRESETS,
+  geography: MAP_GEOGRAPHIES,
+  pointLayout: POINT_LAYOUTS,
+} as const;
+
+/**
+ * Display options written as a flag (present as "true" when on)
+ */
+const DISPLAY_FLAGS = ['showApproximate', 'showImpreciseDates', 'showTrajectories'] as const;
+
+/**
+ * Map state encoded in the URL
+ */
+export interface MapUrlState {
+  /** Map center and zoom (undefined lets the map fit the data) */
+  view?: MapViewState;
+
+  /** Timeline filter window (undefined uses the default window) */
+  timeWindow?: TimeWindow;
+
+  /** Layer and display options (defaults for those not in the URL) */
+  display: MapDisplayState;
+
+  /** Data filter criteria */
+  filter: VictimFilter;
+
+  /** Selected victim id, or null */
+  victimId: string | null;
+}
+
+/**
+ * Decimal places kept when writing the view (about 1 m and 1% of a zoom level)
+ */
+const COORDINATE_PRECISION = 5;
+const ZOOM_PRECISION = 2;
+
+/**
+ * Read a number parameter within a range
+ */
+function getNumberParam(
+  searchParams: URLSearchParams,
+  name: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = searchParams.get(name)?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+}
+
+/**
+ * Read the map view; all three parameters are required
+ */
+function getViewParam(searchParams: URLSearchParams): MapViewState | undefined {
+  const latitude = getNumberParam(searchParams, URL_STATE_PARAMS.latitude, -90, 90);
+  const longitude = getNumberParam(searchParams, URL_STATE_PARAMS.longitude, -180, 180);
+  const zoom = getNumberParam(searchParams, URL_STATE_PARAMS.zoom, 0, 24);
+
+  if (latitude === undefined || longitude === undefined || zoom === undefined) {
+    return undefined;
+  }
+
+  return { latitude, longitude, zoom };
+}
+
+/**
+ * Read the timeline window (time=<start>,<end> in milliseconds)
+ */
+function getTimeWindowParam(searchParams: URLSearchParams): TimeWindow | undefined {
+  const value = searchParams.get(URL_STATE_PARAMS.timeWindow)?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  const bounds = value.split(',').map((part) => Number(part.trim()));
+  if (bounds.length !== 2 || !bounds.every(Number.isSafeInteger) || bounds[0] > bounds[1]) {
+    return undefined;
+  }
+
+  return [bounds[0], bounds[1]];
+}
+
+/**
+ * Read the layer and display options; invalid values fall back to the default
+ */
+function getDisplayParams(searchParams: URLSearchParams): MapDisplayState {
+  const display = { ...DEFAULT_MAP_DISPLAY };
+
+  (Object.keys(DISPLAY_CHOICES) as Array<keyof typeof DISPLAY_CHOICES>).forEach((key) => {
+    const value = searchParams.get(URL_STATE_PARAMS[key])?.trim();
+    const choices: readonly string[] = DISPLAY_CHOICES[key];
+    if (value && choices.includes(value)) {
+      Object.assign(display, { [key]: value });
+    }
+  });
+
+  DISPLAY_FLAGS.forEach((key) => {
+    display[key] = searchParams.get(URL_STATE_PARAMS[key])?.trim() === 'true';
+  });
+
+  return display;
+}
+
+/**
+ * Read the data filter, dropping it entirely when any value is invalid
+ */
+function getFilterParams(searchParams: URLSearchParams): VictimFilter {
+  try {
+    return parseVictimFilter(searchParams);
+  } catch (error) {
+    if (error instanceof VictimFilterError) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a valid victim id
+ */
+export function getVictimIdParam(searchParams: URLSearchParams | null): string | null {
+  const id = searchParams?.get(URL_STATE_PARAMS.victimId)?.trim();
+  return id && VICTIM_ID_REGEX.test(id) ? id : null;
+}
+
+/**
+ * Parse the map state from URL query parameters
+ *
+ * @param searchParams - Query parameters of the page URL
+ * @returns Map state; invalid or missing parts are left at their defaults
+ */
+export function parseMapUrlState(searchParams: URLSearchParams): MapUrlState {
+  return {
+    view: getViewParam(searchParams),
+    timeWindow: getTimeWindowParam(searchParams),
+    display: getDisplayParams(searchParams),
+    filter: getFilterParams(searchParams),
+    victimId: getVictimIdParam(searchParams),
+  };
+}
+
+/**
+ * Write the map state to URL query parameters
+ * Inverse of parseMapUrlState; parameters of parts that are not set are removed,
+ * and unrelated parameters are kept
+ *
+ * @param state - Map state to encode
+ * @param params - Existing parameters to update (defaults to a new set)
+ * @returns The updated parameters
+ */
+export function mapUrlStateToSearchParams(
+  state: Partial<MapUrlState>,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  if ('view' in state) {
+    if (state.view) {
+      params.set(URL_STATE_PARAMS.latitude, state.view.latitude.toFixed(COORDINATE_PRECISION));
+      params.set(URL_STATE_PARAMS.longitude, state.view.longitude.toFixed(COORDINATE_PRECISION));
+      params.set(URL_STATE_PARAMS.zoom, String(Number(state.view.zoom.toFixed(ZOOM_PRECISION))));
+    } else {
+      params.delete(URL_STATE_PARAMS.latitude);
+      params.delete(URL_STATE_PARAMS.longitude);
+      params.delete(URL_STATE_PARAMS.zoom);
+    }
+  }
+
+  if ('timeWindow' in state) {
+    if (state.timeWindow) {
+      params.set(
+        URL_STATE_PARAMS.timeWindow,
+        state.timeWindow.map((bound) => Math.round(bound)).join(',')
+      );
+    } else {
+      params.delete(URL_STATE_PARAMS.timeWindow);
+    }
+  }
+
+  if (state.display) {
+    // Options at their default are left out to keep links short
+    (Object.keys(DEFAULT_MAP_DISPLAY) as Array<keyof MapDisplayState>).forEach((key) => {
+      const value = state.display?.[key];
+      if (value === DEFAULT_MAP_DISPLAY[key]) {
+        params.delete(URL_STATE_PARAMS[key]);
+      } else {
+        params.set(URL_STATE_PARAMS[key], String(value));
+      }
+    });
+  }
+
+  if (state.filter) {
+    Object.values(FILTER_PARAMS).forEach((name) => params.delete(name));
+    victimFilterToSearchParams(state.filter, params);
+  }
+
+  if ('victimId' in state) {
+    if (state.victimId) {
+      params.set(URL_STATE_PARAMS.victimId, state.victimId);
+    } else {
+      params.delete(URL_STATE_PARAMS.victimId);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Update the current page URL with part of the map state, without a navigation
+ * Browser-only; keeps unrelated query parameters and the history entry
+ *
+ * @param state - Parts of the map state to write
+ */
+export function replaceMapUrlState(state: Partial<MapUrlState>): void {
+  const url = new URL(window.location.href);
+  mapUrlStateToSearchParams(state, url.searchParams);
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
@@ -1,25 +1,49 @@
 /**
  * Data validation utilities for victim data
- * Validates required fields, formats, and data integrity
+ * Validates required fields, formats, and data integrity through a registry of
+ * rules, each with an id and a severity that data/validation-config.json can
+ * change or turn off
  */
 
 import type { VictimData, Gender, MilitaryRank, Source, IncidentType } from '@/types/victim';
+import { CONSISTENCY_RULES, isAbroadLocation } from '@/lib/consistencyRules';
+import validationConfigJson from '@/data/validation-config.json';
 
 /**
- * Validation error detail
+ * How serious a rule violation is
+ * - error: the record is rejected
+ * - warning: the record is kept and the issue reported
+ * - info: the record is kept; the note is only counted
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Validation issue found in a record
  */
 export interface ValidationError {
   field: string;
   message: string;
   value?: unknown;
+
+  /** Id of the rule that reported the issue */
+  ruleId: string;
+
+  /** Severity the rule ran with */
+  severity: ValidationSeverity;
+
+  /** Suggested fix for the source sheet */
+  suggestion?: string;
 }
 
 /**
  * Validation result for a single record
+ * Only errors make the record invalid; warnings and info are reported alongside
  */
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  warnings: ValidationError[];
+  info: ValidationError[];
 }
 
 /**
@@ -35,14 +59,71 @@ export interface BulkValidationResult {
     recordIdentifier?: string;
     errors: ValidationError[];
   }>;
+  warnings: Array<{
+    recordIndex: number;
+    recordIdentifier?: string;
+
+    /** Id of the processed record (set by processVictimDataArray) */
+    recordId?: string;
+    warnings: ValidationError[];
+  }>;
+  info: Array<{
+    recordIndex: number;
+    recordIdentifier?: string;
+
+    /** Id of the processed record (set by processVictimDataArray) */
+    recordId?: string;
+    info: ValidationError[];
+  }>;
+
+  /** Number of records reported by each rule, by rule id */
+  ruleCounts: Record<string, number>;
+}
+
+/**
+ * Check run on every record
+ */
+export interface ValidationRule {
+  /** Stable id, used in reports and in the validation config (e.g. "age.range") */
+  id: string;
+
+  /** Default severity */
+  severity: ValidationSeverity;
+
+  /** Record fields the rule reads */
+  fields: readonly (keyof VictimData)[];
+
+  /** Field named in the issue (default: the first of fields) */
+  field?: string;
+
+  /** Message of the issue */
+  message: string;
+
+  /** Whether the record passes the rule */
+  test: (data: Partial<VictimData>) => boolean;
+
+  /** Value reported with the issue (default: the value of the first field) */
+  value?: (data: Partial<VictimData>) => unknown;
+
+  /** Suggested fix reported with the issue */
+  suggestion?: string;
+}
+
+/**
+ * Rule settings: a severity per rule id, or "off" to disable the rule
+ * Rules not listed run with their default severity
+ */
+export interface ValidationConfig {
+  rules?: Record<string, ValidationSeverity | 'off'>;
 }
 
 /**
  * Israel geographic boundaries for coordinate validation
+ * The western edge is the border at Kerem Shalom and the Gaza envelope
  */
 const ISRAEL_BOUNDS = {
   latitude: { min: 29.5, max: 33.3 },
-  longitude: { min: 34.3, max: 35.9 },
+  longitude: { min: 34.22, max: 35.9 },
 } as const;
 
 /**
@@ -145,14 +226,15 @@ export function isValidIsraelCoordinates(latitude: number, longitude: number): b
 }
 
 /**
- * Validates if age is a positive number within reasonable range
+ * Validates if age is a number of years within reasonable range
+ * Infants under a year have a fractional age (0 for newborns)
  */
 export function isValidAge(age: number): boolean {
   if (typeof age !== 'number' || isNaN(age)) {
     return false;
   }
 
-  return age > 0 && age <= 120 && Number.isInteger(age);
+  return age >= 0 && age <= 120;
 }
 
 /**
@@ -163,200 +245,283 @@ export function isValidGender(gender: Gender | string): gender is Gender {
 }
 
 /**
- * Validates a single victim data record
+ * Whether a value is missing (undefined or null)
  */
-export function validateVictimData(data: Partial<VictimData>): ValidationResult {
-  const errors: ValidationError[] = [];
-
-  // Validate required fields exist
-  if (!data.firstName) {
-    errors.push({
-      field: 'firstName',
-      message: 'First name is required',
-      value: data.firstName,
-    });
-  } else if (!isValidHebrewText(data.firstName)) {
-    errors.push({
-      field: 'firstName',
-      message: 'First name contains invalid characters or encoding',
-      value: data.firstName,
-    });
-  }
+function isMissing(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
 
-  if (!data.lastName) {
-    errors.push({
-      field: 'lastName',
-      message: 'Last name is required',
-      value: data.lastName,
-    });
-  } else if (!isValidHebrewText(data.lastName)) {
-    errors.push({
-      field: 'lastName',
-      message: 'Last name contains invalid characters or encoding',
-      value: data.lastName,
-    });
-  }
+/**
+ * Rules requiring a Hebrew text field and checking its encoding
+ */
+function textRules(
+  field: 'firstName' | 'lastName' | 'location' | 'source' | 'type',
+  label: string
+): ValidationRule[] {
+  return [
+    {
+      id: `${field}.required`,
+      severity: 'error',
+      fields: [field],
+      message: `${label} is required`,
+      test: (data) => Boolean(data[field]),
+    },
+    {
+      id: `${field}.encoding`,
+      severity: 'error',
+      fields: [field],
+      message: `${label} contains invalid characters or encoding`,
+      test: (data) => !data[field] || isValidHebrewText(data[field]),
+    },
+  ];
+}
 
-  // Validate age
-  if (data.age === undefined || data.age === null) {
-    errors.push({
-      field: 'age',
-      message: 'Age is required',
-      value: data.age,
-    });
-  } else if (!isValidAge(data.age)) {
-    errors.push({
-      field: 'age',
-      message: 'Age must be a positive integer between 1 and 120',
-      value: data.age,
-    });
+/**
+ * Parse a URL, or undefined when it is not one
+ */
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
   }
+}
 
-  // Validate location
-  if (!data.location) {
-    errors.push({
-      field: 'location',
-      message: 'Location is required',
-      value: data.location,
-    });
-  } else if (!isValidHebrewText(data.location)) {
-    errors.push({
-      field: 'location',
-      message: 'Location contains invalid characters or encoding',
-      value: data.location,
-    });
-  }
+/**
+ * Rules checking one field at a time, in the order their issues are reported
+ */
+export const FIELD_RULES: readonly ValidationRule[] = [
+  ...textRules('firstName', 'First name'),
+  ...textRules('lastName', 'Last name'),
+  {
+    id: 'age.unknown',
+    severity: 'warning',
+    fields: ['age'],
+    message: 'Age is unknown',
+    test: (data) => !isMissing(data.age),
+  },
+  {
+    id: 'age.range',
+    severity: 'error',
+    fields: ['age'],
+    message: 'Age must be between 0 and 120 years',
+    test: (data) => isMissing(data.age) || isValidAge(data.age),
+  },
+  ...textRules('location', 'Location'),
+  {
+    id: 'date.required',
+    severity: 'error',
+    fields: ['date'],
+    message: 'Date is required',
+    test: (data) => Boolean(data.date),
+  },
+  {
+    id: 'date.format',
+    severity: 'error',
+    fields: ['date'],
+    message: 'Date must be in ISO 8601 format (YYYY-MM-DD) and be a valid date',
+    test: (data) => !data.date || isValidISODate(data.date),
+  },
+  {
+    id: 'latitude.required',
+    severity: 'error',
+    fields: ['latitude'],
+    message: 'Latitude is required',
+    test: (data) => !isMissing(data.latitude),
+  },
+  {
+    id: 'longitude.required',
+    severity: 'error',
+    fields: ['longitude'],
+    message: 'Longitude is required',
+    test: (data) => !isMissing(data.longitude),
+  },
+  {
+    id: 'coordinates.israel',
+    severity: 'error',
+    fields: ['latitude', 'longitude', 'location'],
+    field: 'coordinates',
+    message: `Coordinates are outside Israel's boundaries (lat: ${ISRAEL_BOUNDS.latitude.min}-${ISRAEL_BOUNDS.latitude.max}, lng: ${ISRAEL_BOUNDS.longitude.min}-${ISRAEL_BOUNDS.longitude.max})`,
+    test: (data) =>
+      isMissing(data.latitude) ||
+      isMissing(data.longitude) ||
+      isValidIsraelCoordinates(data.latitude, data.longitude) ||
+      // Places abroad in the gazetteer (foreign nationals' home countries, attacks abroad)
+      Boolean(data.location && isAbroadLocation(data.location)),
+    value: (data) => ({ latitude: data.latitude, longitude: data.longitude }),
+  },
+  {
+    id: 'gender.unknown',
+    severity: 'warning',
+    fields: ['gender'],
+    message: 'Gender is unknown',
+    test: (data) => !isMissing(data.gender),
+  },
+  {
+    id: 'gender.value',
+    severity: 'error',
+    fields: ['gender'],
+    message: `Gender must be one of: ${VALID_GENDERS.join(', ')}`,
+    test: (data) => isMissing(data.gender) || isValidGender(data.gender),
+  },
+  {
+    id: 'rank.required',
+    severity: 'error',
+    fields: ['rank'],
+    message: 'Military rank is required (use "-" for civilians)',
+    test: (data) => Boolean(data.rank),
+  },
+  ...textRules('source', 'Source'),
+  ...textRules('type', 'Incident type'),
+  {
+    id: 'causeOfDeath.encoding',
+    severity: 'error',
+    fields: ['causeOfDeath'],
+    message: 'Cause of death contains invalid characters or encoding',
+    test: (data) => !data.causeOfDeath || data.causeOfDeath === '-' || isValidHebrewText(data.causeOfDeath),
+  },
+  {
+    id: 'url.required',
+    severity: 'error',
+    fields: ['url'],
+    message: 'URL is required (use "-" if not available)',
+    test: (data) => Boolean(data.url),
+  },
+  {
+    id: 'url.format',
+    severity: 'error',
+    fields: ['url'],
+    message: 'URL is not a valid URL (use "-" if not available)',
+    test: (data) => !data.url || data.url === '-' || parseUrl(data.url) !== undefined,
+  },
+  {
+    id: 'url.protocol',
+    severity: 'error',
+    fields: ['url'],
+    message: 'URL must use http or https protocol',
+    test: (data) => {
+      const url = data.url && data.url !== '-' ? parseUrl(data.url) : undefined;
+      return !url || ['http:', 'https:'].includes(url.protocol);
+    },
+  },
+];
 
-  // Validate date
-  if (!data.date) {
-    errors.push({
-      field: 'date',
-      message: 'Date is required',
-      value: data.date,
-    });
-  } else if (!isValidISODate(data.date)) {
-    errors.push({
-      field: 'date',
-      message: 'Date must be in ISO 8601 format (YYYY-MM-DD) and be a valid date',
-      value: data.date,
-    });
+/**
+ * Built-in rules: the field rules, then the cross-field consistency rules of
+ * lib/consistencyRules.ts
+ */
+export const VALIDATION_RULES: readonly ValidationRule[] = [...FIELD_RULES, ...CONSISTENCY_RULES];
+
+/**
+ * Error thrown when rule settings name an unknown rule or severity
+ */
+export class ValidationConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = 'ValidationConfigError';
+    Object.setPrototypeOf(this, ValidationConfigError.prototype);
   }
+}
 
-  // Validate coordinates
-  if (data.latitude === undefined || data.latitude === null) {
-    errors.push({
-      field: 'latitude',
-      message: 'Latitude is required',
-      value: data.latitude,
-    });
+/**
+ * Values a rule can be set to in the config
+ */
+const RULE_SETTINGS: readonly (ValidationSeverity | 'off')[] = ['error', 'warning', 'info', 'off'] as const;
+
+/**
+ * Check rule settings read from JSON
+ *
+ * @param value - Parsed config (e.g. the content of data/validation-config.json)
+ * @param rules - Rules the settings may refer to (default: VALIDATION_RULES)
+ * @returns The config
+ * @throws ValidationConfigError when it is not an object, names an unknown rule or
+ *   sets a rule to an unknown severity
+ */
+export function parseValidationConfig(
+  value: unknown,
+  rules: readonly ValidationRule[] = VALIDATION_RULES
+): ValidationConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationConfigError('Validation config must be an object');
   }
 
-  if (data.longitude === undefined || data.longitude === null) {
-    errors.push({
-      field: 'longitude',
-      message: 'Longitude is required',
-      value: data.longitude,
-    });
+  const settings = (value as { rules?: unknown }).rules ?? {};
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    throw new ValidationConfigError('Validation config "rules" must be an object of rule ids to severities');
   }
 
-  if (
-    data.latitude !== undefined &&
-    data.latitude !== null &&
-    data.longitude !== undefined &&
-    data.longitude !== null
-  ) {
-    if (!isValidIsraelCoordinates(data.latitude, data.longitude)) {
-      errors.push({
-        field: 'coordinates',
-        message: `Coordinates are outside Israel's boundaries (lat: ${ISRAEL_BOUNDS.latitude.min}-${ISRAEL_BOUNDS.latitude.max}, lng: ${ISRAEL_BOUNDS.longitude.min}-${ISRAEL_BOUNDS.longitude.max})`,
-        value: { latitude: data.latitude, longitude: data.longitude },
-      });
+  const ruleIds = new Set(rules.map((rule) => rule.id));
+  const problems: string[] = [];
+  Object.entries(settings).forEach(([ruleId, setting]) => {
+    if (!ruleIds.has(ruleId)) {
+      problems.push(`Unknown rule "${ruleId}"`);
+    } else if (!RULE_SETTINGS.includes(setting as ValidationSeverity | 'off')) {
+      problems.push(
+        `Rule "${ruleId}" has invalid severity ${JSON.stringify(setting)} (use ${RULE_SETTINGS.join(', ')})`
+      );
     }
-  }
+  });
 
-  // Validate gender
-  if (!data.gender) {
-    errors.push({
-      field: 'gender',
-      message: 'Gender is required',
-      value: data.gender,
-    });
-  } else if (!isValidGender(data.gender)) {
-    errors.push({
-      field: 'gender',
-      message: `Gender must be one of: ${VALID_GENDERS.join(', ')}`,
-      value: data.gender,
-    });
+  if (problems.length > 0) {
+    throw new ValidationConfigError(`Invalid validation config: ${problems.join('; ')}`, problems);
   }
 
-  // Validate rank (required but can be "-")
-  if (!data.rank && data.rank !== '-') {
-    errors.push({
-      field: 'rank',
-      message: 'Military rank is required (use "-" for civilians)',
-      value: data.rank,
-    });
-  }
+  return { rules: settings as Record<string, ValidationSeverity | 'off'> };
+}
 
-  // Validate source (required)
-  if (!data.source) {
-    errors.push({
-      field: 'source',
-      message: 'Source is required',
-      value: data.source,
-    });
-  } else if (!isValidHebrewText(data.source)) {
-    errors.push({
-      field: 'source',
-      message: 'Source contains invalid characters or encoding',
-      value: data.source,
-    });
-  }
+/**
+ * Default rule settings, from data/validation-config.json (checked when loaded)
+ */
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = parseValidationConfig(validationConfigJson);
 
-  // Validate type (required)
-  if (!data.type) {
-    errors.push({
-      field: 'type',
-      message: 'Incident type is required',
-      value: data.type,
-    });
-  } else if (!isValidHebrewText(data.type)) {
-    errors.push({
-      field: 'type',
-      message: 'Incident type contains invalid characters or encoding',
-      value: data.type,
-    });
-  }
+/**
+ * Severity of a rule under a config, or "off" when disabled
+ */
+export function getRuleSeverity(
+  rule: ValidationRule,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
+): ValidationSeverity | 'off' {
+  return config.rules?.[rule.id] ?? rule.severity;
+}
 
-  // Validate URL (required but can be "-")
-  if (!data.url) {
-    errors.push({
-      field: 'url',
-      message: 'URL is required (use "-" if not available)',
-      value: data.url,
-    });
-  } else if (data.url !== '-') {
-    try {
-      const url = new URL(data.url);
-      if (!['http:', 'https:'].includes(url.protocol)) {
-        errors.push({
-          field: 'url',
-          message: 'URL must use http or https protocol',
-          value: data.url,
-        });
-      }
-    } catch {
-      errors.push({
-        field: 'url',
-        message: 'URL is not a valid URL (use "-" if not available)',
-        value: data.url,
-      });
+/**
+ * Validates a single victim data record
+ * Runs every enabled rule; the record is valid when no rule reports an error
+ *
+ * @param data - Record to validate
+ * @param config - Rule settings (default: data/validation-config.json)
+ * @param rules - Rules to run (default: VALIDATION_RULES)
+ */
+export function validateVictimData(
+  data: Partial<VictimData>,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG,
+  rules: readonly ValidationRule[] = VALIDATION_RULES
+): ValidationResult {
+  const issues: Record<ValidationSeverity, ValidationError[]> = { error: [], warning: [], info: [] };
+
+  for (const rule of rules) {
+    const severity = getRuleSeverity(rule, config);
+    if (severity === 'off' || rule.test(data)) {
+      continue;
     }
+    issues[severity].push({
+      field: rule.field ?? rule.fields[0],
+      message: rule.message,
+      value: rule.value ? rule.value(data) : data[rule.fields[0]],
+      ruleId: rule.id,
+      severity,
+      ...(rule.suggestion && { suggestion: rule.suggestion }),
+    });
   }
 
   return {
-    valid: errors.length === 0,
-    errors,
+    valid: issues.error.length === 0,
+    errors: issues.error,
+    warnings: issues.warning,
+    info: issues.info,
   };
 }
 
@@ -364,25 +529,50 @@ export function validateVictimData(data: Partial<VictimData>): ValidationResult
  * Validates an array of victim data records
  */
 export function validateVictimDataArray(
-  dataArray: Array<Partial<VictimData>>
+  dataArray: Array<Partial<VictimData>>,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
 ): BulkValidationResult {
   const errors: BulkValidationResult['errors'] = [];
+  const warnings: BulkValidationResult['warnings'] = [];
+  const info: BulkValidationResult['info'] = [];
+  const ruleCounts: Record<string, number> = {};
   let validRecords = 0;
 
   dataArray.forEach((data, index) => {
-    const result = validateVictimData(data);
+    const result = validateVictimData(data, config);
+    const recordIdentifier = data.firstName && data.lastName
+      ? `${data.firstName} ${data.lastName}`
+      : undefined;
+
+    for (const issue of [...result.errors, ...result.warnings, ...result.info]) {
+      ruleCounts[issue.ruleId] = (ruleCounts[issue.ruleId] || 0) + 1;
+    }
 
     if (result.valid) {
       validRecords++;
     } else {
       errors.push({
         recordIndex: index,
-        recordIdentifier: data.firstName && data.lastName
-          ? `${data.firstName} ${data.lastName}`
-          : undefined,
+        recordIdentifier,
         errors: result.errors,
       });
     }
+
+    if (result.warnings.length > 0) {
+      warnings.push({
+        recordIndex: index,
+        recordIdentifier,
+        warnings: result.warnings,
+      });
+    }
+
+    if (result.info.length > 0) {
+      info.push({
+        recordIndex: index,
+        recordIdentifier,
+        info: result.info,
+      });
+    }
   });
 
   const invalidRecords = dataArray.length - validRecords;
@@ -393,15 +583,43 @@ export function validateVictimDataArray(
     validRecords,
     invalidRecords,
     errors,
+    warnings,
+    info,
+    ruleCounts,
   };
 }
 
+/**
+ * Fields of a complete record
+ * processVictimData fills all but the coordinates with defaults when their rule is off
+ */
+const REQUIRED_FIELDS = [
+  'firstName',
+  'lastName',
+  'location',
+  'date',
+  'latitude',
+  'longitude',
+  'rank',
+  'source',
+  'type',
+  'url',
+] as const satisfies ReadonlyArray<keyof VictimData>;
+
+/**
+ * First required field a record does not have
+ * Each has a "<field>.required" rule
+ */
+export function findMissingField(data: Partial<VictimData>): (typeof REQUIRED_FIELDS)[number] | undefined {
+  return REQUIRED_FIELDS.find((field) => isMissing(data[field]) || data[field] === '');
+}
+
 /**
  * Type guard to check if data is a complete VictimData object
+ * Checks that the required fields are present; rule checks are left to validateVictimData
  */
 export function isCompleteVictimData(data: Partial<VictimData>): data is VictimData {
-  const result = validateVictimData(data);
-  return result.valid;
+  return findMissingField(data) === undefined;
 }
 
 /**
@@ -0,0 +1,179 @@
+/**
+ * Validation and ingestion diagnostics
+ * Lists every CSV row that failed processing or was reported with warnings or info,
+ * with its line number, cell values and the rules it broke, so the source
+ * sheet can be fixed without reading the server logs
+ */
+
+import type { CSVParseIssue, CSVSourceRow } from '@/lib/csvParser';
+import type { BulkProcessingResult } from '@/lib/dataProcessing';
+import type { ValidationError } from '@/lib/validation';
+
+/**
+ * Outcome of a reported row
+ * - failed: the record was dropped
+ * - warning: the record was kept with warnings
+ * - info: the record was kept with info issues only
+ */
+export type ValidationRowStatus = 'failed' | 'warning' | 'info';
+
+/**
+ * Issue of a reported row
+ */
+export interface ValidationRowIssue {
+  ruleId: string;
+  severity: ValidationError['severity'];
+  field: string;
+  message: string;
+  value?: unknown;
+  suggestion?: string;
+}
+
+/**
+ * CSV row that failed processing or has warnings or info issues
+ */
+export interface ValidationReportRow {
+  /** Index of the record in the CSV (0 for the first data row) */
+  recordIndex: number;
+
+  /** Line of the CSV file where the row starts (the header is line 1) */
+  line: number | null;
+
+  /** Id of the processed record (warning and info rows only) */
+  recordId?: string;
+
+  /** First and last name, when the row has them */
+  recordIdentifier?: string;
+
+  status: ValidationRowStatus;
+
+  /** Cell values of the row by column header */
+  values: Record<string, string>;
+
+  /** Rule issues: errors first, then warnings, then info */
+  issues: ValidationRowIssue[];
+
+  /** Processing error of a failed row that broke no rule */
+  error?: string;
+}
+
+/**
+ * Validation summary over the CSV
+ */
+export interface ValidationReport {
+  /** Number of data rows */
+  total: number;
+
+  /** Number of rows processed into victims */
+  processed: number;
+
+  /** Number of rows dropped */
+  failed: number;
+
+  /** Number of processed rows with warnings */
+  warned: number;
+
+  /** Number of processed rows with info issues only */
+  noted: number;
+
+  /** Number of rows reported by each rule, by rule id */
+  ruleCounts: Record<string, number>;
+
+  /** Problems reported by the CSV parser */
+  parseErrors: CSVParseIssue[];
+
+  /** Failed, warned and noted rows, in file order */
+  rows: ValidationReportRow[];
+}
+
+/**
+ * Keep the reported fields of a validation issue
+ */
+function toRowIssue(issue: ValidationError): ValidationRowIssue {
+  const { ruleId, severity, field, message, value, suggestion } = issue;
+  return { ruleId, severity, field, message, value, ...(suggestion && { suggestion }) };
+}
+
+/**
+ * Summarize the validation and processing of the CSV rows
+ *
+ * @param processingResult - Result of processing the raw records
+ * @param sourceRows - CSV row of each raw record (same index)
+ * @param parseErrors - Problems reported by the CSV parser
+ * @returns Counts and every failed, warned or noted row
+ */
+export function createValidationReport(
+  processingResult: BulkProcessingResult,
+  sourceRows: readonly CSVSourceRow[],
+  parseErrors: CSVParseIssue[] = []
+): ValidationReport {
+  const { validationResult, failedRecords } = processingResult;
+  const rows = new Map<number, ValidationReportRow>();
+
+  const getRow = (
+    recordIndex: number,
+    recordIdentifier: string | undefined,
+    status: ValidationRowStatus
+  ): ValidationReportRow => {
+    let row = rows.get(recordIndex);
+    if (!row) {
+      row = {
+        recordIndex,
+        line: sourceRows[recordIndex]?.line ?? null,
+        recordIdentifier,
+        status,
+        values: sourceRows[recordIndex]?.values ?? {},
+        issues: [],
+      };
+      rows.set(recordIndex, row);
+    }
+    return row;
+  };
+
+  validationResult.errors.forEach(({ recordIndex, recordIdentifier, errors }) => {
+    getRow(recordIndex, recordIdentifier, 'failed').issues.push(...errors.map(toRowIssue));
+  });
+
+  validationResult.warnings.forEach(({ recordIndex, recordIdentifier, recordId, warnings }) => {
+    const row = getRow(recordIndex, recordIdentifier, 'warning');
+    if (recordId) {
+      row.recordId = recordId;
+    }
+    row.issues.push(...warnings.map(toRowIssue));
+  });
+
+  validationResult.info.forEach(({ recordIndex, recordIdentifier, recordId, info }) => {
+    const row = getRow(recordIndex, recordIdentifier, 'info');
+    if (recordId) {
+      row.recordId = recordId;
+    }
+    row.issues.push(...info.map(toRowIssue));
+  });
+
+  failedRecords.forEach(({ recordIndex, recordIdentifier, error }) => {
+    const row = getRow(recordIndex, recordIdentifier, 'failed');
+    row.status = 'failed';
+    if (row.issues.some((issue) => issue.severity === 'error')) {
+      return;
+    }
+    // A record that broke a rule after validation, e.g. a required field whose rule is off
+    if (error.ruleId) {
+      row.issues.unshift({ ruleId: error.ruleId, severity: 'error', field: error.field ?? '', message: error.message });
+    } else {
+      row.error = error.message;
+    }
+  });
+
+  const reported = Array.from(rows.values()).sort((a, b) => a.recordIndex - b.recordIndex);
+
+  return {
+    total: validationResult.totalRecords,
+    processed: processingResult.processedData.length,
+    failed: failedRecords.length,
+    warned: reported.filter((row) => row.status === 'warning').length,
+    noted: reported.filter((row) => row.status === 'info').length,
+    ruleCounts: validationResult.ruleCounts,
+    parseErrors,
+    rows: reported,
+  };
+}
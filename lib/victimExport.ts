@@ -0,0 +1,226 @@
+/**
+ * Victim list exports
+ * Serializes victims as CSV (same columns as the source sheet), GeoJSON or
+ * NDJSON for the format= parameter of /api/victims and the map download button
+ */
+
+import Papa from 'papaparse';
+import { CSV_COLUMN_MAP, CSV_COLUMNS, type CSVColumn } from '@/lib/csvColumns';
+import { VictimFilterError } from '@/lib/victimFilter';
+import { projectVictims, type ProjectableField, type ProjectedVictim } from '@/lib/victimQuery';
+import type { DateQuality, ProcessedVictimData } from '@/types/victim';
+
+/**
+ * Response formats of the victim list
+ */
+export type ExportFormat = 'json' | 'csv' | 'geojson' | 'ndjson';
+
+/**
+ * Format used when the client does not request one (the JSON API envelope)
+ */
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'json';
+
+/**
+ * All supported formats
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'csv', 'geojson', 'ndjson'] as const;
+
+/**
+ * Formats served as a file download
+ */
+export type DownloadFormat = Exclude<ExportFormat, 'json'>;
+
+/**
+ * Content type of each download format
+ */
+export const EXPORT_CONTENT_TYPES: Record<DownloadFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  geojson: 'application/geo+json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * File extension of each download format
+ */
+const EXPORT_FILE_EXTENSIONS: Record<DownloadFormat, string> = {
+  csv: 'csv',
+  geojson: 'geojson',
+  ndjson: 'ndjson',
+};
+
+/**
+ * Byte order mark, so Excel opens the CSV as UTF-8 and shows the Hebrew text
+ */
+export const UTF8_BOM = '\uFEFF';
+
+/**
+ * Cells a spreadsheet would run as a formula; Papa.unparse prefixes them with a quote
+ * Papa's default pattern also matches "-", the sheet's placeholder for a missing value
+ */
+const FORMULA_CELL = /^(?!-$)[=+\-@\t\r]/;
+
+/**
+ * Serialized export, ready to send or save
+ */
+export interface VictimExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * GeoJSON feature of one victim
+ */
+export interface VictimFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: ProjectedVictim;
+}
+
+/**
+ * GeoJSON feature collection of victims
+ */
+export interface VictimFeatureCollection {
+  type: 'FeatureCollection';
+  features: VictimFeature[];
+}
+
+/**
+ * Type guard to check if a value is a supported format
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Parse the format= parameter
+ *
+ * @param searchParams - Query parameters of the request
+ * @returns The requested format (json when absent)
+ * @throws VictimFilterError when the format is not supported
+ */
+export function parseExportFormat(searchParams: URLSearchParams): ExportFormat {
+  const format = searchParams.get('format')?.trim() || DEFAULT_EXPORT_FORMAT;
+  if (!isExportFormat(format)) {
+    throw new VictimFilterError(
+      `Invalid format parameter. Must be one of: ${EXPORT_FORMATS.join(', ')}.`,
+      'format',
+      format
+    );
+  }
+  return format;
+}
+
+/**
+ * Format a date as in the source sheet: DD/MM/YYYY, MM/YYYY for a partial
+ * date and "-" when the record has no real date
+ */
+function formatSheetDate(isoDate: string, quality: DateQuality): string {
+  if (quality === 'missing' || quality === 'defaulted') {
+    return '-';
+  }
+  const [year, month, day] = isoDate.split('-');
+  if (!day || !month) {
+    return isoDate;
+  }
+  return quality === 'partial' ? `${month}/${year}` : `${day}/${month}/${year}`;
+}
+
+/**
+ * Cell value for a sheet column ("-" for a missing value, as in the source sheet)
+ */
+function getSheetValue(
+  victim: ProcessedVictimData,
+  field: (typeof CSV_COLUMN_MAP)[CSVColumn]
+): string {
+  switch (field) {
+    case 'date':
+      return formatSheetDate(victim.date, victim.dateQuality);
+    case 'incidentLocation':
+      return victim.incidentLocation?.name || '-';
+    default: {
+      const value = victim[field];
+      return value === undefined || value === null || value === '' ? '-' : String(value);
+    }
+  }
+}
+
+/**
+ * Serialize victims as CSV with the Hebrew headers of the source sheet
+ * The output starts with a UTF-8 BOM and can be read back by parseVictimCSV; cells
+ * starting with =, +, - or @ are escaped so spreadsheets do not run them
+ *
+ * @param victims - Victims to export
+ * @returns CSV text
+ */
+export function toVictimCSV(victims: ProcessedVictimData[]): string {
+  const rows = victims.map((victim) => CSV_COLUMNS.map((header) => getSheetValue(victim, CSV_COLUMN_MAP[header])));
+
+  return UTF8_BOM + Papa.unparse({ fields: CSV_COLUMNS, data: rows }, { escapeFormulae: FORMULA_CELL });
+}
+
+/**
+ * Serialize victims as a GeoJSON feature collection of points
+ * Points are at the place of residence; the record goes in the properties
+ *
+ * @param victims - Victims to export
+ * @param fields - Fields to keep in the properties (all when undefined)
+ * @returns Feature collection
+ */
+export function toVictimFeatureCollection(
+  victims: ProcessedVictimData[],
+  fields?: ProjectableField[]
+): VictimFeatureCollection {
+  const properties = projectVictims(victims, fields);
+
+  return {
+    type: 'FeatureCollection',
+    features: victims.map((victim, index) => ({
+      type: 'Feature',
+      id: victim.id,
+      geometry: { type: 'Point', coordinates: [victim.longitude, victim.latitude] },
+      properties: properties[index],
+    })),
+  };
+}
+
+/**
+ * Serialize victims as newline-delimited JSON (one record per line)
+ *
+ * @param victims - Victims to export
+ * @param fields - Fields to keep in each record (all when undefined)
+ * @returns NDJSON text
+ */
+export function toVictimNDJSON(victims: ProcessedVictimData[], fields?: ProjectableField[]): string {
+  return projectVictims(victims, fields)
+    .map((record) => JSON.stringify(record) + '\n')
+    .join('');
+}
+
+/**
+ * Serialize victims in a download format
+ *
+ * @param victims - Victims to export
+ * @param format - Download format
+ * @param fields - Fields to keep (GeoJSON and NDJSON; the CSV always has the sheet columns)
+ * @returns Body, content type and file name of the download
+ */
+export function exportVictims(
+  victims: ProcessedVictimData[],
+  format: DownloadFormat,
+  fields?: ProjectableField[]
+): VictimExport {
+  const body =
+    format === 'csv'
+      ? toVictimCSV(victims)
+      : format === 'geojson'
+        ? JSON.stringify(toVictimFeatureCollection(victims, fields))
+        : toVictimNDJSON(victims, fields);
+
+  return {
+    body,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    filename: `victims.${EXPORT_FILE_EXTENSIONS[format]}`,
+  };
+}
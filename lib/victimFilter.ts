@@ -0,0 +1,350 @@
+/**
+ * Victim filtering utilities
+ * Applies VictimFilter criteria to processed victim data and converts
+ * filters to and from URL query parameters
+ */
+
+import type { ProcessedVictimData, VictimFilter } from '@/types/victim';
+import { isValidAge, isValidGender, isValidISODate } from '@/lib/validation';
+
+/**
+ * Error thrown when a query parameter cannot be converted to a filter value
+ */
+export class VictimFilterError extends Error {
+  constructor(
+    message: string,
+    public readonly parameter: string,
+    public readonly value?: unknown
+  ) {
+    super(message);
+    this.name = 'VictimFilterError';
+    Object.setPrototypeOf(this, VictimFilterError.prototype);
+  }
+}
+
+/**
+ * Query parameter names for each VictimFilter field
+ * Array fields are repeatable (e.g. ?source=עזה&source=לבנון)
+ */
+export const FILTER_PARAMS = {
+  startDate: 'startDate',
+  endDate: 'endDate',
+  sources: 'source',
+  types: 'type',
+  causes: 'cause',
+  gender: 'gender',
+  minAge: 'minAge',
+  maxAge: 'maxAge',
+  locations: 'location',
+  civiliansOnly: 'civilians',
+  militaryOnly: 'military',
+} as const;
+
+/**
+ * Open bounds used when only one side of a range is given
+ */
+const OPEN_DATE_RANGE = { start: '0000-01-01', end: '9999-12-31' } as const;
+const OPEN_AGE_RANGE = { min: 0, max: 120 } as const;
+
+/**
+ * Read a repeatable parameter, dropping empty and whitespace-only values
+ */
+function getListParam(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const values = searchParams
+    .getAll(name)
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Read an ISO date parameter
+ */
+function getDateParam(searchParams: URLSearchParams, name: string): string | undefined {
+  const value = searchParams.get(name)?.trim();
+
+  if (!value) {
+    return undefined;
+  }
+
+  if (!isValidISODate(value)) {
+    throw new VictimFilterError(
+      `Invalid ${name} parameter. Must be a valid date in ISO 8601 format (YYYY-MM-DD).`,
+      name,
+      value
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Read an age parameter (integer between 0 and 120)
+ */
+function getAgeParam(searchParams: URLSearchParams, name: string): number | undefined {
+  const value = searchParams.get(name)?.trim();
+
+  if (!value) {
+    return undefined;
+  }
+
+  const age = Number(value);
+  if (!Number.isInteger(age) || !isValidAge(age)) {
+    throw new VictimFilterError(
+      `Invalid ${name} parameter. Must be an integer between 0 and 120.`,
+      name,
+      value
+    );
+  }
+
+  return age;
+}
+
+/**
+ * Read a boolean flag parameter ("true" or "false")
+ */
+function getBooleanParam(searchParams: URLSearchParams, name: string): boolean | undefined {
+  const value = searchParams.get(name)?.trim();
+
+  if (!value) {
+    return undefined;
+  }
+
+  if (value !== 'true' && value !== 'false') {
+    throw new VictimFilterError(
+      `Invalid ${name} parameter. Must be "true" or "false".`,
+      name,
+      value
+    );
+  }
+
+  return value === 'true';
+}
+
+/**
+ * Parse URL query parameters into a VictimFilter
+ *
+ * @param searchParams - Query parameters of the request
+ * @returns VictimFilter containing only the criteria that were provided
+ * @throws VictimFilterError naming the offending parameter when a value is invalid
+ */
+export function parseVictimFilter(searchParams: URLSearchParams): VictimFilter {
+  const filter: VictimFilter = {};
+
+  // Date range
+  const startDate = getDateParam(searchParams, FILTER_PARAMS.startDate);
+  const endDate = getDateParam(searchParams, FILTER_PARAMS.endDate);
+
+  if (startDate && endDate && startDate > endDate) {
+    throw new VictimFilterError(
+      `Invalid ${FILTER_PARAMS.startDate} parameter. Must not be after ${FILTER_PARAMS.endDate}.`,
+      FILTER_PARAMS.startDate,
+      startDate
+    );
+  }
+
+  if (startDate || endDate) {
+    filter.dateRange = {
+      start: startDate || OPEN_DATE_RANGE.start,
+      end: endDate || OPEN_DATE_RANGE.end,
+    };
+  }
+
+  // Categorical lists
+  const sources = getListParam(searchParams, FILTER_PARAMS.sources);
+  if (sources) {
+    filter.sources = sources;
+  }
+
+  const types = getListParam(searchParams, FILTER_PARAMS.types);
+  if (types) {
+    filter.types = types;
+  }
+
+  const causes = getListParam(searchParams, FILTER_PARAMS.causes);
+  if (causes) {
+    filter.causes = causes;
+  }
+
+  const locations = getListParam(searchParams, FILTER_PARAMS.locations);
+  if (locations) {
+    filter.locations = locations;
+  }
+
+  // Gender
+  const gender = searchParams.get(FILTER_PARAMS.gender)?.trim();
+  if (gender) {
+    if (!isValidGender(gender)) {
+      throw new VictimFilterError(
+        `Invalid ${FILTER_PARAMS.gender} parameter. Must be one of: זכר, נקבה.`,
+        FILTER_PARAMS.gender,
+        gender
+      );
+    }
+    filter.gender = gender;
+  }
+
+  // Age range
+  const minAge = getAgeParam(searchParams, FILTER_PARAMS.minAge);
+  const maxAge = getAgeParam(searchParams, FILTER_PARAMS.maxAge);
+
+  if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+    throw new VictimFilterError(
+      `Invalid ${FILTER_PARAMS.minAge} parameter. Must not be greater than ${FILTER_PARAMS.maxAge}.`,
+      FILTER_PARAMS.minAge,
+      minAge
+    );
+  }
+
+  if (minAge !== undefined || maxAge !== undefined) {
+    filter.ageRange = {
+      min: minAge ?? OPEN_AGE_RANGE.min,
+      max: maxAge ?? OPEN_AGE_RANGE.max,
+    };
+  }
+
+  // Civilian / military flags
+  const civiliansOnly = getBooleanParam(searchParams, FILTER_PARAMS.civiliansOnly);
+  const militaryOnly = getBooleanParam(searchParams, FILTER_PARAMS.militaryOnly);
+
+  if (civiliansOnly && militaryOnly) {
+    throw new VictimFilterError(
+      `Invalid ${FILTER_PARAMS.militaryOnly} parameter. Cannot be combined with ${FILTER_PARAMS.civiliansOnly}=true.`,
+      FILTER_PARAMS.militaryOnly,
+      'true'
+    );
+  }
+
+  if (civiliansOnly) {
+    filter.civiliansOnly = true;
+  }
+  if (militaryOnly) {
+    filter.militaryOnly = true;
+  }
+
+  return filter;
+}
+
+/**
+ * Convert a VictimFilter to URL query parameters
+ * Inverse of parseVictimFilter; open range bounds are omitted
+ *
+ * @param filter - Filter to serialize
+ * @param params - Optional existing parameters to append to
+ * @returns URLSearchParams with the filter criteria
+ */
+export function victimFilterToSearchParams(
+  filter: VictimFilter,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  if (filter.dateRange) {
+    if (filter.dateRange.start !== OPEN_DATE_RANGE.start) {
+      params.append(FILTER_PARAMS.startDate, filter.dateRange.start);
+    }
+    if (filter.dateRange.end !== OPEN_DATE_RANGE.end) {
+      params.append(FILTER_PARAMS.endDate, filter.dateRange.end);
+    }
+  }
+
+  filter.sources?.forEach((source) => params.append(FILTER_PARAMS.sources, source));
+  filter.types?.forEach((type) => params.append(FILTER_PARAMS.types, type));
+  filter.causes?.forEach((cause) => params.append(FILTER_PARAMS.causes, cause));
+  filter.locations?.forEach((location) => params.append(FILTER_PARAMS.locations, location));
+
+  if (filter.gender) {
+    params.append(FILTER_PARAMS.gender, filter.gender);
+  }
+
+  if (filter.ageRange) {
+    if (filter.ageRange.min !== OPEN_AGE_RANGE.min) {
+      params.append(FILTER_PARAMS.minAge, String(filter.ageRange.min));
+    }
+    if (filter.ageRange.max !== OPEN_AGE_RANGE.max) {
+      params.append(FILTER_PARAMS.maxAge, String(filter.ageRange.max));
+    }
+  }
+
+  if (filter.civiliansOnly) {
+    params.append(FILTER_PARAMS.civiliansOnly, 'true');
+  }
+  if (filter.militaryOnly) {
+    params.append(FILTER_PARAMS.militaryOnly, 'true');
+  }
+
+  return params;
+}
+
+/**
+ * Check whether a single victim matches every criterion of a filter
+ * Locations match case-insensitively on substrings; other lists match exactly
+ */
+export function matchesVictimFilter(victim: ProcessedVictimData, filter: VictimFilter): boolean {
+  if (
+    filter.dateRange &&
+    (victim.date < filter.dateRange.start || victim.date > filter.dateRange.end)
+  ) {
+    return false;
+  }
+
+  if (filter.sources && !filter.sources.includes(victim.source)) {
+    return false;
+  }
+
+  if (filter.types && !filter.types.includes(victim.type)) {
+    return false;
+  }
+
+  if (filter.causes && !filter.causes.includes(victim.causeOfDeath)) {
+    return false;
+  }
+
+  if (filter.gender && victim.gender !== filter.gender) {
+    return false;
+  }
+
+  if (
+    filter.ageRange &&
+    (victim.age === null || victim.age < filter.ageRange.min || victim.age > filter.ageRange.max)
+  ) {
+    return false;
+  }
+
+  if (filter.locations) {
+    const location = victim.location.toLowerCase();
+    const matchesLocation = filter.locations.some((query) =>
+      location.includes(query.trim().toLowerCase())
+    );
+    if (!matchesLocation) {
+      return false;
+    }
+  }
+
+  if (filter.civiliansOnly && !victim.isCivilian) {
+    return false;
+  }
+
+  if (filter.militaryOnly && victim.isCivilian) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply a VictimFilter to an array of processed victims
+ *
+ * @param victims - Array of processed victim data
+ * @param filter - Filter criteria; omitted fields are not applied
+ * @returns Victims matching every provided criterion, in original order
+ */
+export function applyVictimFilter(
+  victims: ProcessedVictimData[],
+  filter: VictimFilter
+): ProcessedVictimData[] {
+  if (Object.keys(filter).length === 0) {
+    return victims;
+  }
+
+  return victims.filter((victim) => matchesVictimFilter(victim, filter));
+}
@@ -0,0 +1,10 @@
+/**
+ * Victim identifiers
+ * Kept apart from the processing pipeline (which hashes with Node's crypto) so
+ * pages can check ids from the URL without bundling it
+ */
+
+/**
+ * Format of identifiers produced by generateVictimId (16 lowercase hex characters)
+ */
+export const VICTIM_ID_REGEX = /^[a-f0-9]{16}$/;
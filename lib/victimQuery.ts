@@ -0,0 +1,211 @@
+/**
+ * Pagination, sorting and field projection for victim list queries
+ * Parses the list-shaping query parameters of /api/victims and applies them
+ */
+
+import type { ProcessedVictimData } from '@/types/victim';
+import { VICTIM_SORT_KEYS, isVictimSortKey, type VictimSortKey } from '@/lib/dataProcessing';
+import { VictimFilterError } from '@/lib/victimFilter';
+
+/**
+ * Largest page size a client may request
+ */
+export const MAX_PAGE_LIMIT = 5000;
+
+/**
+ * Fields a client may request through the fields= parameter
+ */
+export const PROJECTABLE_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'fullName',
+  'rank',
+  'age',
+  'gender',
+  'location',
+  'residenceLocation',
+  'incidentLocation',
+  'latitude',
+  'longitude',
+  'date',
+  'dateQuality',
+  'dateObject',
+  'timestamp',
+  'source',
+  'category',
+  'type',
+  'causeOfDeath',
+  'url',
+  'isCivilian',
+  'hasUrl',
+  'geocodeStatus',
+] as const satisfies ReadonlyArray<keyof ProcessedVictimData>;
+
+export type ProjectableField = (typeof PROJECTABLE_FIELDS)[number];
+
+/**
+ * Victim record restricted to a subset of fields
+ */
+export type ProjectedVictim = Partial<ProcessedVictimData>;
+
+/**
+ * List-shaping options parsed from query parameters
+ */
+export interface VictimQueryOptions {
+  /** Sort order (defaults to date, oldest first) */
+  sort: VictimSortKey;
+
+  /** Number of records to skip */
+  offset: number;
+
+  /** Maximum number of records to return (all when undefined) */
+  limit?: number;
+
+  /** Fields to include in each record (all when undefined) */
+  fields?: ProjectableField[];
+}
+
+/**
+ * Pagination details returned in response metadata
+ */
+export interface PaginationMetadata {
+  offset: number;
+  limit?: number;
+  returned: number;
+  total: number;
+  hasMore: boolean;
+  nextOffset?: number;
+}
+
+/**
+ * Read an integer parameter within a range
+ *
+ * @throws VictimFilterError naming the parameter when the value is not an integer in range
+ */
+export function parseIntegerParam(
+  searchParams: URLSearchParams,
+  name: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = searchParams.get(name)?.trim();
+
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new VictimFilterError(
+      `Invalid ${name} parameter. Must be an integer between ${min} and ${max}.`,
+      name,
+      value
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse sort, pagination and projection parameters
+ * Supports sort=<key>, limit=<n>, offset=<n> and fields=<a,b,c> (repeatable)
+ *
+ * @param searchParams - Query parameters of the request
+ * @returns Parsed query options
+ * @throws VictimFilterError naming the offending parameter when a value is invalid
+ */
+export function parseVictimQueryOptions(searchParams: URLSearchParams): VictimQueryOptions {
+  const sortParam = searchParams.get('sort')?.trim() || 'date';
+  if (!isVictimSortKey(sortParam)) {
+    throw new VictimFilterError(
+      `Invalid sort parameter. Must be one of: ${VICTIM_SORT_KEYS.join(', ')}.`,
+      'sort',
+      sortParam
+    );
+  }
+
+  const offset = parseIntegerParam(searchParams, 'offset', 0, Number.MAX_SAFE_INTEGER) ?? 0;
+  const limit = parseIntegerParam(searchParams, 'limit', 1, MAX_PAGE_LIMIT);
+
+  const requestedFields = searchParams
+    .getAll('fields')
+    .flatMap((value) => value.split(','))
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  const unknownField = requestedFields.find(
+    (field) => !PROJECTABLE_FIELDS.includes(field as ProjectableField)
+  );
+  if (unknownField) {
+    throw new VictimFilterError(
+      `Invalid fields parameter. Unknown field "${unknownField}". Must be any of: ${PROJECTABLE_FIELDS.join(', ')}.`,
+      'fields',
+      unknownField
+    );
+  }
+
+  return {
+    sort: sortParam,
+    offset,
+    limit,
+    fields:
+      requestedFields.length > 0
+        ? Array.from(new Set(requestedFields as ProjectableField[]))
+        : undefined,
+  };
+}
+
+/**
+ * Slice a sorted list into the requested page
+ *
+ * @param victims - Sorted array of victims
+ * @param offset - Number of records to skip
+ * @param limit - Maximum number of records to return (all when undefined)
+ * @returns The page and its pagination metadata
+ */
+export function paginateVictims<T>(
+  victims: T[],
+  offset: number,
+  limit?: number
+): { page: T[]; pagination: PaginationMetadata } {
+  const end = limit === undefined ? victims.length : offset + limit;
+  const page = victims.slice(offset, end);
+  const hasMore = end < victims.length;
+
+  return {
+    page,
+    pagination: {
+      offset,
+      limit,
+      returned: page.length,
+      total: victims.length,
+      hasMore,
+      nextOffset: hasMore ? end : undefined,
+    },
+  };
+}
+
+/**
+ * Restrict each victim record to the requested fields
+ *
+ * @param victims - Array of processed victim data
+ * @param fields - Fields to keep (records are returned unchanged when undefined)
+ * @returns Projected records
+ */
+export function projectVictims(
+  victims: ProcessedVictimData[],
+  fields?: ProjectableField[]
+): ProjectedVictim[] {
+  if (!fields) {
+    return victims;
+  }
+
+  return victims.map((victim) => {
+    const projected: Record<string, unknown> = {};
+    for (const field of fields) {
+      projected[field] = victim[field];
+    }
+    return projected as ProjectedVictim;
+  });
+}
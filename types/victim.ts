@@ -9,9 +9,19 @@
 export type Gender = 'זכר' | 'נקבה';
 
 /**
- * Source of incident in Hebrew
+ * Source (front) of incident in Hebrew
  */
-export type Source = 'עזה' | 'לבנון' | 'תימן' | 'פיגועים בארץ' | string;
+export type Source =
+  | 'עזה'
+  | 'לבנון'
+  | 'איראן'
+  | 'תימן'
+  | 'עיראק'
+  | 'סוריה'
+  | 'יהודה ושומרון'
+  | 'פיגועים בארץ'
+  | 'פיגועים בחו"ל'
+  | string;
 
 /**
  * Type of incident in Hebrew
@@ -25,6 +35,23 @@ export type IncidentType =
   | 'כטב"מים'
   | string;
 
+/**
+ * Cause of death in Hebrew (or "-" when not recorded)
+ */
+export type CauseOfDeath =
+  | 'טבח 7 באוקטובר'
+  | 'לחימה'
+  | 'רקטות וטילים'
+  | 'חטיפה ושבי'
+  | 'פיגוע'
+  | 'תאונה מבצעית'
+  | 'כטב"מים'
+  | 'תאונת דרכים'
+  | 'רפואי'
+  | 'אובדני'
+  | '-'
+  | string;
+
 /**
  * Military rank in Hebrew (or "-" for civilians)
  */
@@ -38,6 +65,24 @@ export type MilitaryRank =
   | '-'
   | string;
 
+/**
+ * How a location name was resolved to coordinates
+ * - exact: official locality name
+ * - alias: alternate spelling or normalized form of a name
+ * - partial: a locality name contained in (or containing) the location
+ * - fallback: not found; placed at the center of Israel
+ */
+export type GeocodeStatus = 'exact' | 'alias' | 'partial' | 'fallback';
+
+/**
+ * How precise the date of a record is
+ * - exact: day, month and year
+ * - partial: month and year only; placed on the 1st of the month
+ * - missing: no date in the source; placed on October 7, 2023
+ * - defaulted: a value that could not be read as a date; placed on October 7, 2023
+ */
+export type DateQuality = 'exact' | 'partial' | 'missing' | 'defaulted';
+
 /**
  * Raw victim data structure from JSON source
  * All text fields are in Hebrew
@@ -52,32 +97,47 @@ export interface VictimData {
   /** Military rank or "-" for civilians */
   rank: MilitaryRank;
 
-  /** Age in years */
-  age: number;
+  /** Age in years, or null when unknown */
+  age: number | null;
 
-  /** Location/city name in Hebrew */
+  /** Place of residence in Hebrew (the point shown on the map by default) */
   location: string;
 
+  /** Place of the incident, when the source records it */
+  incidentLocation?: GeocodedLocation;
+
   /** Date of incident in ISO 8601 format (YYYY-MM-DD) */
   date: string;
 
-  /** Source of incident in Hebrew */
+  /** How precise the date is (set when parsed from the CSV) */
+  dateQuality?: DateQuality;
+
+  /** Source (front) of incident in Hebrew */
   source: Source;
 
+  /** Raw category value from the source sheet, in Hebrew */
+  category?: string;
+
   /** Type of incident in Hebrew */
   type: IncidentType;
 
-  /** Gender in Hebrew */
-  gender: Gender;
+  /** Cause of death in Hebrew, or "-" if not recorded */
+  causeOfDeath?: CauseOfDeath;
+
+  /** Gender in Hebrew, or null when unknown */
+  gender: Gender | null;
 
   /** URL to news article or "-" if not available */
   url: string;
 
-  /** Latitude coordinate in decimal degrees */
+  /** Latitude of the place of residence in decimal degrees */
   latitude: number;
 
-  /** Longitude coordinate in decimal degrees */
+  /** Longitude of the place of residence in decimal degrees */
   longitude: number;
+
+  /** How the coordinates were derived from the location (set when geocoded from the CSV) */
+  geocodeStatus?: GeocodeStatus;
 }
 
 /**
@@ -88,6 +148,9 @@ export interface ProcessedVictimData extends VictimData {
   /** Unique identifier generated from victim data */
   id: string;
 
+  /** Cause of death in Hebrew ("-" when the source record has none) */
+  causeOfDeath: CauseOfDeath;
+
   /** Parsed Date object for easier manipulation */
   dateObject: Date;
 
@@ -102,6 +165,15 @@ export interface ProcessedVictimData extends VictimData {
 
   /** Whether a news URL is available */
   hasUrl: boolean;
+
+  /** How the coordinates were derived ("exact" when given in the source data) */
+  geocodeStatus: GeocodeStatus;
+
+  /** How precise the date is ("exact" when given in the source data) */
+  dateQuality: DateQuality;
+
+  /** Place of residence in Hebrew (same as location) */
+  residenceLocation: string;
 }
 
 /**
@@ -112,6 +184,17 @@ export interface Coordinates {
   longitude: number;
 }
 
+/**
+ * Named place with its geocoded coordinates
+ */
+export interface GeocodedLocation extends Coordinates {
+  /** Place name in Hebrew */
+  name: string;
+
+  /** How the coordinates were derived from the name */
+  geocodeStatus: GeocodeStatus;
+}
+
 /**
  * Victim location data for map rendering
  */
@@ -145,22 +228,42 @@ export interface VictimStatistics {
   /** Victims grouped by incident type */
   byType: Record<string, number>;
 
+  /** Victims grouped by cause of death */
+  byCause: Record<string, number>;
+
   /** Victims grouped by date */
   byDate: Record<string, number>;
 
   /** Victims grouped by location */
   byLocation: Record<string, number>;
 
-  /** Victims grouped by gender */
-  byGender: Record<Gender, number>;
+  /** Victims grouped by gender ("unknown" when not recorded) */
+  byGender: Record<Gender | 'unknown', number>;
+
+  /** Victims grouped by how precise their date is */
+  byDateQuality: Record<DateQuality, number>;
 
-  /** Age statistics */
+  /** Age statistics over the victims whose age is known */
   ageStats: {
     min: number;
     max: number;
     average: number;
     median: number;
+
+    /** Number of victims whose age is unknown */
+    unknown: number;
   };
+
+  /** Earliest and latest victim timestamps (Unix ms), or null when there are no victims */
+  timeRange: TimeRange | null;
+}
+
+/**
+ * Range of Unix timestamps in milliseconds (inclusive)
+ */
+export interface TimeRange {
+  min: number;
+  max: number;
 }
 
 /**
@@ -179,6 +282,9 @@ export interface VictimFilter {
   /** Filter by incident type */
   types?: IncidentType[];
 
+  /** Filter by cause of death */
+  causes?: CauseOfDeath[];
+
   /** Filter by gender */
   gender?: Gender;
 